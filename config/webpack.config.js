@@ -40,6 +40,7 @@ module.exports = (env) => {
             options:  [path.resolve(paths.appSrc, 'entry', 'options')],
             separate: [path.resolve(paths.appSrc, 'entry', 'separate')],
             collection: [path.resolve(paths.appSrc, 'entry', 'collection')],
+            history: [path.resolve(paths.appSrc, 'entry', 'history')],
         },
         output: {
             path: paths.appBuild,
@@ -79,7 +80,7 @@ module.exports = (env) => {
                         from: paths.appPublic,
                         to: paths.appBuild,
                         filter: (path) => {
-                            return !/(popup|options|separate|collection)\.html/.test(path);
+                            return !/(popup|options|separate|collection|history)\.html/.test(path);
                         },
                     },
                 ],
@@ -108,6 +109,12 @@ module.exports = (env) => {
                 chunks: ['collection'],
                 filename: 'collection.html',
             }),
+            new HtmlWebpackPlugin({
+                inject: true,
+                template: path.resolve(paths.appPublic, 'history.html'),
+                chunks: ['history'],
+                filename: 'history.html',
+            }),
             new MiniCssExtractPlugin({
                 filename: 'static/css/[name].css'
             }),
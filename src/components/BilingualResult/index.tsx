@@ -0,0 +1,84 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { getMessage } from '../../public/i18n';
+import { sendTranslate } from '../../public/send';
+import { getSentencePairs } from '../../public/sentence-align';
+import { cn } from '../../public/utils';
+import { TranslateResult } from '../../types';
+import IconFont from '../IconFont';
+import ListenButton from '../ListenButton';
+import './style.css';
+
+type BilingualResultProps = {
+    result: TranslateResult;
+    source: string;
+};
+
+type Retranslation = { status: 'loading'; } | { status: 'finished'; result: string; } | { status: 'error'; errorCode: string; };
+
+// Sentences of the text, each followed by its translation.
+const BilingualResult: React.FC<BilingualResultProps> = ({ result, source }) => {
+    const [hoveredIndex, setHoveredIndex] = useState(-1);
+    const [retranslations, setRetranslations] = useState<{ [index: number]: Retranslation; }>({});
+
+    const pairs = useMemo(() => getSentencePairs(result), [result]);
+
+    useEffect(() => {
+        setRetranslations({});
+    }, [pairs]);
+
+    const retranslate = async (index: number) => {
+        setRetranslations(value => ({ ...value, [index]: { status: 'loading' } }));
+
+        // A sentence on its own, in case the whole text made it translated wrongly or left out.
+        // The cached result is the one being retranslated, the source is asked again.
+        const response = await sendTranslate({ source, text: pairs[index].text, from: result.from, to: result.to, bypassCache: true }, 0);
+
+        const retranslation: Retranslation = 'code' in response
+            ? { status: 'error', errorCode: response.code }
+            : { status: 'finished', result: response.translation.result.join(' ') };
+
+        setRetranslations(value => ({ ...value, [index]: retranslation }));
+    };
+
+    return (
+        <div className='bilingual-result'>
+            {pairs.map(({ text, result: sentenceResult }, index) => {
+                const retranslation = retranslations[index];
+                const translation = retranslation?.status === 'finished' ? retranslation.result : sentenceResult;
+
+                return (<div
+                    key={index}
+                    className={cn('bilingual-result__pair', hoveredIndex === index && 'bilingual-result__pair--hovered')}
+                    onMouseEnter={() => setHoveredIndex(index)}
+                    onMouseLeave={() => setHoveredIndex(-1)}
+                >
+                    <div className='bilingual-result__text'>{text}</div>
+                    <div className='bilingual-result__result'>
+                        {retranslation?.status === 'loading' ? <span className='bilingual-result__message'>{getMessage('contentRetranslating')}</span> : translation}
+                        {retranslation?.status === 'error' && <span className='bilingual-result__message'>{getMessage('contentRetranslateFailed')}</span>}
+                        <span className='bilingual-result__actions'>
+                            <IconFont
+                                className='iconbutton button'
+                                iconName='#icon-copy'
+                                onClick={() => navigator.clipboard.writeText(translation)}
+                            />
+                            <ListenButton
+                                text={translation}
+                                source={source}
+                                from={result.to}
+                            />
+                            <IconFont
+                                className='iconbutton button'
+                                iconName='#icon-refresh'
+                                title={getMessage('contentRetranslateSentence')}
+                                onClick={() => retranslation?.status !== 'loading' && retranslate(index)}
+                            />
+                        </span>
+                    </div>
+                </div>);
+            })}
+        </div>
+    );
+};
+
+export default BilingualResult;
\ No newline at end of file
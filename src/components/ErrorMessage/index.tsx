@@ -2,10 +2,13 @@ import React from 'react';
 import * as extensionErrors from '../../constants/errorCodes';
 import * as translateErrors from '../../public/translate/error-codes';
 import { getMessage } from '../../public/i18n';
+import { sendOpenCredentialVault } from '../../public/send';
 
 const errorMessage: { [key: string]: string; } = {
     [extensionErrors.SOURCE_ERROR]: getMessage(`errorCode_${extensionErrors.SOURCE_ERROR}`),
     [extensionErrors.EXTENSION_UPDATED]: getMessage(`errorCode_${extensionErrors.EXTENSION_UPDATED}`),
+    [extensionErrors.CREDENTIALS_LOCKED]: getMessage(`errorCode_${extensionErrors.CREDENTIALS_LOCKED}`),
+    [extensionErrors.LLM_BUDGET_EXCEEDED]: getMessage(`errorCode_${extensionErrors.LLM_BUDGET_EXCEEDED}`),
     [translateErrors.BAD_REQUEST]: getMessage(`errorCode_${translateErrors.BAD_REQUEST}`),
     [translateErrors.CONNECTION_TIMED_OUT]: getMessage(`errorCode_${translateErrors.CONNECTION_TIMED_OUT}`),
     [translateErrors.LANGUAGE_NOT_SOPPORTED]: getMessage(`errorCode_${translateErrors.LANGUAGE_NOT_SOPPORTED}`),
@@ -28,6 +31,7 @@ const ErrorMessage: React.FC<ErrorMessageProps> = ({ errorCode, retry }) => {
             {errorMessage[errorCode] ?? errorCode}
             {(errorCode in translateErrors || !errorMessage[errorCode]) && retry && <span className='span-link' onClick={retry}>{getMessage('wordRetry')}</span>}
             {errorCode === extensionErrors.EXTENSION_UPDATED && <span className='span-link' onClick={refreshPage}>{refreshPageMessage}</span>}
+            {errorCode === extensionErrors.CREDENTIALS_LOCKED && <span className='span-link' onClick={sendOpenCredentialVault}>{getMessage('sentenceUnlockCredentials')}</span>}
         </span>
     );
 };
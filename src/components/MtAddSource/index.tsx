@@ -20,7 +20,7 @@ const MtAddSource: React.FC<MtAddSourceProps> = ({ translations, addSource }) =>
     const sources = useMemo(() => {
         const addedSourceSet = new Set(translations.map(translation => translation.source));
         const { customTranslateSourceList, enabledThirdPartyServices } = scOptions.getInit();
-        return translateSource.concat(customTranslateSourceList).map(v => v.source).concat(enabledThirdPartyServices.map(v => v.name)).filter(v => !addedSourceSet.has(v));
+        return translateSource.concat(customTranslateSourceList).map(v => v.source).concat(enabledThirdPartyServices.map(v => v.source)).filter(v => !addedSourceSet.has(v));
     }, [translations]);
 
     const onAddSource = useCallback((source: string) => {
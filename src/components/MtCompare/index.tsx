@@ -0,0 +1,124 @@
+import React, { useMemo, useState } from 'react';
+import { diffWords } from '../../public/compare-translations';
+import { alignSentences, splitSentences } from '../../public/sentence-align';
+import { getMessage } from '../../public/i18n';
+import { sendAddToCollection } from '../../public/send';
+import scOptions from '../../public/sc-options';
+import { cn, resultToString } from '../../public/utils';
+import { TranslateRequestFinished, Translation } from '../../types';
+import IconFont from '../IconFont';
+import Radio from '../Radio';
+import SourceFavicon from '../SourceFavicon';
+import './style.css';
+
+type MtCompareProps = {
+    text: string;
+    translations: Translation[];
+    insertResult?: (source: string, result: string) => void;
+};
+
+type FinishedTranslation = {
+    source: string;
+    translateRequest: TranslateRequestFinished;
+};
+
+const MtCompare: React.FC<MtCompareProps> = ({ text, translations, insertResult }) => {
+    const [referenceSource, setReferenceSource] = useState('');
+    const [bestSource, setBestSource] = useState('');
+
+    const finishedTranslations = useMemo(() => translations.filter((translation): translation is FinishedTranslation => (
+        translation.translateRequest.status === 'finished'
+    )), [translations]);
+
+    const reference = finishedTranslations.find(({ source }) => source === referenceSource) ?? finishedTranslations[0];
+    const best = finishedTranslations.find(({ source }) => source === bestSource) ?? reference;
+
+    // Rows are the sentences of the reference, the other results are aligned to them.
+    const rows = useMemo(() => {
+        if (!reference) { return []; }
+
+        const { result, to } = reference.translateRequest.result;
+        const referenceSentences = splitSentences(result, to);
+
+        const columns = finishedTranslations.map(({ source, translateRequest }) => {
+            if (source === reference.source) {
+                return referenceSentences.map(sentence => [{ value: sentence, type: 'equal' as const }]);
+            }
+
+            const cells = alignSentences(referenceSentences, splitSentences(translateRequest.result.result, to), to);
+
+            // An empty cell was merged into the one above, it's not that everything was left out.
+            return cells.map((cell, index) => (cell ? diffWords(referenceSentences[index], cell) : []));
+        });
+
+        return referenceSentences.map((_, index) => columns.map(column => column[index]));
+    }, [reference, finishedTranslations]);
+
+    const pendingCount = translations.length - finishedTranslations.length;
+
+    if (!reference || !best) {
+        return (<div className='mt-compare__message'>{getMessage('contentCompareNoResults')}</div>);
+    }
+
+    const bestResult = best.translateRequest.result.result;
+
+    return (
+        <div className='mt-compare'>
+            <div className='mt-compare__table' style={{gridTemplateColumns: `repeat(${finishedTranslations.length}, minmax(160px, 1fr))`}}>
+                {finishedTranslations.map(({ source }) => (<div
+                    key={source}
+                    className={cn('mt-compare__head', source === reference.source && 'mt-compare__head--reference')}
+                >
+                    <SourceFavicon source={source} />
+                    <Radio
+                        name='compare-reference'
+                        value={source}
+                        label={getMessage('contentReference')}
+                        checked={source === reference.source}
+                        onChange={setReferenceSource}
+                    />
+                    <Radio
+                        name='compare-best'
+                        value={source}
+                        label={getMessage('contentPickBest')}
+                        checked={source === best.source}
+                        onChange={setBestSource}
+                    />
+                </div>))}
+                {rows.map((row, rowIndex) => row.map((parts, columnIndex) => (<div
+                    key={`${rowIndex}-${finishedTranslations[columnIndex].source}`}
+                    className={cn('mt-compare__cell', finishedTranslations[columnIndex].source === best.source && 'mt-compare__cell--best')}
+                >
+                    {parts.map(({ value, type }, index) => (type === 'equal' ? value : <span key={index} className={`mt-compare__${type}`}>{value}</span>))}
+                </div>)))}
+            </div>
+            {pendingCount > 0 && <div className='mt-compare__message'>{getMessage('contentComparePending').replace('{count}', pendingCount.toString())}</div>}
+            <div className='mt-compare__actions'>
+                <SourceFavicon source={best.source} />
+                <span>
+                    {insertResult && <IconFont
+                        className='iconbutton button'
+                        iconName='#icon-insert'
+                        onClick={() => insertResult(best.source, resultToString(bestResult))}
+                    />}
+                    <IconFont
+                        className='iconbutton button'
+                        iconName='#icon-copy'
+                        onClick={() => {
+                            const copiedText = scOptions.getInit().displayOfTranslation.maintainParagraphStructure ? bestResult.join('\n\n') : resultToString(bestResult);
+                            navigator.clipboard.writeText(copiedText);
+                        }}
+                    />
+                    <IconFont
+                        className='iconbutton button'
+                        iconName='#icon-collect'
+                        title={getMessage('contentAddToCollection')}
+                        onClick={() => sendAddToCollection(text, [best])}
+                    />
+                </span>
+            </div>
+        </div>
+    );
+};
+
+export default MtCompare;
\ No newline at end of file
@@ -9,6 +9,7 @@ import SourceLanguage from '../SourceLanguage';
 import MtSourceSelect from '../MtSourceSelect';
 import { BROWSER_AI } from '../../constants/translateSource';
 import BrowserAIResult from '../BrowserAIResult';
+import { getMessage } from '../../public/i18n';
 
 type MtResultProps = {
     source: string;
@@ -30,7 +31,7 @@ const MtResult: React.FC<MtResultProps> = ({ source, translateRequest, remove, r
             >
                 <span className='mt-result__head__left'>
                     <MtSourceSelect source={source} />
-                    {translateRequest.status === 'loading' && <IconsLoadingSkeleton />}
+                    {(translateRequest.status === 'loading' || translateRequest.status === 'streaming') && <IconsLoadingSkeleton />}
                     {translateRequest.status === 'finished' && <>
                         <div>
                             <IconFont
@@ -44,6 +45,13 @@ const MtResult: React.FC<MtResultProps> = ({ source, translateRequest, remove, r
                                 source={source}
                                 from={translateRequest.result.from}
                             />
+                            <IconFont
+                                className='iconbutton'
+                                iconName='#icon-refresh'
+                                style={{cursor: 'pointer'}}
+                                title={getMessage('contentRefreshTranslation')}
+                                onClick={(e) => { e.stopPropagation(); retry(); }}
+                            />
                         </div>
                         {scOptions.getInit().displayOfTranslation?.sourceLanguage && <SourceLanguage lang={translateRequest.result.from} />}
                     </>}
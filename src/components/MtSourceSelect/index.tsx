@@ -21,7 +21,7 @@ const MtSourceSelect: React.FC<SourceSelectProps> = ({ source }) => {
     const sources = useMemo(() => {
         const addedSourceSet = new Set(translations.map(translation => translation.source));
         const { customTranslateSourceList, enabledThirdPartyServices } = scOptions.getInit();
-        return translateSource.concat(customTranslateSourceList).map(v => v.source).concat(enabledThirdPartyServices.map(v => v.name)).filter(v => !addedSourceSet.has(v));
+        return translateSource.concat(customTranslateSourceList).map(v => v.source).concat(enabledThirdPartyServices.map(v => v.source)).filter(v => !addedSourceSet.has(v));
     }, [translations]);
 
     const sourceSelectEltRef = useRef<HTMLDivElement>(null);
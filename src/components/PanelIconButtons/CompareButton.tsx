@@ -0,0 +1,26 @@
+import React from 'react';
+import { getMessage } from '../../public/i18n';
+import { useAppDispatch, useAppSelector } from '../../public/react-use';
+import { toggleCompareMode } from '../../redux/slice/panelStatusSlice';
+import IconFont from '../IconFont';
+import PanelIconButtonWrapper from './PanelIconButtonWrapper';
+
+const CompareButton: React.FC = () => {
+    const { compareMode } = useAppSelector(store => store.panelStatus);
+
+    const dispatch = useAppDispatch();
+
+    return (
+        <PanelIconButtonWrapper
+            onClick={() => dispatch(toggleCompareMode())}
+            title={getMessage('contentCompareTranslations')}
+            iconGrey={!compareMode}
+        >
+            <IconFont
+                iconName='#icon-switch'
+            />
+        </PanelIconButtonWrapper>
+    );
+};
+
+export default CompareButton;
\ No newline at end of file
@@ -12,6 +12,7 @@ import openai from './favicons/openai.png';
 import './style.css';
 import scOptions from '../../public/sc-options';
 import { cn } from '../../public/utils';
+import { getThirdPartyService } from '../../constants/thirdPartyServiceValues';
 
 type SourceFaviconProps = {
     source: string;
@@ -31,7 +32,17 @@ const getSourceNameFromCustomSources = (source: string) => {
     return scOptions.getInit().customTranslateSourceList.concat(scOptions.getInit().customWebpageTranslateSourceList).find(v => v.source === source)?.name ?? source;
 }
 
+const thirdPartyServiceFavicons: { [K: string]: string; } = { Gemini: gemini, ChatGPT: chatgpt, OpenAI: openai };
+
 const getFavicon = (source: string) => {
+    const service = getThirdPartyService(source, scOptions.getInit().enabledThirdPartyServices);
+
+    if (service) {
+        const favicon = service.favicon || thirdPartyServiceFavicons[service.type];
+
+        return favicon ? FaviconImg(favicon) : MockFavicon(service.name);
+    }
+
     switch (source) {
         case GOOGLE_COM: return FaviconImg(google);
         case BING_COM: return FaviconImg(bing);
@@ -42,19 +53,27 @@ const getFavicon = (source: string) => {
         case 'Gemini': return FaviconImg(gemini);
         case 'ChatGPT': return FaviconImg(chatgpt);
         case 'OpenAI': return FaviconImg(openai);
-        default: return (
-            <div className='favicon favicon--mock'>
-                <div className='favicon--mock-text'>
-                    {getSourceNameFromCustomSources(source)[0]}
-                </div>
-            </div>
-        );
+        default: return MockFavicon(getName(source));
     }
 };
 
 const FaviconImg = (src: string) => (<img className='favicon' src={src} alt='favicon' />);
 
+const MockFavicon = (name: string) => (
+    <div className='favicon favicon--mock'>
+        <div className='favicon--mock-text'>
+            {name[0]}
+        </div>
+    </div>
+);
+
 const getName = (source: string) => {
+    const service = getThirdPartyService(source, scOptions.getInit().enabledThirdPartyServices);
+
+    if (service) {
+        return service.name;
+    }
+
     switch (source) {
         case GOOGLE_COM: return 'Google';
         case BING_COM: return 'Bing';
@@ -65,6 +84,9 @@ const getName = (source: string) => {
         case 'Gemini': return 'Gemini';
         case 'ChatGPT': return 'ChatGPT';
         case 'OpenAI': return 'OpenAI';
+        case 'Ollama': return 'Ollama';
+        case 'LlamaCpp': return 'llama.cpp';
+        case 'LibreTranslate': return 'LibreTranslate';
         default: return getSourceNameFromCustomSources(source);
     }
 };
@@ -10,7 +10,7 @@ type TextFieldProps = {
     helperText?: string;
     placeholder?: string;
     value?: string;
-    type?: 'text' | 'search'
+    type?: 'text' | 'search' | 'password'
     multiline?: boolean;
     rows?: number;
     required?: boolean;
@@ -9,6 +9,7 @@ import ListenButton from '../ListenButton';
 import './style.css';
 import { BING_COM } from '../../constants/translateSource';
 import scOptions from '../../public/sc-options';
+import BilingualResult from '../BilingualResult';
 
 type TranslateResultProps = {
     translateRequest: TranslateRequest;
@@ -49,13 +50,20 @@ const TranslateResult: React.FC<TranslateResultProps> = ({ translateRequest, sou
                     && <div className='translate-result__item translate-result__phonetic'>
                     {translateRequest.result.phonetic}
                 </div>}
-                <div className='translate-result__item translate-result__result'>
+                {displayOfTranslation.bilingualSentences && translateRequest.status === 'finished' ? <div className='translate-result__item'>
+                    <BilingualResult result={translateRequest.result} source={source} />
+                    {insertResult && <IconFont
+                        className='iconbutton button'
+                        iconName='#icon-insert'
+                        onClick={() => insertResult(resultToString(translateRequest.result.result))}
+                    />}
+                </div> : <div className='translate-result__item translate-result__result'>
                     {translateRequest.result.result.map((item, index) => (<span
                         className={cn(displayOfTranslation.maintainParagraphStructure && 'translate-result__paragraph')}
                         key={index}
                     >
                         {item}
-                        {index === translateRequest.result.result.length - 1 && (<>
+                        {translateRequest.status === 'finished' && index === translateRequest.result.result.length - 1 && (<>
                             {insertResult && <IconFont
                                 className='iconbutton button'
                                 iconName='#icon-insert'
@@ -78,7 +86,7 @@ const TranslateResult: React.FC<TranslateResultProps> = ({ translateRequest, sou
                             />
                         </>)}
                     </span>))}
-                </div>
+                </div>}
                 {displayOfTranslation.dict
                     && translateRequest.result.dict
                     && translateRequest.result.dict.length > 0
@@ -5,9 +5,11 @@ import { cn, resultToString } from '../../public/utils';
 import './style.css';
 import { getMessage } from '../../public/i18n';
 import ErrorMessage from '../ErrorMessage';
-import { TranslateRequest } from '../../types';
+import { TranslateRequest, TranslateResult } from '../../types';
 import ListenButton from '../ListenButton';
 import scOptions from '../../public/sc-options';
+import SourceFavicon from '../SourceFavicon';
+import BilingualResult from '../BilingualResult';
 
 type TsResultProps = {
     translateRequest: TranslateRequest;
@@ -29,36 +31,30 @@ const TsResult: React.FC<TsResultProps> = ({ translateRequest, source, retry, se
             translateRequest.status === 'error' ?
                 <ErrorMessage errorCode={translateRequest.errorCode} retry={retry} /> :
             <>
-                <div className='st-result__item-stack'>
+                {displayOfTranslation.bilingualSentences && translateRequest.status === 'finished' ? <div className='st-result__item-stack'>
+                    <BilingualResult result={translateRequest.result} source={source} />
+                    <span>
+                        <ResultActions
+                            result={translateRequest.result}
+                            source={source}
+                            maintainParagraphStructure={displayOfTranslation.maintainParagraphStructure}
+                            insertResult={insertResult}
+                        />
+                    </span>
+                </div> : <div className='st-result__item-stack'>
                     {translateRequest.result.result.map((item, index) => (<span
                         className={cn(displayOfTranslation.maintainParagraphStructure && 'st-result__paragraph')}
                         key={index}
                     >
                         {item}
-                        {index === translateRequest.result.result.length - 1 && (<>
-                            {insertResult && <IconFont
-                                className='iconbutton button'
-                                iconName='#icon-insert'
-                                onClick={() => insertResult(resultToString(translateRequest.result.result))}
-                            />}
-                            <IconFont
-                                className='iconbutton button'
-                                iconName='#icon-copy'
-                                onClick={() => {
-                                    const text = displayOfTranslation.maintainParagraphStructure
-                                        ? translateRequest.result.result.join('\n\n')
-                                        : resultToString(translateRequest.result.result);
-                                    navigator.clipboard.writeText(text);
-                                }}
-                            />
-                            <ListenButton
-                                text={resultToString(translateRequest.result.result)}
-                                source={source}
-                                from={translateRequest.result.to}
-                            />
-                        </>)}
+                        {translateRequest.status === 'finished' && index === translateRequest.result.result.length - 1 && <ResultActions
+                            result={translateRequest.result}
+                            source={source}
+                            maintainParagraphStructure={displayOfTranslation.maintainParagraphStructure}
+                            insertResult={insertResult}
+                        />}
                     </span>))}
-                </div>
+                </div>}
                 {displayOfTranslation.dict && translateRequest.result.dict && translateRequest.result.dict.length > 0 && <div className='st-result__item-stack'>
                     {translateRequest.result.dict.map((v, i) => (
                         <div key={i}>{v}</div>
@@ -99,11 +95,44 @@ const TsResult: React.FC<TsResultProps> = ({ translateRequest, source, retry, se
                     && <div>
                     {translateRequest.result.phonetic}
                 </div>}
+                {translateRequest.result.fallbackSource && <div className='st-result__fallback-source'>
+                    {getMessage('contentAnsweredBy')}
+                    <SourceFavicon source={translateRequest.result.fallbackSource} />
+                </div>}
+                {translateRequest.result.budgetWarning && <div className='st-result__budget-warning'>
+                    {getMessage('contentLLMBudgetReached')}
+                </div>}
             </>}
         </div>
     );
 };
 
+type ResultActionsProps = {
+    result: TranslateResult;
+    source: string;
+    maintainParagraphStructure: boolean;
+    insertResult?: (result: string) => void;
+};
+
+// Actions of the whole translation, shown in both the plain and the bilingual display.
+const ResultActions: React.FC<ResultActionsProps> = ({ result, source, maintainParagraphStructure, insertResult }) => (<>
+    {insertResult && <IconFont
+        className='iconbutton button'
+        iconName='#icon-insert'
+        onClick={() => insertResult(resultToString(result.result))}
+    />}
+    <IconFont
+        className='iconbutton button'
+        iconName='#icon-copy'
+        onClick={() => navigator.clipboard.writeText(maintainParagraphStructure ? result.result.join('\n\n') : resultToString(result.result))}
+    />
+    <ListenButton
+        text={resultToString(result.result)}
+        source={source}
+        from={result.to}
+    />
+</>);
+
 const TranslateResultSkeleton: React.FC = () => (<div className='skeleton' style={{height: '1.2em', width: '65%'}}></div>);
 
 export default TsResult;
\ No newline at end of file
@@ -20,7 +20,7 @@ const TsVia: React.FC<TsViaProps> = ({ sourceChange, source, disableSourceChange
             <div className='via__content'>
                 <SourceSelect
                     source={source}
-                    sourceList={translateSource.concat(scOptions.getInit().customTranslateSourceList)}
+                    sourceList={translateSource.concat(scOptions.getInit().customTranslateSourceList, scOptions.getInit().enabledThirdPartyServices.map(v => ({ source: v.source, url: '' })))}
                     onChange={sourceChange}
                     className='via__content-select'
                     disabled={disableSourceChange}
@@ -22,4 +22,13 @@ export const SCTS_GET_PAGE_TRANSLATION_CACHE = 'SCTS_GET_PAGE_TRANSLATION_CACHE'
 export const SCTS_SET_PAGE_TRANSLATION_CACHE = 'SCTS_SET_PAGE_TRANSLATION_CACHE';
 export const SCTS_GET_SPECIFY_SELECTORS = 'SCTS_GET_SPECIFY_SELECTORS';
 export const SCTS_GET_ALL_COLLECTED_TEXT = 'SCTS_GET_ALL_COLLECTED_TEXT';
-export const SCTS_CUSTOM_API_PROXY = 'SCTS_CUSTOM_API_PROXY';
+export const SCTS_TRANSLATE_STREAM = 'SCTS_TRANSLATE_STREAM';
+export const SCTS_WEBPAGE_TRANSLATE = 'SCTS_WEBPAGE_TRANSLATE';
+export const SCTS_GET_GLOSSARY = 'SCTS_GET_GLOSSARY';
+export const SCTS_ADD_TO_HISTORY = 'SCTS_ADD_TO_HISTORY';
+export const SCTS_REPORT_SOURCE_HEALTH = 'SCTS_REPORT_SOURCE_HEALTH';
+export const SCTS_GET_SOURCE_HEALTH = 'SCTS_GET_SOURCE_HEALTH';
+export const SCTS_OPEN_CREDENTIAL_VAULT = 'SCTS_OPEN_CREDENTIAL_VAULT';
+export const SCTS_FRAME_WEBPAGE_TRANSLATE = 'SCTS_FRAME_WEBPAGE_TRANSLATE';
+export const SCTS_GET_FRAME_TRANSLATION_STATE = 'SCTS_GET_FRAME_TRANSLATION_STATE';
+export const SCTS_FRAME_COMMAND = 'SCTS_FRAME_COMMAND';
\ No newline at end of file
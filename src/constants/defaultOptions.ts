@@ -13,10 +13,13 @@ const defaultOptions: DefaultOptions = {
     translateHostList: [],
     historyBlackListMode: false,
     historyHostList: [],
+    historyMaxEntries: 5000,
+    historyMaxDays: 0,
     defaultAudioSource: GOOGLE_COM,
     translateWithKeyPress: false,
     useDotCn: false,
     multipleTranslateSourceList: [GOOGLE_COM, BING_COM],
+    translateFallbackSourceList: [],
     multipleTranslateFrom: '',
     multipleTranslateTo: '',
     enablePdfViewer: false,
@@ -55,6 +58,9 @@ const defaultOptions: DefaultOptions = {
     customizeStyleText: '',
     translateButtons: defaultTranslateButtons,
     webPageTranslateSource: GOOGLE_COM,
+    webPageTranslateFallbackSourceList: [],
+    webPageTranslateRateLimits: {},
+    credentialVault: { salt: '', check: { iv: '', data: '' }, secrets: {}, plainSecrets: {} },
     webPageTranslateTo: LANG_EN,
     webPageTranslateDisplayMode: 1,
     webPageTranslateDirectly: true,
@@ -71,7 +77,8 @@ const defaultOptions: DefaultOptions = {
         example: true,
         phonetic_nonEnglish: false,
         maintainParagraphStructure: true,
-        sourceLanguage: true
+        sourceLanguage: true,
+        bilingualSentences: false
     },
     displayModeEnhancement: {
         o_Hovering: true,
@@ -91,10 +98,21 @@ const defaultOptions: DefaultOptions = {
     translateIframeContent: false,
     translateRedirectedSameDomainPage: false,
     enablePageTranslationCache: false,
+    pageTranslationCacheMaxEntries: 100000,
+    // In MB.
+    pageTranslationCacheMaxSize: 100,
     autoPlayAudio: false,
     autoPlayAudioLangs: [],
     highlightCollectedText: false,
-    enabledThirdPartyServices: []
+    enabledThirdPartyServices: [],
+    llmModelPrices: [],
+    llmMonthlyBudget: 0,
+    llmBudgetAction: 'warn',
+    typingTranslate: false,
+    typingTranslateTrigger: '   ',
+    typingTranslateSource: GOOGLE_COM,
+    typingTranslateTo: LANG_EN,
+    typingTranslateHostLanguages: {}
 };
 
 export default defaultOptions;
\ No newline at end of file
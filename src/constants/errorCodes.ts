@@ -1,2 +1,4 @@
 export const SOURCE_ERROR = 'SOURCE_ERROR';
-export const EXTENSION_UPDATED = 'EXTENSION_UPDATED';
\ No newline at end of file
+export const EXTENSION_UPDATED = 'EXTENSION_UPDATED';
+export const CREDENTIALS_LOCKED = 'CREDENTIALS_LOCKED';
+export const LLM_BUDGET_EXCEEDED = 'LLM_BUDGET_EXCEEDED';
\ No newline at end of file
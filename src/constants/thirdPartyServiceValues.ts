@@ -1,37 +1,98 @@
 import {
-    TPSChatGPTValue,
-    TPSGeminiValue,
-    TPSOpenAIValue
+    DeprecatedThirdPartyServiceValue,
+    EnabledThirdPartyServices,
+    ThirdPartyServiceType,
+    ThirdPartyServiceValue
 } from '../types/thirdPartyValue';
+import { TranslateSource } from './translateSource';
 
-export const defaultGeminiValue: Required<TPSGeminiValue> = {
-    name: 'Gemini',
+// Fields a type has no "model" or "prompt" for are not shown in its options.
+type ServiceDefaultValue = Required<Pick<ThirdPartyServiceValue, 'type' | 'url'>> & Pick<ThirdPartyServiceValue, 'model' | 'prompt'>;
+
+type LLMServiceDefaultValue = Required<Pick<ThirdPartyServiceValue, 'type' | 'url' | 'model' | 'prompt'>>;
+
+export const defaultGeminiValue: LLMServiceDefaultValue = {
+    type: 'Gemini',
     url: 'https://generativelanguage.googleapis.com/v1beta/models/{model}:generateContent',
     model: 'gemini-2.0-flash',
-    prompt: '',
-    key: ''
+    prompt: 'Translate the following text into {target}: "{text}"\n\n{glossary}'
 };
 
-export const defaultChatGPTValue: Required<TPSChatGPTValue> = {
-    name: 'ChatGPT',
+export const defaultChatGPTValue: LLMServiceDefaultValue = {
+    type: 'ChatGPT',
     url: 'https://api.openai.com/v1/chat/completions',
     model: 'gpt-5',
-    prompt: '',
-    key: ''
+    prompt: ''
 };
 
-export const defaultOpenAIValue: Required<TPSOpenAIValue> = {
-    name: 'OpenAI',
+export const defaultOpenAIValue: LLMServiceDefaultValue = {
+    type: 'OpenAI',
     url: 'https://api.openai.com/v1/chat/completions',
     model: 'gpt-5',
-    prompt: '',
-    key: ''
+    prompt: ''
+};
+
+export const defaultOllamaValue: LLMServiceDefaultValue = {
+    type: 'Ollama',
+    url: 'http://localhost:11434/api/chat',
+    model: 'llama3.2',
+    prompt: ''
+};
+
+// llama.cpp serves the one model it was started with, "model" is only needed by routers in front of it.
+export const defaultLlamaCppValue: LLMServiceDefaultValue = {
+    type: 'LlamaCpp',
+    url: 'http://localhost:8080/v1/chat/completions',
+    model: '',
+    prompt: ''
+};
+
+export const defaultLibreTranslateValue: ServiceDefaultValue = {
+    type: 'LibreTranslate',
+    url: 'http://localhost:5000/translate'
 };
 
-export const serviceDefaultValueMap = new Map<string, any>([
-    [defaultGeminiValue.name, defaultGeminiValue],
-    [defaultChatGPTValue.name, defaultChatGPTValue],
-    [defaultOpenAIValue.name, defaultOpenAIValue]
+export const serviceDefaultValueMap = new Map<string, ServiceDefaultValue>([
+    [defaultGeminiValue.type, defaultGeminiValue],
+    [defaultChatGPTValue.type, defaultChatGPTValue],
+    [defaultOpenAIValue.type, defaultOpenAIValue],
+    [defaultOllamaValue.type, defaultOllamaValue],
+    [defaultLlamaCppValue.type, defaultLlamaCppValue],
+    [defaultLibreTranslateValue.type, defaultLibreTranslateValue]
 ]);
 
-export const thirdPartyServiceNames = ['Gemini', 'ChatGPT', 'OpenAI'] as const;
\ No newline at end of file
+export const thirdPartyServiceTypes: readonly ThirdPartyServiceType[] = ['Gemini', 'ChatGPT', 'OpenAI', 'Ollama', 'LlamaCpp', 'LibreTranslate'];
+
+// Services that translate web pages too.
+export const webpageTranslateServiceTypes: readonly ThirdPartyServiceType[] = ['ChatGPT', 'OpenAI', 'Ollama', 'LlamaCpp', 'LibreTranslate'];
+
+// Self-hosted servers, keys are optional and they cost nothing against the LLM budget.
+export const localServiceTypes: readonly ThirdPartyServiceType[] = ['Ollama', 'LlamaCpp', 'LibreTranslate'];
+
+export const thirdPartyServiceTypeNames: { [K in ThirdPartyServiceType]: string; } = {
+    Gemini: 'Gemini',
+    ChatGPT: 'ChatGPT',
+    OpenAI: 'OpenAI',
+    Ollama: 'Ollama',
+    LlamaCpp: 'llama.cpp',
+    LibreTranslate: 'LibreTranslate'
+};
+
+export const getThirdPartyService = (source: string, services: EnabledThirdPartyServices) => {
+    return services.find(v => v.source === source);
+};
+
+export const isWebpageTranslateService = (source: string, services: EnabledThirdPartyServices) => {
+    const service = getThirdPartyService(source, services);
+
+    return !!service && webpageTranslateServiceTypes.includes(service.type);
+};
+
+export const getWebpageTranslateServiceSources = (services: EnabledThirdPartyServices): TranslateSource[] => {
+    return services.filter(v => webpageTranslateServiceTypes.includes(v.type)).map(v => ({ source: v.source, url: '' }));
+};
+
+// Old services are named after their types, the names are kept as sources so that options and records still refer to them.
+export const migrateThirdPartyServices = (services: (ThirdPartyServiceValue | DeprecatedThirdPartyServiceValue)[]): EnabledThirdPartyServices => {
+    return services.map(value => ('type' in value ? value : { ...value, source: value.name, type: value.name }));
+};
\ No newline at end of file
@@ -1,6 +1,7 @@
 import './context-menus';
 import './install';
 import './on-message';
+import './on-connect';
 import './tabs';
 import './commands';
 import './web-request';
@@ -8,6 +8,9 @@ import { initContextMenus } from './context-menus';
 import { initSourceParams } from '../../constants/sourceParams';
 import { BING_COM, MICROSOFT_COM } from '../../constants/translateSource';
 import scOptions from '../../public/sc-options';
+import { migrateThirdPartyServices } from '../../constants/thirdPartyServiceValues';
+import { migrateCustomTranslateSources } from '../../public/translate/custom/definition';
+import { migrateServiceKeys } from '../../public/credential-vault';
 
 const initStorageOnInstalled = (userLang: string, update: boolean) => {
 
@@ -79,8 +82,30 @@ const initStorageOnInstalled = (userLang: string, update: boolean) => {
             data.defaultAudioSource = defaultSet.defaultAudioSource;
         }
 
+        // In 5.10.0, keys are kept in the credential vault, services and custom sources refer to them by ids
+        const credentialVault = data.credentialVault ?? structuredClone(defaultSet.credentialVault);
+        const plainSecretCount = Object.keys(credentialVault.plainSecrets).length;
+
+        // In 5.10.0, services become instances that can be added any number of times
+        if (update && data.enabledThirdPartyServices) {
+            data.enabledThirdPartyServices = migrateServiceKeys(migrateThirdPartyServices(data.enabledThirdPartyServices), credentialVault);
+        }
+
+        // In 5.10.0, custom sources are described by definitions instead of a hard-wired API
+        if (update && data.customTranslateSourceList) {
+            data.customTranslateSourceList = migrateCustomTranslateSources(data.customTranslateSourceList, false, credentialVault);
+        }
+        if (update && data.customWebpageTranslateSourceList) {
+            data.customWebpageTranslateSourceList = migrateCustomTranslateSources(data.customWebpageTranslateSourceList, true, credentialVault);
+        }
+
+        data.credentialVault = credentialVault;
+
         chrome.storage.local.set({ ...defaultSet, ...data, sourceParamsCache: initSourceParams }, () => {
             initContextMenus();
+
+            // Migrated keys are unencrypted, the user is asked to set a passphrase for them.
+            Object.keys(credentialVault.plainSecrets).length > plainSecretCount && chrome.tabs.create({ url: chrome.runtime.getURL('/options.html#credentials') });
         });
     });
 };
@@ -0,0 +1,35 @@
+import * as types from '../../constants/chromeSendMessageTypes';
+import { translate } from '../../public/request';
+import scOptions from '../../public/sc-options';
+import { TranslateStreamPortMessage, TranslateStreamPortResponse } from '../../public/send';
+
+chrome.runtime.onConnect.addListener((port) => {
+    if (port.name !== types.SCTS_TRANSLATE_STREAM) { return; }
+
+    const controller = new AbortController();
+    let disconnected = false;
+
+    const postMessage = (message: TranslateStreamPortResponse) => {
+        !disconnected && port.postMessage(message);
+    };
+
+    port.onDisconnect.addListener(() => {
+        disconnected = true;
+        controller.abort();
+    });
+
+    port.onMessage.addListener((message: TranslateStreamPortMessage) => {
+        if (message.type !== types.SCTS_TRANSLATE) { return; }
+
+        scOptions.get(['useDotCn', 'preferredLanguage', 'secondPreferredLanguage', 'translateFallbackSourceList'])
+            .then(({ useDotCn, translateFallbackSourceList, ...preferred }) => translate({ ...message.payload, com: !useDotCn, ...preferred, fallbackSources: translateFallbackSourceList }, {
+                signal: controller.signal,
+                onProgress: translation => postMessage({ type: 'progress', translation })
+            }))
+            .then((response) => {
+                postMessage({ type: 'finish', response });
+
+                !disconnected && port.disconnect();
+            });
+    });
+});
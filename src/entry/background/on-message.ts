@@ -1,7 +1,7 @@
 // 文件路径: /src/entry/background/on-message.ts
 
 import * as types from '../../constants/chromeSendMessageTypes';
-import { translate, audio, detect } from '../../public/request';
+import { translate, audio, detect, webpageTranslate } from '../../public/request';
 import { createSeparateWindow } from './separate-window';
 import { syncSettingsToOtherBrowsers } from './sync';
 import scIndexedDB, { DB_STORE_COLLECTION } from '../../public/sc-indexed-db';
@@ -13,28 +13,30 @@ import {
     GetCacheResponse,
     GetSelectorsResponse,
     IsCollectResponse,
-    TranslateResponse
+    AddToCollectionResponse,
+    TranslateResponse,
+    WebpageTranslateResponse,
+    GetGlossaryResponse,
+    GetSourceHealthResponse,
+    GetFrameTranslationStateResponse,
+    chromeTabsSendMessage
 } from '../../public/send';
 import { addCache, getCache } from './page-translation-cache';
 import { getSpecifySelectors } from './page-translation-rule';
 import scOptions from '../../public/sc-options';
-
-type ProxyResponse = { 
-    status: number, 
-    ok: boolean, 
-    data: any, 
-    error: string | null 
-};
+import { getGlossaryEntries } from '../../public/glossary';
+import { addHistory } from './translation-history';
+import { getSourceHealth, recordSourceFailure, recordSourceSuccess } from '../../public/source-health';
 
 type TypedSendResponse = (
-    response: TranslateResponse | AudioResponse | DetectResponse | IsCollectResponse | GetCacheResponse | GetSelectorsResponse | GetAllCollectedTextResponse | ProxyResponse
+    response: TranslateResponse | AudioResponse | DetectResponse | IsCollectResponse | GetCacheResponse | GetSelectorsResponse | GetAllCollectedTextResponse | WebpageTranslateResponse | GetGlossaryResponse | GetSourceHealthResponse | GetFrameTranslationStateResponse | AddToCollectionResponse
 ) => void;
 
 chrome.runtime.onMessage.addListener((message: ChromeRuntimeMessage, sender, sendResponse: TypedSendResponse) => {
     switch (message.type) {
         case types.SCTS_TRANSLATE: {
-            scOptions.get(['useDotCn', 'preferredLanguage', 'secondPreferredLanguage'])
-                .then(({ useDotCn, ...preferred }) => (translate({ ...message.payload, com: !useDotCn, ...preferred })))
+            scOptions.get(['useDotCn', 'preferredLanguage', 'secondPreferredLanguage', 'translateFallbackSourceList'])
+                .then(({ useDotCn, translateFallbackSourceList, ...preferred }) => (translate({ ...message.payload, com: !useDotCn, ...preferred, fallbackSources: translateFallbackSourceList })))
                 .then(sendResponse);
 
             return true;
@@ -53,48 +55,6 @@ chrome.runtime.onMessage.addListener((message: ChromeRuntimeMessage, sender, sen
 
             return true;
         }
-        
-        // 🚨 新增：自定义 API 代理请求处理
-        case types.SCTS_CUSTOM_API_PROXY: {
-            const { url, options } = message.payload;
-
-            // 关键：在后台 Service Worker 中执行 fetch，绕过前端 CORS 限制
-            fetch(url, options)
-                .then(async response => {
-                    const status = response.status;
-                    const ok = response.ok;
-                    
-                    let data = null;
-                    try {
-                        // 尝试解析 JSON
-                        data = await response.json();
-                    } catch (e) {
-                        // 如果解析失败，则忽略
-                    }
-
-                    // 将状态和解析后的数据发送回前端
-                    sendResponse({
-                        status: status,
-                        ok: ok,
-                        data: data,
-                        error: null
-                    } as ProxyResponse);
-                })
-                .catch(error => {
-                    // 捕获网络错误
-                    console.error("Background Proxy Fetch Error:", error);
-                    sendResponse({
-                        status: 0,
-                        ok: false,
-                        data: null,
-                        error: error.message
-                    } as ProxyResponse);
-                });
-
-            // 必须返回 true，通知 Chrome 这是一个异步响应，解决 'port closed' 错误。
-            return true;
-        }
-
         case types.SCTS_SEND_TEXT_TO_SEPARATE_WINDOW: {
             const { text } = message.payload;
 
@@ -128,20 +88,27 @@ chrome.runtime.onMessage.addListener((message: ChromeRuntimeMessage, sender, sen
 
             text = text.trimStart().trimEnd();
 
-            text && scIndexedDB.get(DB_STORE_COLLECTION, text).then((value) => {
+            if (!text) {
+                sendResponse({ code: 'EMPTY_TEXT' });
+
+                return false;
+            }
+
+            // Answered once the collection is written, the history page deletes what it moved only then.
+            scIndexedDB.get(DB_STORE_COLLECTION, text).then((value) => {
                 if (value) {
                     const translationMap = new Map([...value.translations, ...translations].map((v) => ([v.source, v.translateRequest])));
 
                     const nextTranslations: typeof value.translations = [...translationMap.entries()].map(([k, v]) => ({ source: k, translateRequest: v }));
 
-                    scIndexedDB.add(DB_STORE_COLLECTION, { ...value, date: Number(new Date()), translations: nextTranslations });
+                    return scIndexedDB.addAll(DB_STORE_COLLECTION, [{ ...value, date: Number(new Date()), translations: nextTranslations }]);
                 }
                 else {
-                    scIndexedDB.add(DB_STORE_COLLECTION, { text, date: Number(new Date()), translations });
+                    return scIndexedDB.addAll(DB_STORE_COLLECTION, [{ text, date: Number(new Date()), translations }]);
                 }
-            });
+            }).then(() => sendResponse({ text: message.payload.text }), () => sendResponse({ code: '' }));
 
-            return false;
+            return true;
         }
         case types.SCTS_REMOVE_FROM_COLLECTION: {
             let { text } = message.payload;
@@ -162,7 +129,7 @@ chrome.runtime.onMessage.addListener((message: ChromeRuntimeMessage, sender, sen
         case types.SCTS_SET_PAGE_TRANSLATION_CACHE: {
             const { cache, source, from, to } = message.payload;
 
-            addCache(cache, source, from, to);
+            addCache(cache, source, from, to, sender.tab?.url ?? sender.url ?? '');
             
             return false;
         }
@@ -179,6 +146,56 @@ chrome.runtime.onMessage.addListener((message: ChromeRuntimeMessage, sender, sen
 
             return true;
         }
+        case types.SCTS_WEBPAGE_TRANSLATE: {
+            webpageTranslate(message.payload).then(sendResponse);
+
+            return true;
+        }
+        case types.SCTS_GET_GLOSSARY: {
+            const { from, to } = message.payload;
+
+            getGlossaryEntries(from, to).then(sendResponse).catch(() => sendResponse([]));
+
+            return true;
+        }
+        case types.SCTS_ADD_TO_HISTORY: {
+            const { id, text, host, source, result } = message.payload;
+
+            addHistory(id, text, host, source, result);
+
+            return false;
+        }
+        case types.SCTS_REPORT_SOURCE_HEALTH: {
+            const { source, errorCode } = message.payload;
+
+            errorCode ? recordSourceFailure(source, errorCode) : recordSourceSuccess(source);
+
+            return false;
+        }
+        case types.SCTS_GET_SOURCE_HEALTH: {
+            getSourceHealth().then(sendResponse);
+
+            return true;
+        }
+        case types.SCTS_OPEN_CREDENTIAL_VAULT: {
+            chrome.tabs.create({ url: chrome.runtime.getURL('/options.html#credentials') });
+
+            return false;
+        }
+        case types.SCTS_FRAME_WEBPAGE_TRANSLATE:
+        case types.SCTS_GET_FRAME_TRANSLATION_STATE: {
+            if (sender.tab?.id === undefined) { return false; }
+
+            // Child frames are answered by the top frame of their tab.
+            chromeTabsSendMessage<WebpageTranslateResponse | GetFrameTranslationStateResponse>(sender.tab.id, message, { frameId: 0 }).then(sendResponse);
+
+            return true;
+        }
+        case types.SCTS_FRAME_COMMAND: {
+            sender.tab?.id !== undefined && chromeTabsSendMessage(sender.tab.id, message);
+
+            return false;
+        }
         default: return;
     }
 });
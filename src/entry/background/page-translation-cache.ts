@@ -1,22 +1,63 @@
-import scIndexedDB, { DB_STORE_PAGE_TRANSLATION_CACHE } from '../../public/sc-indexed-db';
+import scIndexedDB, { DB_STORE_PAGE_TRANSLATION_CACHE, StorePageTranslationCacheValue } from '../../public/sc-indexed-db';
 import type { WebpageTranslateResult } from '../../public/web-page-translate';
+import { applyPageTranslationCacheQuota, getCacheQuery, getCacheQuerySuffix, recordPageTranslationCacheLookups, withCacheEntrySize } from '../../public/page-translation-cache';
+import scOptions from '../../public/sc-options';
 
-const getQuerySuffix = (source: string, from: string, to: string) => (`&source=${source}&from=${from}&to=${to}`);
-const getQuery = (key: string, suffix: string) => (`key=${key}${suffix}`);
+const QUOTA_DELAY = 10000;
 
-export const addCache = (cache: { key: string; translation: WebpageTranslateResult; }[], source: string, from: string, to: string) => {
-    const querySuffix = getQuerySuffix(source, from, to);
+let quotaTimeout: ReturnType<typeof setTimeout> | null = null;
 
-    scIndexedDB.addAll(DB_STORE_PAGE_TRANSLATION_CACHE, cache.map((value) => ({ ...value, date: Number(new Date()), query: getQuery(value.key, querySuffix) })));
+// The quota walks the size index, it's applied once a page has stopped adding for a while.
+const scheduleQuota = () => {
+    quotaTimeout && clearTimeout(quotaTimeout);
+
+    quotaTimeout = setTimeout(() => {
+        quotaTimeout = null;
+        applyPageTranslationCacheQuota().catch(() => {});
+    }, QUOTA_DELAY);
+};
+
+const getHost = (url: string) => {
+    try {
+        return new URL(url).host;
+    }
+    catch {
+        return '';
+    }
+};
+
+export const addCache = (cache: { key: string; translation: WebpageTranslateResult; }[], source: string, from: string, to: string, url: string) => {
+    const querySuffix = getCacheQuerySuffix(source, from, to);
+    const host = getHost(url);
+
+    scIndexedDB.addAll(DB_STORE_PAGE_TRANSLATION_CACHE, cache.map(value => withCacheEntrySize({ ...value, date: Number(new Date()), query: getCacheQuery(value.key, querySuffix), host, source, from, to })))
+        .then(scheduleQuota)
+        .catch(() => {});
 };
 
 export const getCache = async (keys: string[], source: string, from: string, to: string): Promise<{ [K: string]: WebpageTranslateResult; }> => {
     const cache: { [K: string]: WebpageTranslateResult; } = {};
-    const querySuffix = getQuerySuffix(source, from, to);
+    const querySuffix = getCacheQuerySuffix(source, from, to);
 
-    const result = await scIndexedDB.getAllByQueries(DB_STORE_PAGE_TRANSLATION_CACHE, keys.map(key => getQuery(key, querySuffix)));
+    const result = await scIndexedDB.getAllByQueries(DB_STORE_PAGE_TRANSLATION_CACHE, keys.map(key => getCacheQuery(key, querySuffix)));
 
-    result.forEach((v, i) => (v?.key === keys[i] && (cache[keys[i]] = v.translation)));
+    const hits: StorePageTranslationCacheValue[] = [];
+
+    result.forEach((v, i) => {
+        if (v?.key !== keys[i]) { return; }
+
+        cache[keys[i]] = v.translation;
+        hits.push(v);
+    });
+
+    // Hits are used again, they are the last to be evicted.
+    hits.length > 0 && scIndexedDB.addAll(DB_STORE_PAGE_TRANSLATION_CACHE, hits.map(v => ({ ...v, date: Number(new Date()) }))).catch(() => {});
+
+    recordPageTranslationCacheLookups(hits.length, keys.length - hits.length);
 
     return cache;
-};
\ No newline at end of file
+};
+
+scOptions.listen(['pageTranslationCacheMaxEntries', 'pageTranslationCacheMaxSize'], () => {
+    applyPageTranslationCacheQuota().catch(() => {});
+});
\ No newline at end of file
@@ -1,4 +1,4 @@
-import scIndexedDB from '../../public/sc-indexed-db';
+import scIndexedDB, { PageTranslationProfile } from '../../public/sc-indexed-db';
 import { matchPattern } from '../../public/utils';
 
 export const getSpecifySelectors = async (hostAndPathname: string) => {
@@ -6,10 +6,15 @@ export const getSpecifySelectors = async (hostAndPathname: string) => {
 
     let includeSelectors = '';
     let excludeSelectors = '';
+    let profile: PageTranslationProfile = {};
+
+    specifications.forEach(({ patterns, include, exclude, profile: ruleProfile }) => {
+        let matched = false;
 
-    specifications.forEach(({ patterns, include, exclude }) => {
         patterns.split(',').map(v => v.trimStart().trimEnd()).forEach((pattern) => {
             if (matchPattern(pattern, hostAndPathname)) {
+                matched = true;
+
                 if (include) {
                     includeSelectors += (includeSelectors && ',') + include;
                 }
@@ -19,10 +24,16 @@ export const getSpecifySelectors = async (hostAndPathname: string) => {
                 }
             }
         });
+
+        // Rules added later take precedence over earlier ones.
+        if (matched && ruleProfile) {
+            profile = { ...profile, ...ruleProfile };
+        }
     });
 
     return {
         includeSelectors,
-        excludeSelectors
+        excludeSelectors,
+        profile
     };
 };
\ No newline at end of file
@@ -4,7 +4,8 @@ import { SyncOptions } from '../../types';
 let settingsSyncId = '';
 
 export const syncSettingsToOtherBrowsers = async () => {
-    const { sourceParamsCache, ...options } = await scOptions.get(null);
+    // Keys in the credential vault never leave the browser by sync.
+    const { sourceParamsCache, credentialVault, ...options } = await scOptions.get(null);
 
     const settings: SyncOptions = options;
     settingsSyncId = Math.random().toString().substring(2);
@@ -0,0 +1,41 @@
+import scIndexedDB, { DB_STORE_HISTORY } from '../../public/sc-indexed-db';
+import scOptions from '../../public/sc-options';
+import { TranslateResult } from '../../types';
+
+// Results of one translation arrive one by one, queue the updates so that none of them gets lost.
+let updateQueue = Promise.resolve();
+
+export const addHistory = (id: string, text: string, host: string, source: string, result: TranslateResult) => {
+    updateQueue = updateQueue.then(async () => {
+        const value = await scIndexedDB.get(DB_STORE_HISTORY, id);
+
+        if (value) {
+            const translations = value.translations.filter(translation => translation.source !== source);
+
+            await scIndexedDB.addAll(DB_STORE_HISTORY, [{ ...value, translations: translations.concat({ source, translateRequest: { status: 'finished', result } }) }]);
+        }
+        else {
+            await scIndexedDB.addAll(DB_STORE_HISTORY, [{ id, text, host, date: Number(new Date()), translations: [{ source, translateRequest: { status: 'finished', result } }] }]);
+
+            await applyRetention();
+        }
+    }).catch(() => {});
+};
+
+const applyRetention = async () => {
+    const { historyMaxEntries, historyMaxDays } = await scOptions.get(['historyMaxEntries', 'historyMaxDays']);
+
+    const expiredKeys = historyMaxDays > 0 ? await scIndexedDB.getAllKeysByIndex(DB_STORE_HISTORY, 'date', IDBKeyRange.upperBound(Date.now() - historyMaxDays * 86400000)) : [];
+
+    const keys = await scIndexedDB.getAllKeysByIndex(DB_STORE_HISTORY, 'date');
+
+    const overflowKeys = historyMaxEntries > 0 ? keys.slice(0, Math.max(keys.length - historyMaxEntries, 0)) : [];
+
+    const deleteKeys = [...new Set([...expiredKeys, ...overflowKeys])];
+
+    deleteKeys.length > 0 && await scIndexedDB.delete(DB_STORE_HISTORY, deleteKeys);
+};
+
+scOptions.listen(['historyMaxEntries', 'historyMaxDays'], () => {
+    updateQueue = updateQueue.then(applyRetention).catch(() => {});
+});
\ No newline at end of file
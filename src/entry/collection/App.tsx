@@ -14,6 +14,10 @@ import scFile from '../../public/sc-file';
 import { checkResultFromCustomSource } from '../../public/translate/custom/check-result';
 import CollectionValueCard from './components/CollectionValueCard';
 import TranslationsContainer from './components/TranslationsContainer';
+import Review from './components/Review';
+import { isDue, isReview } from './sm2';
+import ExportCollection from './components/ExportCollection';
+import ImportCollection from './components/ImportCollection';
 
 const Collection: React.FC = () => {
     const [collectionValues, setCollectionValues] = useState<StoreCollectionValue[]>([]);
@@ -24,6 +28,9 @@ const Collection: React.FC = () => {
     const [orderIndicate, setOrderIndicate] = useState(0); // 0: order by date reverse, 1: order by date, 2: order by text reverse, 3: order by text
     const [deleteList, setDeleteList] = useState<null | string[]>(null);
     const [checkedTagSet, setCheckedTagSet] = useState<Set<string>>(new Set());
+    const [reviewing, setReviewing] = useState(false);
+    const [exporting, setExporting] = useState(false);
+    const [importingFile, setImportingFile] = useState<File | null>(null);
 
     const lastTagSetRef = useRef<Set<string>>(new Set());
 
@@ -39,6 +46,12 @@ const Collection: React.FC = () => {
         return nextTags;
     }, [collectionValues]);
 
+    const dueCount = useMemo(() => {
+        const now = Date.now();
+
+        return collectionValues.filter(value => isDue(value, now)).length;
+    }, [collectionValues]);
+
     const checkedLength = useMemo(() => checked.reduce((total, current) => (total + Number(current)), 0), [checked]);
 
     const refreshCollectionValues = useCallback(() => {
@@ -217,6 +230,16 @@ const Collection: React.FC = () => {
                             </>}
                         </div>
                         <div className='toolbar-wrapper__right'>
+                            <Button
+                                variant='text'
+                                onClick={() => setReviewing(true)}
+                            >
+                                <IconFont
+                                    iconName='#icon-MdHistory'
+                                    style={{fontSize: '24px', marginRight: '5px'}}
+                                />
+                                {`${getMessage('collectionReview')} (${dueCount})`}
+                            </Button>
                             <ManageTags
                                 onTagDeleted={(tagName) => {
                                     lastTagSetRef.current.delete(tagName);
@@ -226,11 +249,7 @@ const Collection: React.FC = () => {
                             />
                             <Button
                                 variant='text'
-                                onClick={async () => {
-                                    const data = await scIndexedDB.getAll(DB_STORE_COLLECTION);
-
-                                    scFile.saveAs(data, 'collection');
-                                }}
+                                onClick={() => setExporting(true)}
                             >
                                 <IconFont
                                     iconName='#icon-export'
@@ -242,6 +261,12 @@ const Collection: React.FC = () => {
                                 variant='text'
                                 onClick={async () => {
                                     scFile.open(async (file) => {
+                                        if (/\.(csv|tsv|txt)$/i.test(file.name)) {
+                                            setImportingFile(file);
+
+                                            return;
+                                        }
+
                                         try {
                                             let values = await scFile.read(file);
 
@@ -256,6 +281,7 @@ const Collection: React.FC = () => {
                                                 if (typeof item.date !== 'number' || typeof item.text !== 'string' || !item.text) { return false; }
                                                 if (!Array.isArray(item.translations)) { return false; }
                                                 if (Object.hasOwn(item, 'note') && typeof item.note !== 'string') { return false; }
+                                                if (Object.hasOwn(item, 'review') && !isReview(item.review)) { return false; }
                                                 if (Object.hasOwn(item, 'tags')) {
                                                     if (!Array.isArray(item.tags) || (item.tags as any[]).findIndex(v => typeof v !== 'string') !== -1) { return false; }
                                                 }
@@ -282,7 +308,7 @@ const Collection: React.FC = () => {
                                         finally {
                                             refreshCollectionValues();
                                         }
-                                    });
+                                    }, '.sctranslator,.csv,.tsv,.txt');
                                 }}
                             >
                                 <IconFont
@@ -320,6 +346,27 @@ const Collection: React.FC = () => {
                         {currentValue && <TranslationsContainer collectionValue={currentValue} updateCurrentValue={updateCurrentValue} />}
                     </div>
                 </div>
+                {exporting && <ExportCollection
+                    collectionValues={collectionValues}
+                    selectedValues={filteredValues.filter((value, index) => checked[index])}
+                    onClose={() => setExporting(false)}
+                />}
+                {importingFile && <ImportCollection
+                    file={importingFile}
+                    collectionValues={collectionValues}
+                    onClose={() => setImportingFile(null)}
+                    onImported={() => {
+                        setImportingFile(null);
+                        refreshCollectionValues();
+                    }}
+                />}
+                {reviewing && <Review
+                    collectionValues={collectionValues}
+                    onClose={() => {
+                        setReviewing(false);
+                        currentValue?.text ? updateCurrentValue() : refreshCollectionValues();
+                    }}
+                />}
             </div>
         </TagSetContext.Provider>
     );
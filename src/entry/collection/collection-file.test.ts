@@ -0,0 +1,25 @@
+import { describe, expect, test } from '@jest/globals';
+import { guessColumnMapping, parseDelimited, rowsToCollectionValues, toCsv } from './collection-file';
+import { StoreCollectionValue } from '../../public/sc-indexed-db';
+
+const value: StoreCollectionValue = {
+    text: '=HYPERLINK("https://example.com", "click")',
+    date: 0,
+    translations: [{ source: 'google.com', translateRequest: { status: 'finished', result: { text: '', from: 'en', to: 'zh-CN', result: ['-1 + 1'] } } }],
+    note: '@note'
+};
+
+describe('collection file', () => {
+    test('writes CSV cells that start like a formula as text and reads them back', () => {
+        const csv = toCsv([value]);
+        const [header, row] = parseDelimited(csv, ',');
+
+        expect(row.slice(0, 2)).toEqual([`'${value.text}`, "'-1 + 1"]);
+        expect(row[header.indexOf('note')]).toBe("'@note");
+
+        const [imported] = rowsToCollectionValues([row], guessColumnMapping(header), 'google.com');
+
+        expect(imported).toMatchObject({ text: value.text, note: '@note' });
+        expect(imported.translations[0].translateRequest).toMatchObject({ result: { result: ['-1 + 1'] } });
+    });
+});
\ No newline at end of file
@@ -0,0 +1,217 @@
+import { StoreCollectionValue } from '../../public/sc-indexed-db';
+import { resultToString } from '../../public/utils';
+import { TranslateResult } from '../../types';
+
+export type CollectionField = 'text' | 'translation' | 'phonetic' | 'dict' | 'example' | 'related' | 'note' | 'tags' | 'source';
+
+export const collectionFields: CollectionField[] = ['text', 'translation', 'phonetic', 'dict', 'example', 'related', 'note', 'tags', 'source'];
+
+const getFirstResult = (value: StoreCollectionValue): [string, TranslateResult] | undefined => {
+    for (const { source, translateRequest } of value.translations) {
+        if (translateRequest.status === 'finished') { return [source, translateRequest.result]; }
+    }
+};
+
+// Multiple lines of a field are joined by the caller, which knows how its format breaks lines.
+export const getFieldLines = (value: StoreCollectionValue, field: CollectionField): string[] => {
+    const [source, result] = getFirstResult(value) ?? [];
+
+    switch (field) {
+        case 'text': return [value.text];
+        case 'translation': return result ? [resultToString(result.result)] : [];
+        case 'phonetic': return result?.phonetic ? [result.phonetic] : [];
+        case 'dict': return result?.dict ?? [];
+        case 'example': return result?.example ?? [];
+        case 'related': return result?.related ?? [];
+        case 'note': return value.note ? value.note.split('\n') : [];
+        case 'tags': return value.tags ?? [];
+        case 'source': return source ? [source] : [];
+        default: return [];
+    }
+};
+
+const escapeHTML = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+// Anki reads "#" headers since 2.1.54, fields are HTML so line breaks become "<br>".
+export const toAnkiTsv = (values: StoreCollectionValue[], frontFields: CollectionField[], backFields: CollectionField[]) => {
+    const toHTML = (value: StoreCollectionValue, fields: CollectionField[]) => (
+        fields.map(field => getFieldLines(value, field).map(line => escapeHTML(line.replace(/\t/g, ' '))).join('<br>')).filter(Boolean).join('<br><br>')
+    );
+
+    const lines = values.map(value => [
+        toHTML(value, frontFields),
+        toHTML(value, backFields),
+        (value.tags ?? []).map(tag => tag.replace(/\s+/g, '_')).join(' ')
+    ].join('\t'));
+
+    return ['#separator:tab', '#html:true', '#tags column:3', ...lines].join('\n');
+};
+
+// Spreadsheet apps take cells starting with these for formulas, a leading "'" keeps collected text as text.
+const formulaRegExp = /^[=+\-@\t\r]/;
+
+const toCsvCell = (cell: string) => {
+    const text = formulaRegExp.test(cell) ? `'${cell}` : cell;
+
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (values: StoreCollectionValue[]) => {
+    const header = [...collectionFields, 'date'];
+
+    const rows = values.map(value => [
+        ...collectionFields.map(field => getFieldLines(value, field).join(field === 'tags' ? ', ' : '\n')),
+        new Date(value.date).toISOString()
+    ]);
+
+    return [header, ...rows].map(row => row.map(toCsvCell).join(',')).join('\r\n');
+};
+
+export const toMarkdown = (values: StoreCollectionValue[]) => {
+    return values.map((value) => {
+        const lines = [`## ${value.text}`];
+
+        const [phonetic] = getFieldLines(value, 'phonetic');
+        phonetic && lines.push('', `*${phonetic}*`);
+
+        const translations = getFieldLines(value, 'translation').concat(getFieldLines(value, 'dict'));
+        translations.length > 0 && lines.push('', ...translations.map(line => `- ${line}`));
+
+        const examples = getFieldLines(value, 'example');
+        examples.length > 0 && lines.push('', ...examples.map(line => `> ${line}`));
+
+        const note = getFieldLines(value, 'note');
+        note.length > 0 && lines.push('', ...note);
+
+        value.tags?.length && lines.push('', value.tags.map(tag => `#${tag.replace(/\s+/g, '_')}`).join(' '));
+
+        return lines.join('\n');
+    }).join('\n\n');
+};
+
+// RFC 4180, quoted cells may contain delimiters and line breaks.
+export const parseDelimited = (text: string, delimiter: string) => {
+    const rows: string[][] = [];
+
+    let row: string[] = [];
+    let cell = '';
+    let quoted = false;
+
+    text = text.replace(/^\uFEFF/, '');
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+
+        if (quoted) {
+            if (char === '"' && text[i + 1] === '"') {
+                cell += '"';
+                i++;
+            }
+            else if (char === '"') {
+                quoted = false;
+            }
+            else {
+                cell += char;
+            }
+        }
+        else if (char === '"' && !cell) {
+            quoted = true;
+        }
+        else if (char === delimiter) {
+            row.push(cell);
+            cell = '';
+        }
+        else if (char === '\n' || char === '\r') {
+            char === '\r' && text[i + 1] === '\n' && i++;
+            row.push(cell);
+            rows.push(row);
+            row = [];
+            cell = '';
+        }
+        else {
+            cell += char;
+        }
+    }
+
+    (cell || row.length > 0) && rows.push(row.concat(cell));
+
+    // Comment lines such as Anki's "#separator:tab" headers are not data.
+    return rows.filter(row => row.some(Boolean) && !(row.length === 1 && row[0].startsWith('#')));
+};
+
+export type ColumnMapping = Partial<Record<CollectionField, number>>;
+
+export const guessColumnMapping = (header: string[]): ColumnMapping => {
+    const mapping: ColumnMapping = {};
+
+    header.forEach((name, index) => {
+        const field = collectionFields.find(field => field === name.trim().toLowerCase());
+
+        field && mapping[field] === undefined && (mapping[field] = index);
+    });
+
+    return mapping;
+};
+
+const splitCell = (cell: string | undefined, separator: RegExp) => (cell ? cell.split(separator).map(v => v.trim()).filter(Boolean) : []);
+
+export const rowsToCollectionValues = (rows: string[][], mapping: ColumnMapping, defaultSource: string): StoreCollectionValue[] => {
+    const date = Number(new Date());
+
+    // The "'" our CSV puts before formula characters is not part of the text.
+    const getCell = (row: string[], field: CollectionField) => (mapping[field] === undefined ? undefined : row[mapping[field]]?.trim().replace(/^'(?=[=+\-@])/, ''));
+
+    return rows.flatMap((row) => {
+        const text = getCell(row, 'text');
+
+        if (!text) { return []; }
+
+        const value: StoreCollectionValue = { text, date, translations: [] };
+
+        const translation = getCell(row, 'translation');
+        const dict = splitCell(getCell(row, 'dict'), /\n|<br\s*\/?>/);
+
+        if (translation || dict.length > 0) {
+            const result: TranslateResult = { text, from: '', to: '', result: translation ? [translation] : [] };
+
+            dict.length > 0 && (result.dict = dict);
+
+            const phonetic = getCell(row, 'phonetic');
+            phonetic && (result.phonetic = phonetic);
+
+            const example = splitCell(getCell(row, 'example'), /\n|<br\s*\/?>/);
+            example.length > 0 && (result.example = example);
+
+            const related = splitCell(getCell(row, 'related'), /\n|<br\s*\/?>|,/);
+            related.length > 0 && (result.related = related);
+
+            value.translations.push({ source: getCell(row, 'source') || defaultSource, translateRequest: { status: 'finished', result } });
+        }
+
+        const note = getCell(row, 'note');
+        note && (value.note = note);
+
+        // Comma separated like our CSV, or space separated like Anki.
+        const tagsCell = getCell(row, 'tags');
+        const tags = splitCell(tagsCell, tagsCell?.includes(',') ? /,/ : /\s+/);
+        tags.length > 0 && (value.tags = [...new Set(tags)]);
+
+        return value;
+    });
+};
+
+// Keep what is collected already, imported values only fill the gaps.
+export const mergeCollectionValue = (existing: StoreCollectionValue, imported: StoreCollectionValue): StoreCollectionValue => {
+    const sources = new Set(existing.translations.map(({ source }) => source));
+
+    const nextValue = {
+        ...existing,
+        translations: existing.translations.concat(imported.translations.filter(({ source }) => !sources.has(source)))
+    };
+
+    !nextValue.note && imported.note && (nextValue.note = imported.note);
+
+    (existing.tags || imported.tags) && (nextValue.tags = [...new Set([...existing.tags ?? [], ...imported.tags ?? []])]);
+
+    return nextValue;
+};
\ No newline at end of file
@@ -0,0 +1,148 @@
+import React, { useContext, useMemo, useState } from 'react';
+import { StoreCollectionValue } from '../../../../public/sc-indexed-db';
+import Backdrop from '../Backdrop';
+import Button from '../../../../components/Button';
+import IconFont from '../../../../components/IconFont';
+import Radio from '../../../../components/Radio';
+import Checkbox from '../../../../components/Checkbox';
+import { getMessage } from '../../../../public/i18n';
+import { cn } from '../../../../public/utils';
+import scFile from '../../../../public/sc-file';
+import TagSetContext from '../../TagSetContext';
+import { CollectionField, collectionFields, toAnkiTsv, toCsv, toMarkdown } from '../../collection-file';
+import { fieldMessages } from '../../fieldMessages';
+import './style.css';
+
+type ExportFormat = 'anki' | 'csv' | 'markdown' | 'json';
+
+const formats: { format: ExportFormat; label: string; }[] = [
+    { format: 'anki', label: 'Anki (TSV)' },
+    { format: 'csv', label: 'CSV' },
+    { format: 'markdown', label: 'Markdown' },
+    { format: 'json', label: 'Sc Translator (JSON)' }
+];
+
+type ExportCollectionProps = {
+    collectionValues: StoreCollectionValue[];
+    selectedValues: StoreCollectionValue[];
+    onClose: () => void;
+};
+
+const ExportCollection: React.FC<ExportCollectionProps> = ({ collectionValues, selectedValues, onClose }) => {
+    const [format, setFormat] = useState<ExportFormat>('anki');
+    const [frontFields, setFrontFields] = useState<CollectionField[]>(['text', 'phonetic']);
+    const [backFields, setBackFields] = useState<CollectionField[]>(['translation', 'dict', 'example']);
+    const [selectedOnly, setSelectedOnly] = useState(selectedValues.length > 0);
+    const [checkedTagSet, setCheckedTagSet] = useState<Set<string>>(new Set());
+
+    const tagSet = useContext(TagSetContext);
+
+    const exportValues = useMemo(() => {
+        const checkedTags = [...checkedTagSet];
+
+        return (selectedOnly ? selectedValues : collectionValues).filter(value => checkedTags.every(tagName => value.tags?.includes(tagName)));
+    }, [collectionValues, selectedValues, selectedOnly, checkedTagSet]);
+
+    const toggleField = (fields: CollectionField[], field: CollectionField, checked: boolean) => {
+        // Keep the order of "collectionFields" whatever the order of clicking is.
+        return collectionFields.filter(v => (v === field ? checked : fields.includes(v)));
+    };
+
+    return (
+        <Backdrop>
+            <div className='export-collection'>
+                <div className='export-collection__head'>
+                    <span className='export-collection__head__title'>{getMessage('collectionExportCollection')}</span>
+                    <Button variant='icon' onClick={onClose}>
+                        <IconFont iconName='#icon-GoX' style={{fontSize: '20px'}} />
+                    </Button>
+                </div>
+                <div className='export-collection__content'>
+                    <div className='export-collection__row'>
+                        {formats.map(({ format: value, label }) => (<Radio
+                            key={value}
+                            name='export-collection-format'
+                            value={value}
+                            label={label}
+                            checked={format === value}
+                            onChange={() => setFormat(value)}
+                        />))}
+                    </div>
+                    {format === 'anki' && <>
+                        <div className='export-collection__title'>{getMessage('collectionAnkiFront')}</div>
+                        <div className='export-collection__row'>
+                            {collectionFields.map(field => (<Checkbox
+                                key={field}
+                                label={fieldMessages[field]}
+                                checked={frontFields.includes(field)}
+                                onChange={checked => setFrontFields(toggleField(frontFields, field, checked))}
+                            />))}
+                        </div>
+                        <div className='export-collection__title'>{getMessage('collectionAnkiBack')}</div>
+                        <div className='export-collection__row'>
+                            {collectionFields.map(field => (<Checkbox
+                                key={field}
+                                label={fieldMessages[field]}
+                                checked={backFields.includes(field)}
+                                onChange={checked => setBackFields(toggleField(backFields, field, checked))}
+                            />))}
+                        </div>
+                    </>}
+                    <div className='export-collection__title'>{getMessage('collectionTags')}</div>
+                    <div className='export-collection__row'>
+                        {[...tagSet].map(tagName => (<div
+                            key={tagName}
+                            className={cn('tags__item', 'button', checkedTagSet.has(tagName) && 'export-collection__tag--checked')}
+                            onClick={() => {
+                                const nextCheckedTagSet = new Set(checkedTagSet);
+
+                                nextCheckedTagSet.has(tagName) ? nextCheckedTagSet.delete(tagName) : nextCheckedTagSet.add(tagName);
+
+                                setCheckedTagSet(nextCheckedTagSet);
+                            }}
+                        >
+                            {tagName}
+                        </div>))}
+                    </div>
+                    <div className='export-collection__row'>
+                        <Checkbox
+                            label={`${getMessage('collectionSelectedOnly')} (${selectedValues.length})`}
+                            checked={selectedOnly}
+                            disabled={selectedValues.length === 0}
+                            onChange={setSelectedOnly}
+                        />
+                    </div>
+                </div>
+                <div className='export-collection__footer'>
+                    <Button
+                        variant='contained'
+                        disabled={exportValues.length === 0 || (format === 'anki' && (frontFields.length === 0 || backFields.length === 0))}
+                        onClick={() => {
+                            switch (format) {
+                                case 'anki':
+                                    scFile.saveText(toAnkiTsv(exportValues, frontFields, backFields), 'collection-anki', 'tsv', 'text/tab-separated-values');
+                                    break;
+                                case 'csv':
+                                    // BOM makes spreadsheet apps read it as UTF-8.
+                                    scFile.saveText('\uFEFF' + toCsv(exportValues), 'collection', 'csv', 'text/csv');
+                                    break;
+                                case 'markdown':
+                                    scFile.saveText(toMarkdown(exportValues), 'collection', 'md', 'text/markdown');
+                                    break;
+                                default:
+                                    scFile.saveAs(exportValues, 'collection');
+                                    break;
+                            }
+
+                            onClose();
+                        }}
+                    >
+                        {`${getMessage('wordExport')} (${exportValues.length})`}
+                    </Button>
+                </div>
+            </div>
+        </Backdrop>
+    );
+};
+
+export default ExportCollection;
\ No newline at end of file
@@ -0,0 +1,154 @@
+import React, { useMemo, useRef, useState } from 'react';
+import scIndexedDB, { DB_STORE_COLLECTION, StoreCollectionValue } from '../../../../public/sc-indexed-db';
+import Backdrop from '../Backdrop';
+import Button from '../../../../components/Button';
+import IconFont from '../../../../components/IconFont';
+import Checkbox from '../../../../components/Checkbox';
+import SelectOptions from '../../../../components/SelectOptions';
+import { getMessage } from '../../../../public/i18n';
+import { useEffectOnce, useMouseEventOutside } from '../../../../public/react-use';
+import scOptions from '../../../../public/sc-options';
+import { GOOGLE_COM } from '../../../../constants/translateSource';
+import { CollectionField, collectionFields, ColumnMapping, guessColumnMapping, mergeCollectionValue, parseDelimited, rowsToCollectionValues } from '../../collection-file';
+import { fieldMessages } from '../../fieldMessages';
+import './style.css';
+
+type ImportCollectionProps = {
+    file: File;
+    collectionValues: StoreCollectionValue[];
+    onClose: () => void;
+    onImported: () => void;
+};
+
+const ImportCollection: React.FC<ImportCollectionProps> = ({ file, collectionValues, onClose, onImported }) => {
+    const [rows, setRows] = useState<string[][]>([]);
+    const [hasHeader, setHasHeader] = useState(false);
+    const [mapping, setMapping] = useState<ColumnMapping>({ text: 0, translation: 1 });
+
+    useEffectOnce(() => {
+        file.text().then((text) => {
+            const firstLine = text.split('\n').find(line => line && !line.startsWith('#')) ?? '';
+            const nextRows = parseDelimited(text, firstLine.includes('\t') ? '\t' : ',');
+            const guessedMapping = guessColumnMapping(nextRows[0] ?? []);
+
+            setRows(nextRows);
+
+            if (guessedMapping.text !== undefined) {
+                setHasHeader(true);
+                setMapping(guessedMapping);
+            }
+        });
+    });
+
+    const columnCount = useMemo(() => rows.reduce((max, row) => Math.max(max, row.length), 0), [rows]);
+
+    const dataRows = hasHeader ? rows.slice(1) : rows;
+
+    const columnNames = useMemo(() => {
+        return new Array(columnCount).fill(0).map((v, i) => `${getMessage('collectionImportColumn')} ${i + 1}${hasHeader && rows[0]?.[i] ? ` (${rows[0][i]})` : ''}`);
+    }, [columnCount, hasHeader, rows]);
+
+    return (
+        <Backdrop>
+            <div className='import-collection'>
+                <div className='import-collection__head'>
+                    <span className='import-collection__head__title'>{`${getMessage('collectionImportCollection')} - ${file.name}`}</span>
+                    <Button variant='icon' onClick={onClose}>
+                        <IconFont iconName='#icon-GoX' style={{fontSize: '20px'}} />
+                    </Button>
+                </div>
+                <div className='import-collection__content'>
+                    <Checkbox
+                        label={getMessage('collectionImportFirstRowIsHeader')}
+                        checked={hasHeader}
+                        onChange={setHasHeader}
+                    />
+                    {collectionFields.map(field => (<div key={field} className='import-collection__mapping'>
+                        <span className='import-collection__mapping__field'>{fieldMessages[field]}{field === 'text' && ' *'}</span>
+                        <ColumnSelect
+                            columnNames={columnNames}
+                            value={mapping[field]}
+                            onChange={value => setMapping({ ...mapping, [field]: value })}
+                        />
+                        <span className='import-collection__mapping__sample'>
+                            {mapping[field] !== undefined && dataRows[0]?.[mapping[field]]}
+                        </span>
+                    </div>))}
+                </div>
+                <div className='import-collection__footer'>
+                    <Button
+                        variant='contained'
+                        disabled={mapping.text === undefined || dataRows.length === 0}
+                        onClick={() => {
+                            const collectionValueMap = new Map(collectionValues.map(value => ([value.text, value])));
+
+                            const importedValues = rowsToCollectionValues(dataRows, mapping, scOptions.getInit().multipleTranslateSourceList[0] ?? GOOGLE_COM);
+
+                            importedValues.forEach((value) => {
+                                const existing = collectionValueMap.get(value.text);
+
+                                collectionValueMap.set(value.text, existing ? mergeCollectionValue(existing, value) : value);
+                            });
+
+                            const nextValues = [...new Set(importedValues.map(value => value.text))].map(text => collectionValueMap.get(text) as StoreCollectionValue);
+
+                            scIndexedDB.addAll(DB_STORE_COLLECTION, nextValues).then(onImported);
+                        }}
+                    >
+                        {`${getMessage('wordImport')} (${dataRows.length})`}
+                    </Button>
+                </div>
+            </div>
+        </Backdrop>
+    );
+};
+
+type ColumnSelectProps = {
+    columnNames: string[];
+    value?: number;
+    onChange: (value: number | undefined) => void;
+};
+
+const ColumnSelect: React.FC<ColumnSelectProps> = ({ columnNames, value, onChange }) => {
+    const [showOptions, setShowOptions] = useState(false);
+
+    const columnSelectEltRef = useRef<HTMLDivElement>(null);
+
+    useMouseEventOutside(() => setShowOptions(false), 'mousedown', columnSelectEltRef.current, showOptions);
+
+    const options: [number | undefined, string][] = [[undefined, getMessage('collectionImportNotMapped')], ...columnNames.map((name, i): [number, string] => ([i, name]))];
+
+    return (
+        <div
+            tabIndex={-1}
+            ref={columnSelectEltRef}
+            className='column-select border-bottom-select'
+            onClick={() => setShowOptions(!showOptions)}
+        >
+            <span className='column-select__value'>
+                {value === undefined ? getMessage('collectionImportNotMapped') : columnNames[value] ?? ''}
+            </span>
+            <IconFont iconName='#icon-GoChevronDown' />
+            <SelectOptions
+                className='scrollbar'
+                maxHeight={200}
+                maxWidth={200}
+                show={showOptions}
+            >
+                {options.map(([index, name]) => (<div
+                    key={name}
+                    className='column-select__option'
+                    onClick={(e) => {
+                        e.stopPropagation();
+                        onChange(index);
+                        setShowOptions(false);
+                    }}
+                >
+                    {name}
+                </div>))}
+            </SelectOptions>
+        </div>
+    );
+};
+
+export default ImportCollection;
\ No newline at end of file
@@ -0,0 +1,187 @@
+import React, { useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import scIndexedDB, { DB_STORE_COLLECTION, StoreCollectionValue } from '../../../../public/sc-indexed-db';
+import Backdrop from '../Backdrop';
+import Button from '../../../../components/Button';
+import IconFont from '../../../../components/IconFont';
+import SourceFavicon from '../../../../components/SourceFavicon';
+import TranslateResult from '../../../../components/TranslateResult';
+import { getMessage } from '../../../../public/i18n';
+import { playAudio } from '../../../../public/play-audio';
+import { cn } from '../../../../public/utils';
+import TagSetContext from '../../TagSetContext';
+import { Grade, GRADE_AGAIN, GRADE_EASY, GRADE_GOOD, GRADE_HARD, isDue, schedule } from '../../sm2';
+import './style.css';
+
+const grades: { grade: Grade; message: string; }[] = [
+    { grade: GRADE_AGAIN, message: getMessage('collectionReviewAgain') },
+    { grade: GRADE_HARD, message: getMessage('collectionReviewHard') },
+    { grade: GRADE_GOOD, message: getMessage('collectionReviewGood') },
+    { grade: GRADE_EASY, message: getMessage('collectionReviewEasy') }
+];
+
+type ReviewProps = {
+    collectionValues: StoreCollectionValue[];
+    onClose: () => void;
+};
+
+const Review: React.FC<ReviewProps> = ({ collectionValues, onClose }) => {
+    const [checkedTagSet, setCheckedTagSet] = useState<Set<string>>(new Set());
+    const [queue, setQueue] = useState<StoreCollectionValue[] | null>(null);
+    const [showingBack, setShowingBack] = useState(false);
+    const [reviewedCount, setReviewedCount] = useState(0);
+
+    const tagSet = useContext(TagSetContext);
+
+    const dueValues = useMemo(() => {
+        const now = Date.now();
+        const checkedTags = [...checkedTagSet];
+
+        return collectionValues.filter(value => (
+            isDue(value, now) && checkedTags.every(tagName => value.tags?.includes(tagName))
+        )).sort((a, b) => ((a.review?.due ?? 0) - (b.review?.due ?? 0)));
+    }, [collectionValues, checkedTagSet]);
+
+    const currentValue = queue?.[0];
+
+    const playCurrentAudio = useCallback(() => {
+        if (!currentValue) { return; }
+
+        const translation = currentValue.translations.find(({ translateRequest }) => translateRequest.status === 'finished');
+
+        const from = translation?.translateRequest.status === 'finished' ? translation.translateRequest.result.from : '';
+
+        playAudio({ text: currentValue.text, source: translation?.source, from });
+    }, [currentValue]);
+
+    const grade = useCallback((grade: Grade) => {
+        if (!currentValue) { return; }
+
+        const review = schedule(currentValue.review, grade, Date.now());
+        const nextValue = { ...currentValue, review };
+
+        // The card may have been edited in another tab during the session, only "review" is written back.
+        scIndexedDB.get(DB_STORE_COLLECTION, currentValue.text).then((latestValue) => {
+            latestValue && scIndexedDB.add(DB_STORE_COLLECTION, { ...latestValue, review });
+        });
+
+        // Forgotten cards come back at the end of this session.
+        setQueue(value => (value ? value.slice(1).concat(grade === GRADE_AGAIN ? nextValue : []) : value));
+        setShowingBack(false);
+        setReviewedCount(count => count + 1);
+    }, [currentValue]);
+
+    useEffect(() => {
+        showingBack && playCurrentAudio();
+    }, [showingBack, playCurrentAudio]);
+
+    useEffect(() => {
+        const onKeyDown = (e: KeyboardEvent) => {
+            if (e.ctrlKey || e.metaKey || e.altKey || e.repeat) { return; }
+
+            if (e.key === 'Escape') {
+                onClose();
+            }
+            else if (!queue) {
+                e.key === 'Enter' && dueValues.length > 0 && setQueue(dueValues);
+            }
+            else if (!currentValue) {
+                return;
+            }
+            else if (e.key === 'r' || e.key === 'R') {
+                playCurrentAudio();
+            }
+            else if (!showingBack) {
+                (e.key === ' ' || e.key === 'Enter') && setShowingBack(true);
+            }
+            else if (['1', '2', '3', '4'].includes(e.key)) {
+                grade(Number(e.key) - 1 as Grade);
+            }
+            else {
+                return;
+            }
+
+            e.preventDefault();
+        };
+
+        window.addEventListener('keydown', onKeyDown);
+
+        return () => window.removeEventListener('keydown', onKeyDown);
+    }, [queue, currentValue, dueValues, showingBack, grade, playCurrentAudio, onClose]);
+
+    return (
+        <Backdrop>
+            <div className='review'>
+                <div className='review__head'>
+                    <span className='review__head__title'>{getMessage('collectionReview')}</span>
+                    {queue && <span className='review__head__progress'>{`${reviewedCount} / ${reviewedCount + queue.length}`}</span>}
+                    <Button variant='icon' onClick={onClose}>
+                        <IconFont iconName='#icon-GoX' style={{fontSize: '20px'}} />
+                    </Button>
+                </div>
+                {!queue ? <div className='review__setup'>
+                    <div className='review__setup__tags'>
+                        {[...tagSet].map(tagName => (<div
+                            key={tagName}
+                            className={cn('tags__item', 'button', checkedTagSet.has(tagName) && 'review__tag--checked')}
+                            onClick={() => {
+                                const nextCheckedTagSet = new Set(checkedTagSet);
+
+                                nextCheckedTagSet.has(tagName) ? nextCheckedTagSet.delete(tagName) : nextCheckedTagSet.add(tagName);
+
+                                setCheckedTagSet(nextCheckedTagSet);
+                            }}
+                        >
+                            {tagName}
+                        </div>))}
+                    </div>
+                    <div className='review__setup__due'>{`${getMessage('collectionReviewDueCards')}: ${dueValues.length}`}</div>
+                    <Button
+                        variant='contained'
+                        disabled={dueValues.length === 0}
+                        onClick={() => setQueue(dueValues)}
+                    >
+                        {getMessage('collectionReviewStart')}
+                    </Button>
+                </div> : !currentValue ? <div className='review__finished'>
+                    {getMessage('collectionReviewFinished')}
+                </div> : <div className='review__card'>
+                    <div className='review__card__front'>
+                        {currentValue.text}
+                        <IconFont
+                            iconName='#icon-GoUnmute'
+                            className='iconbutton button'
+                            onClick={playCurrentAudio}
+                        />
+                    </div>
+                    {showingBack ? <>
+                        <div className='review__card__back'>
+                            {currentValue.translations.map(({ source, translateRequest }) => (translateRequest.status === 'finished' && <div
+                                key={source}
+                                className='review__card__back__item'
+                            >
+                                <SourceFavicon source={source} />
+                                <TranslateResult source={source} translateRequest={translateRequest} />
+                            </div>))}
+                            {currentValue.note && <div className='review__card__back__note'>{currentValue.note}</div>}
+                        </div>
+                        <div className='review__grades'>
+                            {grades.map(({ grade: value, message }) => (<Button
+                                key={value}
+                                variant='outlined'
+                                onClick={() => grade(value)}
+                            >
+                                {`${message} (${value + 1})`}
+                            </Button>))}
+                        </div>
+                    </> : <div className='review__grades'>
+                        <Button variant='contained' onClick={() => setShowingBack(true)}>
+                            {`${getMessage('collectionReviewShowAnswer')} (Space)`}
+                        </Button>
+                    </div>}
+                </div>}
+            </div>
+        </Backdrop>
+    );
+};
+
+export default Review;
\ No newline at end of file
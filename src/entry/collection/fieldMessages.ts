@@ -0,0 +1,14 @@
+import { getMessage } from '../../public/i18n';
+import type { CollectionField } from './collection-file';
+
+export const fieldMessages: { [K in CollectionField]: string } = {
+    text: getMessage('wordText'),
+    translation: getMessage('wordResult'),
+    phonetic: getMessage('wordPhonetic'),
+    dict: getMessage('wordDictionary'),
+    example: getMessage('wordExample'),
+    related: getMessage('wordRelated'),
+    note: getMessage('collectionFieldNote'),
+    tags: getMessage('collectionTags'),
+    source: getMessage('collectionFieldSource')
+};
\ No newline at end of file
@@ -0,0 +1,44 @@
+import { StoreCollectionReview, StoreCollectionValue } from '../../public/sc-indexed-db';
+
+export const GRADE_AGAIN = 0;
+export const GRADE_HARD = 1;
+export const GRADE_GOOD = 2;
+export const GRADE_EASY = 3;
+
+export type Grade = typeof GRADE_AGAIN | typeof GRADE_HARD | typeof GRADE_GOOD | typeof GRADE_EASY;
+
+const DAY = 86400000;
+
+// SM-2 rates recall from 0 to 5, the four grades map to 1, 3, 4 and 5.
+const gradeQualities: { [K in Grade]: number } = [1, 3, 4, 5];
+
+const initReview: Omit<StoreCollectionReview, 'due'> = { ease: 2.5, interval: 0, repetitions: 0 };
+
+export const isDue = (value: StoreCollectionValue, now: number) => ((value.review?.due ?? 0) <= now);
+
+export const schedule = (review: StoreCollectionReview | undefined, grade: Grade, now: number): StoreCollectionReview => {
+    const quality = gradeQualities[grade];
+
+    let { ease, interval, repetitions } = review ?? initReview;
+
+    if (quality < 3) {
+        repetitions = 0;
+        interval = 1;
+    }
+    else {
+        repetitions += 1;
+        interval = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(interval * ease);
+    }
+
+    ease = Math.max(1.3, ease + 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02));
+
+    return { due: now + interval * DAY, ease, interval, repetitions };
+};
+
+export const isReview = (review: unknown): review is StoreCollectionReview => {
+    if (!review || typeof review !== 'object') { return false; }
+
+    const { due, ease, interval, repetitions } = review as StoreCollectionReview;
+
+    return [due, ease, interval, repetitions].every(v => typeof v === 'number' && Number.isFinite(v));
+};
\ No newline at end of file
@@ -1,6 +1,7 @@
 import React, { useRef, useState, useLayoutEffect } from 'react';
 import MtResult from '../../../components/MtResult';
 import MtAddSource from '../../../components/MtAddSource';
+import MtCompare from '../../../components/MtCompare';
 import LanguageSelection from '../../../components/LanguageSelection';
 import RawText from '../../../components/RawText';
 import { mtLangCode } from '../../../constants/langCode';
@@ -24,7 +25,7 @@ const MultipleTranslateResult: React.FC<MultipleTranslateResultProps> = React.me
         setResultMaxHeight(maxHeight < 40 ? 40 : maxHeight);
     }, [maxHeightGap]);
 
-    const { displayEditArea } = useAppSelector(state => state.panelStatus);
+    const { displayEditArea, compareMode } = useAppSelector(state => state.panelStatus);
 
     const historyEnabled = useIsHistoryEnabled(window.location.host);
 
@@ -54,6 +55,12 @@ const MultipleTranslateResult: React.FC<MultipleTranslateResultProps> = React.me
                         <div className='multiple-result__add-source'>{getMessage('sentenceAddTranslateSource')}</div>
                         <MtAddSource translations={translations} addSource={addSource} />
                     </>
+                ) : compareMode && translations.length > 1 ? (
+                    <MtCompare
+                        text={text}
+                        translations={translations}
+                        insertResult={insertToggle}
+                    />
                 ) : (
                     translations.map(({ source, translateRequest }) => (
                         <MtResult
@@ -1,6 +1,7 @@
 import React, { useCallback, useEffect, useLayoutEffect, useRef, useState } from 'react';
 import CollectButton from '../../../components/PanelIconButtons/CollectButton';
 import DisplayEditAreaButton from '../../../components/PanelIconButtons/DisplayEditAreaButton';
+import CompareButton from '../../../components/PanelIconButtons/CompareButton';
 import { useAppSelector, useOptions, useWindowSize } from '../../../public/react-use';
 import { calculatePosition, drag } from '../../../public/utils';
 import { GetStorageKeys, Position } from '../../../types';
@@ -109,6 +110,7 @@ const ResultBox: React.FC = () => {
                 </span>
                 <span className='panel__header-icons flex-align-items-center'>
                     <CollectButton />
+                    <CompareButton />
                     <DisplayEditAreaButton />
                     <PinButton />
                     <CloseButton />
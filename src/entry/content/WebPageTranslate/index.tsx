@@ -7,15 +7,21 @@ import SourceSelect from '../../../components/SourceSelect';
 import { SCTS_SWITCH_WT_DISPLAY_MODE, SCTS_TOGGLE_PAGE_TRANSLATION_STATE, SCTS_TRANSLATE_CURRENT_PAGE } from '../../../constants/chromeSendMessageTypes';
 import { preferredLangCode } from '../../../constants/langCode';
 import { webPageTranslateSource as webPageTranslateSourceList } from '../../../constants/translateSource';
+import { getWebpageTranslateServiceSources } from '../../../constants/thirdPartyServiceValues';
 import { getMessage } from '../../../public/i18n';
-import { useOnRuntimeMessage, useOptions } from '../../../public/react-use';
+import { useMouseEventOutside, useOnRuntimeMessage, useOptions } from '../../../public/react-use';
 import useEffectOnce from '../../../public/react-use/useEffectOnce';
-import { closeWebPageTranslating, errorRetry, startWebPageTranslating, switchWayOfFontsDisplaying } from '../../../public/web-page-translate';
+import { closeWebPageTranslating, errorRetry, startWebPageTranslating, switchSubtitlesDisplaying, switchWayOfFontsDisplaying } from '../../../public/web-page-translate';
 import { GetStorageKeys } from '../../../types';
 import './style.css';
 import Logo from '../../../components/Logo';
 import { sendGetSpecifySelectors, sendShouldAutoTranslateThisPage, sendUpdatePageTranslationState } from '../../../public/send';
 import scOptions from '../../../public/sc-options';
+import type { PageTranslationProfile } from '../../../public/sc-indexed-db';
+import SelectOptions from '../../../components/SelectOptions';
+import { ExportFormat, exportTranslatedPage } from '../../../public/web-page-translate/export-page';
+import type { RequestProgress } from '../../../public/web-page-translate/scheduler';
+import { getSubtitleDisplayMode } from '../../../public/web-page-translate/subtitles';
 
 const wPTI18nCache = {
     switchDisplayModeOfResult: getMessage('contentSwitchDisplayModeOfResult'),
@@ -23,9 +29,16 @@ const wPTI18nCache = {
     closeWebPageTranslating: getMessage('contentCloseWebPageTranslating'),
     restartWebpageTranslating: getMessage('contentRestartWebpageTranslating'),
     enableAutoTranslationOnThisSite: getMessage('contentEnableAutoTranslationOnThisSite'),
-    disableAutoTranslationOnThisSite: getMessage('contentDisableAutoTranslationOnThisSite')
+    disableAutoTranslationOnThisSite: getMessage('contentDisableAutoTranslationOnThisSite'),
+    exportTranslatedPage: getMessage('contentExportTranslatedPage'),
+    queued: getMessage('contentQueued'),
+    inFlight: getMessage('contentInFlight'),
+    switchSubtitleDisplayMode: getMessage('contentSwitchSubtitleDisplayMode'),
+    subtitleDisplayModes: [getMessage('contentSubtitleOriginal'), getMessage('contentSubtitleBoth'), getMessage('contentSubtitleTranslation')]
 };
 
+const exportFormats: ExportFormat[] = ['html', 'epub'];
+
 // WPT means web page transalte
 type WPTReducerState = {
     show: boolean;
@@ -35,7 +48,7 @@ type WPTReducerState = {
     error: string;
     activated: boolean;
     auto: boolean;
-    requesting: boolean;
+    progress: RequestProgress;
 };
 type WPTReducerAction = 
 | { type: 'active-wpt'; show: boolean; auto: boolean; }
@@ -46,8 +59,7 @@ type WPTReducerAction =
 | { type: 'change-targer-language'; targetLanguage: string; }
 | { type: 'show-control-bar'; }
 | { type: 'hide-control-bar'; }
-| { type: 'request-start'; }
-| { type: 'request-finish'; };
+| { type: 'update-progress'; progress: RequestProgress; };
 
 const initWPTState: WPTReducerState = {
     show: false,
@@ -57,7 +69,7 @@ const initWPTState: WPTReducerState = {
     error: '',
     activated: false,
     auto: false,
-    requesting: false
+    progress: { queued: 0, inFlight: 0, done: 0 }
 };
 
 const wPTReducer = (state: WPTReducerState, action: WPTReducerAction): WPTReducerState => {
@@ -78,10 +90,8 @@ const wPTReducer = (state: WPTReducerState, action: WPTReducerAction): WPTReduce
             return { ...state, show: true };
         case 'hide-control-bar':
             return { ...state, show: false };
-        case 'request-start':
-            return { ...state, requesting: true };
-        case 'request-finish':
-            return { ...state, requesting: false };
+        case 'update-progress':
+            return { ...state, progress: action.progress };
         default:
             return state;
     }
@@ -95,7 +105,7 @@ const useOptionsDependency: GetStorageKeys<
 const WebPageTranslate: React.FC = () => {
     const langCodes = useMemo(() => preferredLangCode[scOptions.getInit().userLanguage], []);
 
-    const [{ show, source, targetLanguage, working, error, activated, auto, requesting }, dispach] = useReducer(wPTReducer, {
+    const [{ show, source, targetLanguage, working, error, activated, auto, progress }, dispach] = useReducer(wPTReducer, {
         ...initWPTState,
         source: scOptions.getInit().webPageTranslateSource,
         targetLanguage: scOptions.getInit().webPageTranslateTo
@@ -107,45 +117,53 @@ const WebPageTranslate: React.FC = () => {
         return new Set(autoTranslateWebpageHostList);
     }, [autoTranslateWebpageHostList]);
 
+    const [showExportOptions, setShowExportOptions] = useState(false);
+    const [exporting, setExporting] = useState(false);
+    const [subtitleDisplayMode, setSubtitleDisplayMode] = useState(getSubtitleDisplayMode);
+
+    const exportEltRef = useRef<HTMLDivElement>(null);
+
+    useMouseEventOutside(() => setShowExportOptions(false), 'mousedown', exportEltRef.current, showExportOptions);
+
     const host = window.location.host;
 
     const handleError = useCallback((errorReason: string) => {
         errorReason && dispach({ type: 'change-error', error: errorReason });
     }, [dispach]);
 
-    const handleRequestStart = useCallback(() => {
-        dispach({ type: 'request-start' });
+    const handleProgress = useCallback((progress: RequestProgress) => {
+        dispach({ type: 'update-progress', progress });
     }, [dispach]);
 
-    const handleRequestFinish = useCallback(() => {
-        dispach({ type: 'request-finish' });
-    }, [dispach]);
-
-    const startProcessing = useCallback((force = false) => {
+    // "profileLanguages" is passed while the profile of this page has been dispatched but not rendered yet.
+    const startProcessing = useCallback((force = false, profileLanguages?: { source: string; targetLanguage: string; }) => {
         if (working && !force) { return; }
 
         closeWebPageTranslating();
 
         sendGetSpecifySelectors(`${window.location.host}${window.location.pathname}`).then((data) => {
             let specifySelectors = { includeSelectors: '', excludeSelectors: '' };
+            let profile: PageTranslationProfile = {};
 
             if (!('code' in data)) {
-                specifySelectors = data;
+                specifySelectors = { includeSelectors: data.includeSelectors, excludeSelectors: data.excludeSelectors };
+                profile = data.profile;
             }
 
             const startSuccess = startWebPageTranslating({
                 element: document.body,
-                translateSource: source,
-                targetLanguage,
-                enhancement: scOptions.getInit().displayModeEnhancement,
+                translateSource: profileLanguages?.source ?? source,
+                targetLanguage: profileLanguages?.targetLanguage ?? targetLanguage,
+                enhancement: profile.enhancement ?? scOptions.getInit().displayModeEnhancement,
                 translateDynamicContent: scOptions.getInit().translateDynamicContent,
                 translateIframeContent: scOptions.getInit().translateIframeContent,
                 customization: scOptions.getInit().comparisonCustomization,
                 enableCache: scOptions.getInit().enablePageTranslationCache,
                 specifySelectors,
+                fallbackSources: scOptions.getInit().webPageTranslateFallbackSourceList,
+                rateLimits: scOptions.getInit().webPageTranslateRateLimits,
                 onError: handleError,
-                onRequestStart: handleRequestStart,
-                onRequestFinish: handleRequestFinish
+                onProgress: handleProgress
             });
     
             if (startSuccess) {
@@ -155,7 +173,7 @@ const WebPageTranslate: React.FC = () => {
                 dispach({ type: 'change-error', error: 'Process failed!' });
             }
         });
-    }, [source, targetLanguage, working, dispach, handleError, handleRequestStart, handleRequestFinish]);
+    }, [source, targetLanguage, working, dispach, handleError, handleProgress]);
 
     const activatePageTranslation = useCallback(() => {
         if (!working) {
@@ -176,6 +194,16 @@ const WebPageTranslate: React.FC = () => {
         }
     }, [working, activated, show, auto, startProcessing]);
 
+    const exportPage = useCallback((format: ExportFormat) => {
+        setShowExportOptions(false);
+        setExporting(true);
+
+        exportTranslatedPage(format).then(({ errorCount }) => {
+            // The retry of the error message translates the failed paragraphs again, then the page can be exported.
+            errorCount > 0 && dispach({ type: 'change-error', error: getMessage('contentExportParagraphsFailed').replace('{count}', errorCount.toString()) });
+        }).finally(() => setExporting(false));
+    }, [dispach]);
+
     const closePageTranslation = useCallback(() => {
         closeWebPageTranslating();
         dispach({ type: 'close-wpt' });
@@ -184,24 +212,37 @@ const WebPageTranslate: React.FC = () => {
     useEffectOnce(() => {
         switchWayOfFontsDisplaying(scOptions.getInit().webPageTranslateDisplayMode);
 
-        const auto = scOptions.getInit().translateDynamicContent && scOptions.getInit().enableAutoTranslateWebpage && scOptions.getInit().autoTranslateWebpageHostList.includes(host);
+        sendGetSpecifySelectors(`${window.location.host}${window.location.pathname}`).then((data) => {
+            const profile: PageTranslationProfile = 'code' in data ? {} : data.profile;
+
+            const profileLanguages = {
+                source: profile.source ?? scOptions.getInit().webPageTranslateSource,
+                targetLanguage: profile.targetLanguage ?? scOptions.getInit().webPageTranslateTo
+            };
+
+            profile.source && dispach({ type: 'change-source', source: profile.source });
+            profile.targetLanguage && dispach({ type: 'change-targer-language', targetLanguage: profile.targetLanguage });
+            profile.displayMode !== undefined && switchWayOfFontsDisplaying(profile.displayMode);
+
+            const auto = scOptions.getInit().translateDynamicContent && (profile.autoTranslate ?? (scOptions.getInit().enableAutoTranslateWebpage && scOptions.getInit().autoTranslateWebpageHostList.includes(host)));
+
+            if (working) { return; }
 
-        if (!working) {
             if (auto) {
                 dispach({ type: 'active-wpt', show: !scOptions.getInit().noControlBarWhileFirstActivating, auto });
 
-                startProcessing();
+                startProcessing(false, profileLanguages);
             }
-            else if (scOptions.getInit().translateRedirectedSameDomainPage) {
+            else if (scOptions.getInit().translateRedirectedSameDomainPage && profile.autoTranslate !== false) {
                 sendShouldAutoTranslateThisPage(location.host).then((response) => {
                     if (response === 'Yes') {
                         dispach({ type: 'active-wpt', show: !scOptions.getInit().noControlBarWhileFirstActivating, auto });
 
-                        startProcessing();
+                        startProcessing(false, profileLanguages);
                     }
                 });
             }
-        }
+        });
     });
 
     useEffect(() => {
@@ -285,14 +326,20 @@ const WebPageTranslate: React.FC = () => {
         </div>}
         <div className='web-page-translate__content flex-align-items-center'>
             <div className='web-page-translate__content__logo'>
-                {requesting ? <span className='spinner' /> : <Logo />}
+                {progress.queued + progress.inFlight > 0 ? <span className='spinner' /> : <Logo />}
             </div>
+            {progress.queued + progress.inFlight > 0 && <div
+                className='web-page-translate__content__progress'
+                title={`${wPTI18nCache.queued}: ${progress.queued}, ${wPTI18nCache.inFlight}: ${progress.inFlight}`}
+            >
+                {`${progress.done}/${progress.queued + progress.inFlight + progress.done}`}
+            </div>}
             <div className='web-page-translate__content__division' />
             <div className='page-translation__select-box'>
                 <SourceSelect
                     source={source}
                     className='border-bottom-select'
-                    sourceList={webPageTranslateSourceList.concat(scOptions.getInit().customWebpageTranslateSourceList)}
+                    sourceList={webPageTranslateSourceList.concat(scOptions.getInit().customWebpageTranslateSourceList, getWebpageTranslateServiceSources(scOptions.getInit().enabledThirdPartyServices))}
                     onChange={source => dispach({ type: 'change-source', source })}
                     faviconOnly
                 />
@@ -331,6 +378,44 @@ const WebPageTranslate: React.FC = () => {
             >
                 <IconFont iconName='#icon-switch' />
             </PanelIconButtonWrapper>
+            <PanelIconButtonWrapper
+                onClick={() => {
+                    if (!working) { return; }
+
+                    setSubtitleDisplayMode(switchSubtitlesDisplaying());
+                }}
+                disabled={!working}
+                title={`${wPTI18nCache.switchSubtitleDisplayMode}: ${wPTI18nCache.subtitleDisplayModes[subtitleDisplayMode]}`}
+            >
+                <span className='web-page-translate__subtitle-mode'>CC</span>
+            </PanelIconButtonWrapper>
+            <div className='web-page-translate__export' ref={exportEltRef}>
+                <PanelIconButtonWrapper
+                    onClick={() => {
+                        if (!working || exporting) { return; }
+
+                        setShowExportOptions(v => !v);
+                    }}
+                    disabled={!working || exporting}
+                    title={wPTI18nCache.exportTranslatedPage}
+                >
+                    {exporting ? <span className='spinner' /> : <IconFont iconName='#icon-export' />}
+                </PanelIconButtonWrapper>
+                <SelectOptions
+                    show={showExportOptions}
+                    maxHeight={80}
+                    maxWidth={100}
+                    fixed
+                >
+                    {exportFormats.map(format => (<div
+                        key={format}
+                        className='web-page-translate__export__item button'
+                        onClick={() => exportPage(format)}
+                    >
+                        {format.toUpperCase()}
+                    </div>))}
+                </SelectOptions>
+            </div>
             {scOptions.getInit().translateDynamicContent && scOptions.getInit().enableAutoTranslateWebpage && <PanelIconButtonWrapper
                 onClick={() => {
                     const nextHostSet = new Set(hostSet);
@@ -11,6 +11,10 @@ import { appendColorVarsStyle, appendCustomizeStyle, appendFontSizeStyle } from
 import WebPageTranslate from './WebPageTranslate';
 import scOptions from '../../public/sc-options';
 import { initHighlight } from './highlight';
+import { initFrameTranslating } from '../../public/web-page-translate/frames';
+import { initTypingTranslate } from './typing-translate';
+
+const isTopFrame = window.top === window;
 
 scOptions.init().then((options) => {
     initTranslation({
@@ -19,6 +23,14 @@ scOptions.init().then((options) => {
         to: options.multipleTranslateTo
     });
 
+    initFrameTranslating();
+
+    // Text boxes of child frames are translated in their own frames.
+    initTypingTranslate();
+
+    // Child frames only translate along with the top frame, the panels are shown in the top frame.
+    if (!isTopFrame) { return; }
+
     const root = document.createElement('div');
     root.id = 'sc-translator-shadow';
     root.setAttribute('style', 'all: initial;');
@@ -57,6 +69,6 @@ scOptions.init().then((options) => {
     );
 });
 
-chrome.runtime.onMessage.addListener((request, sender, sendResponse) => {
+isTopFrame && chrome.runtime.onMessage.addListener((request, sender, sendResponse) => {
     if (request === 'Are you enabled?') sendResponse({ host: window.location.host });
 });
\ No newline at end of file
@@ -0,0 +1,197 @@
+import scOptions from '../../public/sc-options';
+import { sendTranslate } from '../../public/send';
+import { getIsEnabled, isTextBox } from '../../public/utils';
+import { DefaultOptions, GetStorageKeys } from '../../types';
+
+type TextBox = HTMLInputElement | HTMLTextAreaElement | HTMLElement;
+
+type Replacement = {
+    element: TextBox;
+    original: string;
+    // The text of the box right after replacing, it's undone only while the box keeps it.
+    replaced: string;
+};
+
+type TypingTranslateOptions = Pick<DefaultOptions,
+    'typingTranslate' |
+    'typingTranslateTrigger' |
+    'typingTranslateSource' |
+    'typingTranslateTo' |
+    'typingTranslateHostLanguages' |
+    'translateBlackListMode' |
+    'translateHostList'
+>;
+
+const optionKeys: GetStorageKeys<keyof TypingTranslateOptions> = [
+    'typingTranslate',
+    'typingTranslateTrigger',
+    'typingTranslateSource',
+    'typingTranslateTo',
+    'typingTranslateHostLanguages',
+    'translateBlackListMode',
+    'translateHostList'
+];
+
+let options: TypingTranslateOptions = scOptions.getInit();
+let translatingElement: TextBox | null = null;
+let lastReplacement: Replacement | null = null;
+// Our own "insertText" fires "input" as well.
+let replacing = false;
+
+const isInputElement = (element: Element): element is HTMLInputElement | HTMLTextAreaElement => {
+    return element.tagName === 'INPUT' || element.tagName === 'TEXTAREA';
+};
+
+// Rich editors keep the caret in nested elements, the whole editing host is translated.
+const getTextBox = (target: EventTarget | undefined): TextBox | null => {
+    if (!(target instanceof HTMLElement) || !isTextBox(target)) { return null; }
+
+    if (isInputElement(target)) { return target; }
+
+    let element = target;
+
+    while (element.parentElement?.isContentEditable) {
+        element = element.parentElement;
+    }
+
+    return element;
+};
+
+// Spaces typed in editable elements may turn into no-break spaces.
+const normalizeSpaces = (text: string) => text.replace(/\u00a0/g, ' ');
+
+const getText = (element: TextBox) => normalizeSpaces(isInputElement(element) ? element.value : element.innerText);
+
+const getTextBeforeCaret = (element: TextBox) => {
+    if (isInputElement(element)) {
+        return normalizeSpaces(element.value.slice(0, element.selectionStart ?? element.value.length));
+    }
+
+    const selection = window.getSelection();
+
+    if (!selection?.anchorNode || !selection.isCollapsed || !element.contains(selection.anchorNode)) { return ''; }
+
+    const range = document.createRange();
+
+    range.selectNodeContents(element);
+    range.setEnd(selection.anchorNode, selection.anchorOffset);
+
+    return normalizeSpaces(range.toString());
+};
+
+// The site itself or its subdomains, the longest match is the most specific one.
+const getTargetLanguage = () => {
+    const { typingTranslateHostLanguages, typingTranslateTo } = options;
+    const { host: currentHost } = window.location;
+
+    const host = Object.keys(typingTranslateHostLanguages)
+        .filter(v => currentHost === v || currentHost.endsWith(`.${v}`))
+        .sort((a, b) => b.length - a.length)[0];
+
+    return host ? typingTranslateHostLanguages[host] : typingTranslateTo;
+};
+
+const setTextByValueSetter = (element: HTMLInputElement | HTMLTextAreaElement, text: string) => {
+    // React and Vue watch "value" through the setter of the element itself, the one of the prototype is left to them.
+    const prototype = element.tagName === 'TEXTAREA' ? HTMLTextAreaElement.prototype : HTMLInputElement.prototype;
+
+    Object.getOwnPropertyDescriptor(prototype, 'value')?.set?.call(element, text);
+
+    element.dispatchEvent(new InputEvent('input', { bubbles: true, inputType: 'insertReplacementText', data: text }));
+};
+
+// "insertText" goes through the input handling of the page like typing does, which also keeps the native undo.
+const replaceText = (element: TextBox, text: string) => {
+    replacing = true;
+
+    element.focus();
+
+    if (isInputElement(element)) {
+        element.select();
+    }
+    else {
+        const range = document.createRange();
+        const selection = window.getSelection();
+
+        range.selectNodeContents(element);
+        selection?.removeAllRanges();
+        selection?.addRange(range);
+    }
+
+    if (!document.execCommand('insertText', false, text)) {
+        isInputElement(element) ? setTextByValueSetter(element, text) : (element.innerText = text);
+    }
+
+    replacing = false;
+};
+
+const translateTextBox = async (element: TextBox, typedText: string, original: string) => {
+    translatingElement = element;
+
+    const response = await sendTranslate({ text: original, source: options.typingTranslateSource, from: '', to: getTargetLanguage() }, 0);
+
+    translatingElement = null;
+
+    // Typed on in the meantime, the translation is of an earlier text.
+    if ('code' in response || getText(element) !== typedText) { return; }
+
+    const translation = response.translation.result.join(element.tagName === 'INPUT' ? ' ' : '\n');
+
+    replaceText(element, translation);
+
+    lastReplacement = { element, original, replaced: getText(element) };
+};
+
+const onInput = (e: Event) => {
+    if (replacing || !(e instanceof InputEvent) || e.inputType !== 'insertText' || e.isComposing) { return; }
+
+    const { typingTranslate, typingTranslateTrigger, translateHostList, translateBlackListMode } = options;
+
+    if (!typingTranslate || !typingTranslateTrigger || !getIsEnabled(window.location.host, translateHostList, translateBlackListMode)) { return; }
+
+    const element = getTextBox(e.composedPath()[0]);
+
+    if (!element || element === translatingElement) { return; }
+
+    const textBeforeCaret = getTextBeforeCaret(element);
+
+    if (!textBeforeCaret.endsWith(typingTranslateTrigger)) { return; }
+
+    const typedText = getText(element);
+
+    // "innerText" has line breaks of the blocks which the range has not, the trigger is searched for instead.
+    const index = isInputElement(element) ? textBeforeCaret.length - typingTranslateTrigger.length : typedText.lastIndexOf(typingTranslateTrigger);
+
+    if (index < 0) { return; }
+
+    const original = typedText.slice(0, index) + typedText.slice(index + typingTranslateTrigger.length);
+
+    original.trim() && translateTextBox(element, typedText, original);
+};
+
+// Undoing right after a replacement restores the original without the trigger.
+const onKeyDown = (e: KeyboardEvent) => {
+    if (!lastReplacement || !(e.ctrlKey || e.metaKey) || e.shiftKey || e.key.toLowerCase() !== 'z') { return; }
+
+    const { element, original, replaced } = lastReplacement;
+
+    if (getTextBox(e.composedPath()[0]) !== element || getText(element) !== replaced) { return; }
+
+    e.preventDefault();
+    e.stopImmediatePropagation();
+
+    lastReplacement = null;
+
+    replaceText(element, original);
+};
+
+export const initTypingTranslate = () => {
+    options = scOptions.getInit();
+
+    scOptions.listen(optionKeys, (changes) => {
+        options = { ...options, ...changes };
+    });
+
+    document.addEventListener('input', onInput, true);
+    document.addEventListener('keydown', onKeyDown, true);
+};
\ No newline at end of file
@@ -0,0 +1,208 @@
+import React, { useCallback, useEffect, useLayoutEffect, useMemo, useState } from 'react';
+import scIndexedDB, { DB_STORE_HISTORY, StoreHistoryValue } from '../../public/sc-indexed-db';
+import Logo from '../../components/Logo';
+import { getMessage } from '../../public/i18n';
+import SearchField, { HistoryFilter, initFilter } from './components/SearchField';
+import Checkbox from '../../components/Checkbox';
+import Button from '../../components/Button';
+import IconFont from '../../components/IconFont';
+import ConfirmDelete from '../collection/components/ConfirmDelete';
+import CollectionValueCard from '../collection/components/CollectionValueCard';
+import HistoryTranslations from './components/HistoryTranslations';
+import { resultToString } from '../../public/utils';
+import { sendAddToCollection } from '../../public/send';
+import { Translation } from '../../types';
+
+const getSearchableText = ({ text, translations }: StoreHistoryValue) => {
+    let searchableText = text;
+
+    translations.forEach(({ translateRequest }) => {
+        if (translateRequest.status !== 'finished') { return; }
+
+        const { result, dict } = translateRequest.result;
+
+        searchableText += '\n' + resultToString(result) + (dict ? '\n' + dict.join('\n') : '');
+    });
+
+    return searchableText.toLowerCase();
+};
+
+// Input value of date is "yyyy-mm-dd" in local time.
+const getTimestamp = (date: string) => (Number(new Date(`${date}T00:00:00`)));
+
+const History: React.FC = () => {
+    const [historyValues, setHistoryValues] = useState<StoreHistoryValue[]>([]);
+    const [currentValue, setCurrentValue] = useState<StoreHistoryValue>();
+    const [checked, setChecked] = useState<boolean[]>([]);
+    const [search, setSearch] = useState('');
+    const [filter, setFilter] = useState<HistoryFilter>(initFilter);
+    const [filteredValues, setFilteredValues] = useState<StoreHistoryValue[]>([]);
+    const [deleteList, setDeleteList] = useState<null | StoreHistoryValue[]>(null);
+
+    const hosts = useMemo(() => [...new Set(historyValues.map(value => value.host))].sort(), [historyValues]);
+
+    const searchableTextMap = useMemo(() => new Map(historyValues.map(value => ([value.id, getSearchableText(value)]))), [historyValues]);
+
+    const checkedLength = useMemo(() => checked.reduce((total, current) => (total + Number(current)), 0), [checked]);
+
+    const checkedValues = useMemo(() => filteredValues.filter((value, index) => checked[index]), [filteredValues, checked]);
+
+    const refreshHistoryValues = useCallback(() => {
+        scIndexedDB.getAll(DB_STORE_HISTORY).then((data) => {
+            setHistoryValues(data);
+            setCurrentValue(value => value && data.find(v => v.id === value.id));
+        });
+    }, []);
+
+    const deleteHistoryValues = useCallback((values: StoreHistoryValue[]) => {
+        values.length > 0 && scIndexedDB.delete(DB_STORE_HISTORY, values.map(value => value.id)).then(refreshHistoryValues);
+    }, [refreshHistoryValues]);
+
+    const moveToCollection = useCallback(async (values: StoreHistoryValue[]) => {
+        // The same text may be translated many times, merge them before sending.
+        const translationsMap = new Map<string, Translation[]>();
+
+        values.forEach(({ text, translations }) => translationsMap.set(text, (translationsMap.get(text) ?? []).concat(translations)));
+
+        const texts = [...translationsMap.keys()];
+        const responses = await Promise.all(texts.map(text => sendAddToCollection(text, translationsMap.get(text)!)));
+
+        // Only what made it into the collection leaves the history.
+        const addedTexts = new Set(texts.filter((text, index) => !('code' in responses[index])));
+
+        deleteHistoryValues(values.filter(({ text }) => addedTexts.has(text)));
+    }, [deleteHistoryValues]);
+
+    useEffect(() => {
+        refreshHistoryValues();
+    }, [refreshHistoryValues]);
+
+    useLayoutEffect(() => {
+        const lowerCaseSearch = search.trimStart().trimEnd().toLowerCase();
+        const dateFrom = filter.dateFrom ? getTimestamp(filter.dateFrom) : -Infinity;
+        const dateTo = filter.dateTo ? getTimestamp(filter.dateTo) + 86400000 : Infinity;
+
+        const nextFilteredValues = historyValues.filter(value => (
+            (!filter.host || value.host === filter.host)
+            && value.date >= dateFrom
+            && value.date < dateTo
+            && (!lowerCaseSearch || !!searchableTextMap.get(value.id)?.includes(lowerCaseSearch))
+        )).sort((a, b) => (b.date - a.date));
+
+        setChecked(new Array(nextFilteredValues.length).fill(false));
+        setFilteredValues(nextFilteredValues);
+    }, [historyValues, searchableTextMap, search, filter]);
+
+    return (
+        <div className='history-page'>
+            <div className='navbar'>
+                <div className='navbar-left'>
+                    <div className='main-title'>
+                        <div className='flex-align-items-center'>
+                            <Logo style={{fontSize: '30px', marginRight: '10px'}} />
+                            {getMessage('historyTitle')}
+                        </div>
+                    </div>
+                </div>
+                <div className='navbar-center'>
+                    <SearchField
+                        search={search}
+                        setSearch={setSearch}
+                        filter={filter}
+                        setFilter={setFilter}
+                        hosts={hosts}
+                    />
+                </div>
+                <div className='navbar-right'></div>
+            </div>
+            <div style={{height: '1px'}}></div>
+            <div className='toolbar'>
+                <div className='toolbar-wrapper'>
+                    <div className='toolbar-wrapper__left'>
+                        <Checkbox
+                            checked={checkedLength > 0 && checkedLength === checked.length}
+                            indeterminate={checkedLength > 0}
+                            onChange={() => setChecked(checkedLength > 0 ? checked.map(() => false) : checked.map(() => true))}
+                        />
+                        {checkedLength > 0 ? <>
+                            <Button
+                                variant='icon'
+                                onClick={() => setDeleteList(checkedValues)}
+                            >
+                                <IconFont
+                                    iconName='#icon-MdDelete'
+                                    style={{fontSize: '24px'}}
+                                />
+                            </Button>
+                            <Button
+                                variant='text'
+                                onClick={() => moveToCollection(checkedValues)}
+                            >
+                                <IconFont
+                                    iconName='#icon-collections'
+                                    style={{fontSize: '24px', marginRight: '5px'}}
+                                />
+                                {getMessage('historyMoveToCollection')}
+                            </Button>
+                        </> : <Button
+                            variant='icon'
+                            onClick={() => refreshHistoryValues()}
+                        >
+                            <IconFont
+                                iconName='#icon-refresh'
+                                style={{fontSize: '24px'}}
+                            />
+                        </Button>}
+                    </div>
+                </div>
+            </div>
+            {deleteList && <ConfirmDelete
+                deleteList={deleteList.map(value => value.text)}
+                drawerTitle={getMessage('collectionConfirmingDelete')}
+                onCancel={() => {
+                    setDeleteList(null);
+                }}
+                onClose={() => {
+                    setDeleteList(null);
+                }}
+                onConfirm={() => {
+                    setDeleteList(null);
+                    deleteHistoryValues(deleteList);
+                }}
+            />}
+            <div style={{height: '2px'}}></div>
+            <div className='container'>
+                <div className='left'>
+                    <div className='cards'>
+                        {filteredValues.map((historyValue, index) => (<div
+                            key={historyValue.id}
+                            className='cards__item'
+                        >
+                            <Checkbox
+                                checked={checked[index] ?? false}
+                                onChange={checked => setChecked((value) => {
+                                    value[index] = checked;
+                                    return [...value];
+                                })}
+                            />
+                            <div className='card-wrapper' onClick={() => setCurrentValue(historyValue)}>
+                                <CollectionValueCard collectionValue={historyValue} />
+                                <div className='cards__item__host' title={historyValue.host}>{historyValue.host}</div>
+                            </div>
+                        </div>))}
+                        {filteredValues.length === 0 && <div className='no-record'>{getMessage('contentNoRecord')}</div>}
+                    </div>
+                </div>
+                <div className='main'>
+                    {currentValue && <HistoryTranslations
+                        historyValue={currentValue}
+                        onMoveToCollection={() => moveToCollection([currentValue])}
+                        onDelete={() => setDeleteList([currentValue])}
+                    />}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default History;
\ No newline at end of file
@@ -0,0 +1,67 @@
+import React, { useMemo } from 'react';
+import { StoreHistoryValue } from '../../../../public/sc-indexed-db';
+import IconFont from '../../../../components/IconFont';
+import Button from '../../../../components/Button';
+import { getMessage } from '../../../../public/i18n';
+import SourceFavicon from '../../../../components/SourceFavicon';
+import ListenButton from '../../../../components/ListenButton';
+import TranslateResult from '../../../../components/TranslateResult';
+import '../../../collection/components/TranslationsContainer/style.css';
+import './style.css';
+
+type HistoryTranslationsProps = {
+    historyValue: StoreHistoryValue;
+    onMoveToCollection: () => void;
+    onDelete: () => void;
+};
+
+const HistoryTranslations: React.FC<HistoryTranslationsProps> = React.memo(({ historyValue, onMoveToCollection, onDelete }) => {
+    const dateString = useMemo(() => new Date(historyValue.date).toLocaleString(), [historyValue.date]);
+
+    return (
+        <div className='translations-container'>
+            <div className='translations-container__title'>
+                {historyValue.text}
+            </div>
+            <div className='translations-container__meta'>
+                <span>{historyValue.host}</span>
+                <span>{dateString}</span>
+            </div>
+            <div className='translations-container__toolbox'>
+                <Button
+                    variant='text'
+                    onClick={() => navigator.clipboard.writeText(historyValue.text)}
+                >
+                    <IconFont iconName='#icon-copy' style={{marginRight: '5px'}} />
+                    {getMessage('optionsButtonCopy')}
+                </Button>
+                <Button
+                    variant='text'
+                    onClick={onMoveToCollection}
+                >
+                    <IconFont iconName='#icon-collections' style={{marginRight: '5px'}} />
+                    {getMessage('historyMoveToCollection')}
+                </Button>
+                <Button
+                    variant='text'
+                    onClick={onDelete}
+                >
+                    <IconFont iconName='#icon-MdDelete' style={{marginRight: '5px'}} />
+                    {getMessage('delete')}
+                </Button>
+            </div>
+            {historyValue.translations.map(({ source, translateRequest }) => (translateRequest.status === 'finished' && <div
+                key={source + historyValue.id}
+                className='translations-container__item'
+            >
+                <div>
+                    <SourceFavicon source={source} className='translations-container__source-favicon' />
+                    <ListenButton source={source} text={historyValue.text} from={translateRequest.result.from} />
+                </div>
+                <TranslateResult source={source} translateRequest={translateRequest} />
+            </div>))}
+        </div>
+    );
+});
+
+export default HistoryTranslations;
\ No newline at end of file
@@ -0,0 +1,126 @@
+import React, { startTransition, useRef, useState } from 'react';
+import { useMouseEventOutside } from '../../../../public/react-use';
+import Button from '../../../../components/Button';
+import IconFont from '../../../../components/IconFont';
+import { getMessage } from '../../../../public/i18n';
+import SelectOptions from '../../../../components/SelectOptions';
+import '../../../collection/components/SearchField/style.css';
+import './style.css';
+
+export type HistoryFilter = {
+    host: string;
+    // "yyyy-mm-dd", '' means no limit.
+    dateFrom: string;
+    dateTo: string;
+};
+
+type SearchFieldProps = {
+    search: string;
+    setSearch: (search: string) => void;
+    filter: HistoryFilter;
+    setFilter: (filter: HistoryFilter) => void;
+    hosts: string[];
+};
+
+export const initFilter: HistoryFilter = { host: '', dateFrom: '', dateTo: '' };
+
+const SearchField: React.FC<SearchFieldProps> = React.memo(({ search, setSearch, filter, setFilter, hosts }) => {
+    const [filtering, setFiltering] = useState(false);
+
+    const searchElementRef = useRef<HTMLInputElement>(null);
+
+    const filterEleRef = useRef<HTMLDivElement>(null);
+
+    useMouseEventOutside(() => { setFiltering(false); }, 'mousedown', filterEleRef.current, filtering);
+
+    const filtered = !!(filter.host || filter.dateFrom || filter.dateTo);
+
+    return (
+        <div className='search-field'>
+            <Button
+                variant='icon'
+                onClick={() => {
+                    if (!searchElementRef.current) { return; }
+
+                    searchElementRef.current.select();
+                }}
+            >
+                <IconFont
+                    iconName='#icon-search'
+                    style={{fontSize: '20px'}}
+                />
+            </Button>
+            <input
+                type='text'
+                ref={searchElementRef}
+                placeholder={getMessage('historySearchText')}
+                onChange={e => startTransition(() => setSearch(e.target.value))}
+            />
+            <div className='search-field__tags-filter' ref={filterEleRef}>
+                <Button
+                    variant='icon'
+                    onClick={() => setFiltering(!filtering)}
+                >
+                    <IconFont
+                        iconName='#icon-filter'
+                        style={{fontSize: '20px', ...(filtered ? { color: 'rgb(25, 118, 210)' } : undefined)}}
+                    />
+                </Button>
+                <SelectOptions
+                    show={filtering}
+                    maxWidth={300}
+                    maxHeight={353}
+                >
+                    <div className='search-field__tags-filter__title'>{getMessage('wordDate')}</div>
+                    <div className='history-filter__dates'>
+                        <input
+                            type='date'
+                            value={filter.dateFrom}
+                            max={filter.dateTo || undefined}
+                            onChange={e => setFilter({ ...filter, dateFrom: e.target.value })}
+                        />
+                        -
+                        <input
+                            type='date'
+                            value={filter.dateTo}
+                            min={filter.dateFrom || undefined}
+                            onChange={e => setFilter({ ...filter, dateTo: e.target.value })}
+                        />
+                    </div>
+                    <div className='search-field__tags-filter__title'>{getMessage('historyWebsite')}</div>
+                    {['', ...hosts].map((host) => (<div
+                        key={host}
+                        className='search-field__tags-filter__item'
+                        style={{color: filter.host === host ? 'rgb(25, 118, 210)' : 'rgb(51, 51, 51)'}}
+                        title={host}
+                        onClick={() => setFilter({ ...filter, host })}
+                    >
+                        {host || getMessage('historyAllHosts')}
+                    </div>))}
+                </SelectOptions>
+            </div>
+            <span className='search-field__division'></span>
+            <Button
+                variant='icon'
+                className='search-field__close-btn'
+                disabled={!search && !filtered}
+                onClick={() => {
+                    if (!searchElementRef.current) { return; }
+
+                    searchElementRef.current.value = '';
+                    searchElementRef.current.blur();
+
+                    setSearch('');
+                    setFilter(initFilter);
+                }}
+            >
+                <IconFont
+                    iconName='#icon-GoX'
+                    style={{fontSize: '20px'}}
+                />
+            </Button>
+        </div>
+    );
+});
+
+export default SearchField;
\ No newline at end of file
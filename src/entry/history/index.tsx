@@ -0,0 +1,20 @@
+import React from 'react';
+import * as ReactDOMClient from 'react-dom/client';
+import { getMessage } from '../../public/i18n';
+import History from './App';
+import '../../styles/global.css';
+import '../collection/style.css';
+import './style.css';
+import scOptions from '../../public/sc-options';
+
+document.title = `${getMessage('historyTitle')} - ${getMessage('extName')}`;
+
+scOptions.init().then(() => {
+    document.documentElement.id = 'sc-translator-root';
+
+    const rootElement = document.getElementById('root');
+
+    rootElement && ReactDOMClient.createRoot(rootElement).render(
+        <History />
+    );
+});
\ No newline at end of file
@@ -18,6 +18,10 @@ import './style.css';
 import WebPageTranslating from './sections/WebPageTranslating';
 import TextPreprocessing from './sections/TextPreprocessing';
 import SyncSettings from './sections/SyncSettings';
+import Glossary from './sections/Glossary';
+import Credentials from './sections/Credentials';
+import LLMUsage from './sections/LLMUsage';
+import TypingTranslation from './sections/TypingTranslation';
 
 const Options: React.FC = () => {
     return (
@@ -39,16 +43,24 @@ const Options: React.FC = () => {
             <TranslatePanel />
             <div className='sub-title' id='default-translate-options'>{getMessage('optionsDefaultTranslateOptions')}</div>
             <DefaultTranslateOptions />
+            <div className='sub-title' id='glossary'>{getMessage('optionsGlossary')}</div>
+            <Glossary />
             <div className='sub-title' id='text-preprocessing'>{getMessage('optionsTextPreprocessing')}</div>
             <TextPreprocessing />
             <div className='sub-title' id='in-web-page'>{getMessage('optionsInWebPage')}</div>
             <Translate />
+            <div className='sub-title' id='typing-translation'>{getMessage('optionsTypingTranslation')}</div>
+            <TypingTranslation />
             <div className='sub-title' id='history'>{getMessage('optionsHistory')}</div>
             <History />
             <div className='sub-title' id='context-menus'>{getMessage('optionsContextMenus')}</div>
             <ContextMenus />
             <div className='sub-title' id='keyboard-shortcut'>{getMessage('optionsKeyboardShortcut')}</div>
             <KeyboardShortcut />
+            <div className='sub-title' id='llm-usage'>{getMessage('optionsLLMUsage')}</div>
+            <LLMUsage />
+            <div className='sub-title' id='credentials'>{getMessage('optionsCredentials')}</div>
+            <Credentials />
             <div className='sub-title' id='sync-settings'>{getMessage('optionsSyncSettings')}</div>
             <SyncSettings />
             <div className='sub-title' id='more'>{getMessage('optionsMore')}</div>
@@ -0,0 +1,115 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import Button from '../../../../components/Button';
+import TextField from '../../../../components/TextField';
+import { getMessage } from '../../../../public/i18n';
+import { useOptions } from '../../../../public/react-use';
+import { GetStorageKeys } from '../../../../types';
+import { isVaultSetUp, isVaultUnlocked, lockVault, resetVault, setUpVault, unlockVault } from '../../../../public/credential-vault';
+import ConfirmDelete from '../../../collection/components/ConfirmDelete';
+
+const useOptionsDependency: GetStorageKeys<
+    'credentialVault'
+> = [
+    'credentialVault'
+];
+
+const Credentials: React.FC = () => {
+    const [unlocked, setUnlocked] = useState(false);
+    const [passphrase, setPassphrase] = useState('');
+    const [confirmation, setConfirmation] = useState('');
+    const [errorMessage, setErrorMessage] = useState('');
+    const [pending, setPending] = useState(false);
+    const [confirmReset, setConfirmReset] = useState(false);
+
+    const sectionRef = useRef<HTMLDivElement>(null);
+
+    const { credentialVault } = useOptions(useOptionsDependency);
+
+    const setUp = isVaultSetUp(credentialVault);
+    const secretNames = Object.values({ ...credentialVault.secrets, ...credentialVault.plainSecrets }).map(({ name }) => name);
+    const plainSecretCount = Object.keys(credentialVault.plainSecrets).length;
+
+    const refreshUnlocked = useCallback(() => {
+        isVaultUnlocked().then(setUnlocked);
+    }, []);
+
+    useEffect(() => {
+        refreshUnlocked();
+
+        // Opened from the "unlock" link of a translation that needs a key.
+        window.location.hash === '#credentials' && sectionRef.current?.scrollIntoView();
+    }, [refreshUnlocked]);
+
+    const onPassphraseSubmit = useCallback(async () => {
+        if (!passphrase) { return; }
+
+        if (!setUp && passphrase !== confirmation) {
+            setErrorMessage(getMessage('optionsPassphraseMismatch'));
+            return;
+        }
+
+        setPending(true);
+
+        const succeeded = setUp ? await unlockVault(passphrase) : await setUpVault(passphrase).then(() => true);
+
+        setPending(false);
+        setErrorMessage(succeeded ? '' : getMessage('optionsWrongPassphrase'));
+
+        if (succeeded) {
+            setPassphrase('');
+            setConfirmation('');
+            refreshUnlocked();
+        }
+    }, [passphrase, confirmation, setUp, refreshUnlocked]);
+
+    return (
+        <div className='opt-section' ref={sectionRef}>
+            <div className='opt-section-row'>
+                <div className='item-description'>{getMessage('optionsCredentialsDescription')}</div>
+                <div>
+                    {!setUp ? getMessage('optionsCredentialsNotSetUp') : unlocked ? getMessage('optionsCredentialsUnlocked') : getMessage('optionsCredentialsLocked')}
+                </div>
+                {secretNames.length > 0 && <div className='item-description'>{secretNames.join(', ')}</div>}
+                {plainSecretCount > 0 && <div className='item-description'>
+                    {getMessage(setUp ? 'optionsCredentialsUnlockToEncrypt' : 'optionsCredentialsUnencrypted').replace('{count}', String(plainSecretCount))}
+                </div>}
+            </div>
+            {(!setUp || !unlocked) && <div className='opt-section-row'>
+                <TextField
+                    label={getMessage('optionsPassphrase')}
+                    type='password'
+                    value={passphrase}
+                    onChange={setPassphrase}
+                />
+                {!setUp && <TextField
+                    label={getMessage('optionsConfirmPassphrase')}
+                    type='password'
+                    value={confirmation}
+                    onChange={setConfirmation}
+                />}
+                {errorMessage && <div>{errorMessage}</div>}
+                <Button variant='outlined' disabled={!passphrase || pending} onClick={onPassphraseSubmit}>
+                    {setUp ? getMessage('optionsUnlock') : getMessage('optionsSetPassphrase')}
+                </Button>
+                {setUp && <Button variant='text' onClick={() => setConfirmReset(true)}>{getMessage('optionsResetCredentials')}</Button>}
+            </div>}
+            {setUp && unlocked && <div className='opt-section-row'>
+                <Button variant='outlined' onClick={() => lockVault().then(refreshUnlocked)}>
+                    {getMessage('optionsLock')}
+                </Button>
+            </div>}
+            {confirmReset && <ConfirmDelete
+                drawerTitle={getMessage('optionsResetCredentials')}
+                deleteList={secretNames}
+                onConfirm={() => {
+                    setConfirmReset(false);
+                    resetVault().then(refreshUnlocked);
+                }}
+                onCancel={() => setConfirmReset(false)}
+                onClose={() => setConfirmReset(false)}
+            />}
+        </div>
+    );
+};
+
+export default Credentials;
\ No newline at end of file
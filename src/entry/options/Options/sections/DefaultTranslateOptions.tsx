@@ -1,7 +1,7 @@
-import React from 'react';
+import React, { useMemo } from 'react';
 import Switch from '../../../../components/Switch';
 import { mtLangCode, preferredLangCode, userLangs } from '../../../../constants/langCode';
-import { translateSource } from '../../../../constants/translateSource';
+import { GOOGLE_COM, translateSource } from '../../../../constants/translateSource';
 import { getMessage } from '../../../../public/i18n';
 import { useOptions } from '../../../../public/react-use';
 import { GetStorageKeys } from '../../../../types';
@@ -12,6 +12,7 @@ import TranslationDisplay from '../../components/TranslationDisplay';
 import scOptions from '../../../../public/sc-options';
 import LanguageSelect from '../../../../components/LanguageSelect';
 import ThirdPartyServices from '../../components/ThirdPartServices';
+import SourceHealthIndicator from '../../components/SourceHealthIndicator';
 
 const useOptionsDependency: GetStorageKeys<
     'userLanguage' |
@@ -23,7 +24,10 @@ const useOptionsDependency: GetStorageKeys<
     'useDotCn' |
     'customTranslateSourceList' |
     'displayOfTranslation' |
-    'enabledThirdPartyServices'
+    'enabledThirdPartyServices' |
+    'webPageTranslateSource' |
+    'translateFallbackSourceList' |
+    'webPageTranslateFallbackSourceList'
 > = [
     'userLanguage',
     'preferredLanguage',
@@ -34,7 +38,10 @@ const useOptionsDependency: GetStorageKeys<
     'useDotCn',
     'customTranslateSourceList',
     'displayOfTranslation',
-    'enabledThirdPartyServices'
+    'enabledThirdPartyServices',
+    'webPageTranslateSource',
+    'translateFallbackSourceList',
+    'webPageTranslateFallbackSourceList'
 ];
 
 const DefaultTranslateOptions: React.FC = () => {
@@ -48,9 +55,16 @@ const DefaultTranslateOptions: React.FC = () => {
         useDotCn,
         customTranslateSourceList,
         displayOfTranslation,
-        enabledThirdPartyServices
+        enabledThirdPartyServices,
+        webPageTranslateSource,
+        translateFallbackSourceList,
+        webPageTranslateFallbackSourceList
     } = useOptions(useOptionsDependency);
 
+    const sources = useMemo(() => {
+        return translateSource.map(v => v.source).concat(customTranslateSourceList.map(v => v.source)).concat(enabledThirdPartyServices.map(v => v.source));
+    }, [customTranslateSourceList, enabledThirdPartyServices]);
+
     return (
         <div className='opt-section'>
             <div className='opt-section-row'>
@@ -102,7 +116,7 @@ const DefaultTranslateOptions: React.FC = () => {
                         customTranslateSources={customTranslateSourceList}
                         onChange={(value) => {
                             // If user delete the using custom sources, remove them from options(multipleTranslateSourceList/defaultTranslateSource).
-                            const availableSources = translateSource.concat(value).map(v => v.source).concat(enabledThirdPartyServices.map(v => v.name));
+                            const availableSources = translateSource.concat(value).map(v => v.source).concat(enabledThirdPartyServices.map(v => v.source));
                             scOptions.set({
                                 multipleTranslateSourceList: multipleTranslateSourceList.filter(v => availableSources.includes(v)),
                                 customTranslateSourceList: value
@@ -117,12 +131,21 @@ const DefaultTranslateOptions: React.FC = () => {
                 <div className='mt10-ml30'>
                     <ThirdPartyServices
                         enabledThirdPartyServices={enabledThirdPartyServices}
-                        onUpdateServices={services => scOptions.set({ enabledThirdPartyServices: services })}
-                        onDeleteService={(serviceName) => {
+                        onUpdateServices={(services) => {
+                            scOptions.set({ enabledThirdPartyServices: services });
+                            scOptions.setInit({ enabledThirdPartyServices: services });
+                        }}
+                        onDeleteService={(source) => {
+                            const services = enabledThirdPartyServices.filter(v => v.source !== source);
+
                             scOptions.set({
-                                enabledThirdPartyServices: enabledThirdPartyServices.filter(v => v.name !== serviceName),
-                                multipleTranslateSourceList: multipleTranslateSourceList.filter(v => v !== serviceName)
+                                enabledThirdPartyServices: services,
+                                multipleTranslateSourceList: multipleTranslateSourceList.filter(v => v !== source),
+                                translateFallbackSourceList: translateFallbackSourceList.filter(v => v !== source),
+                                webPageTranslateFallbackSourceList: webPageTranslateFallbackSourceList.filter(v => v !== source),
+                                webPageTranslateSource: webPageTranslateSource === source ? GOOGLE_COM : webPageTranslateSource
                             });
+                            scOptions.setInit({ enabledThirdPartyServices: services });
                         }}
                     />
                 </div>
@@ -133,11 +156,28 @@ const DefaultTranslateOptions: React.FC = () => {
                 <div className='mt10-ml30'>
                     <MultipleSourcesDisplay
                         enabledSources={multipleTranslateSourceList}
-                        sources={translateSource.map(v => v.source).concat(customTranslateSourceList.map(v => v.source)).concat(enabledThirdPartyServices.map(v => v.name))}
+                        sources={sources}
                         onChange={value => scOptions.set({ multipleTranslateSourceList: value })}
                     />
                 </div>
             </div>
+            <div className='opt-section-row'>
+                {getMessage('optionsFallbackSourceList')}
+                <div className='item-description'>{getMessage('optionsFallbackSourceListDescription')}</div>
+                <div className='mt10-ml30'>
+                    <MultipleSourcesDisplay
+                        enabledSources={translateFallbackSourceList}
+                        sources={sources}
+                        onChange={value => scOptions.set({ translateFallbackSourceList: value })}
+                    />
+                </div>
+                <div className='mt10-ml30'>
+                    {getMessage('optionsSourceHealth')}
+                    <div className='mt10-ml30'>
+                        <SourceHealthIndicator />
+                    </div>
+                </div>
+            </div>
             <div className='opt-section-row'>
                 {getMessage('optionsFrom')}
                 <LanguageSelect
@@ -0,0 +1,21 @@
+import React from 'react';
+import { getMessage } from '../../../../public/i18n';
+import BetaIcon from '../../components/BetaIcon';
+import GlossaryList from '../../components/Glossary';
+
+const Glossary: React.FC = () => {
+    return (
+        <div className='opt-section'>
+            <div className='opt-section-row'>
+                {getMessage('optionsGlossaryTerms')}
+                <BetaIcon />
+                <div className='item-description'>{getMessage('optionsGlossaryDescription')}</div>
+                <div className='mt10-ml30'>
+                    <GlossaryList />
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default Glossary;
\ No newline at end of file
@@ -5,26 +5,45 @@ import { useOptions } from '../../../../public/react-use';
 import { GetStorageKeys } from '../../../../types';
 import HostList from '../../components/HostList';
 import scOptions from '../../../../public/sc-options';
+import Radio from '../../../../components/Radio';
+import Button from '../../../../components/Button';
+
+const maxEntriesList = [0, 1000, 5000, 10000, 50000];
+const maxDaysList = [0, 7, 30, 90, 365];
 
 const useOptionsDependency: GetStorageKeys<
     'historyBlackListMode' |
     'historyHostList' |
-    'rememberHistoryPanelStatus'
+    'rememberHistoryPanelStatus' |
+    'historyMaxEntries' |
+    'historyMaxDays'
 > = [
     'historyBlackListMode',
     'historyHostList',
-    'rememberHistoryPanelStatus'
+    'rememberHistoryPanelStatus',
+    'historyMaxEntries',
+    'historyMaxDays'
 ];
 
 const History: React.FC = () => {
     const {
         historyBlackListMode,
         historyHostList,
-        rememberHistoryPanelStatus
+        rememberHistoryPanelStatus,
+        historyMaxEntries,
+        historyMaxDays
     } = useOptions(useOptionsDependency);
 
     return (
         <div className='opt-section'>
+            <div className='opt-section-row'>
+                <Button
+                    variant='outlined'
+                    onClick={() => chrome.tabs.create({ url: chrome.runtime.getURL('/history.html') })}
+                >
+                    {getMessage('historyOpenHistoryPage')}
+                </Button>
+            </div>
             <div className='opt-section-row'>
                 <Switch
                     label={getMessage('optionsRememberHistoryPanelStatus')}
@@ -48,6 +67,32 @@ const History: React.FC = () => {
                     />
                 </div>
             </div>
+            <div className='opt-section-row'>
+                {getMessage('optionsHistoryMaxEntries')}
+                <div className='mt10-ml30'>
+                    {maxEntriesList.map(value => (<Radio
+                        key={value}
+                        name='history-max-entries'
+                        value={value.toString()}
+                        label={value === 0 ? getMessage('optionsUnlimited') : value}
+                        checked={historyMaxEntries === value}
+                        onChange={() => scOptions.set({ historyMaxEntries: value })}
+                    />))}
+                </div>
+            </div>
+            <div className='opt-section-row'>
+                {getMessage('optionsHistoryMaxDays')}
+                <div className='mt10-ml30'>
+                    {maxDaysList.map(value => (<Radio
+                        key={value}
+                        name='history-max-days'
+                        value={value.toString()}
+                        label={value === 0 ? getMessage('optionsUnlimited') : value}
+                        checked={historyMaxDays === value}
+                        onChange={() => scOptions.set({ historyMaxDays: value })}
+                    />))}
+                </div>
+            </div>
         </div>
     );
 };
@@ -0,0 +1,76 @@
+import React from 'react';
+import Radio from '../../../../components/Radio';
+import TextField from '../../../../components/TextField';
+import { getMessage } from '../../../../public/i18n';
+import { useOptions } from '../../../../public/react-use';
+import scOptions from '../../../../public/sc-options';
+import { GetStorageKeys } from '../../../../types';
+import LLMModelPrices from '../../components/LLMModelPrices';
+import LLMUsageDashboard from '../../components/LLMUsageDashboard';
+
+const budgetActions: ['warn' | 'block', string][] = [
+    ['warn', 'optionsBudgetWarn'],
+    ['block', 'optionsBudgetBlock']
+];
+
+const useOptionsDependency: GetStorageKeys<
+    'llmModelPrices' |
+    'llmMonthlyBudget' |
+    'llmBudgetAction'
+> = [
+    'llmModelPrices',
+    'llmMonthlyBudget',
+    'llmBudgetAction'
+];
+
+const LLMUsage: React.FC = () => {
+    const {
+        llmModelPrices,
+        llmMonthlyBudget,
+        llmBudgetAction
+    } = useOptions(useOptionsDependency);
+
+    return (
+        <div className='opt-section'>
+            <div className='opt-section-row'>
+                <LLMUsageDashboard prices={llmModelPrices} monthlyBudget={llmMonthlyBudget} />
+            </div>
+            <div className='opt-section-row'>
+                {getMessage('optionsModelPrices')}
+                <div className='item-description'>{getMessage('optionsModelPricesDescription')}</div>
+                <div className='mt10-ml30'>
+                    <LLMModelPrices
+                        defaultPrices={scOptions.getInit().llmModelPrices}
+                        onChange={prices => scOptions.set({ llmModelPrices: prices })}
+                    />
+                </div>
+            </div>
+            <div className='opt-section-row'>
+                {getMessage('optionsMonthlyBudget')}
+                <div className='item-description'>{getMessage('optionsMonthlyBudgetDescription')}</div>
+                <div className='mt10-ml30'>
+                    <TextField
+                        label='USD'
+                        defaultValue={scOptions.getInit().llmMonthlyBudget > 0 ? scOptions.getInit().llmMonthlyBudget.toString() : ''}
+                        onChange={(value) => {
+                            const number = Number(value);
+                            !Number.isNaN(number) && scOptions.set({ llmMonthlyBudget: Math.max(number, 0) });
+                        }}
+                    />
+                    <div>
+                        {budgetActions.map(([value, message]) => (<Radio
+                            key={value}
+                            name='llm-budget-action'
+                            value={value}
+                            label={getMessage(message)}
+                            checked={llmBudgetAction === value}
+                            onChange={() => scOptions.set({ llmBudgetAction: value })}
+                        />))}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default LLMUsage;
\ No newline at end of file
@@ -0,0 +1,129 @@
+import React, { useMemo } from 'react';
+import Radio from '../../../../components/Radio';
+import SourceSelect from '../../../../components/SourceSelect';
+import Switch from '../../../../components/Switch';
+import TextField from '../../../../components/TextField';
+import LanguageSelect from '../../../../components/LanguageSelect';
+import { preferredLangCode } from '../../../../constants/langCode';
+import { BROWSER_AI, translateSource } from '../../../../constants/translateSource';
+import { getMessage } from '../../../../public/i18n';
+import { useOptions } from '../../../../public/react-use';
+import scOptions from '../../../../public/sc-options';
+import { GetStorageKeys } from '../../../../types';
+import BetaIcon from '../../components/BetaIcon';
+import HostLanguages from '../../components/HostLanguages';
+
+const TRIPLE_SPACE = '   ';
+
+const useOptionsDependency: GetStorageKeys<
+    'typingTranslate' |
+    'typingTranslateTrigger' |
+    'typingTranslateSource' |
+    'typingTranslateTo' |
+    'typingTranslateHostLanguages' |
+    'userLanguage' |
+    'customTranslateSourceList' |
+    'enabledThirdPartyServices'
+> = [
+    'typingTranslate',
+    'typingTranslateTrigger',
+    'typingTranslateSource',
+    'typingTranslateTo',
+    'typingTranslateHostLanguages',
+    'userLanguage',
+    'customTranslateSourceList',
+    'enabledThirdPartyServices'
+];
+
+const TypingTranslation: React.FC = () => {
+    const {
+        typingTranslate,
+        typingTranslateTrigger,
+        typingTranslateSource,
+        typingTranslateTo,
+        typingTranslateHostLanguages,
+        userLanguage,
+        customTranslateSourceList,
+        enabledThirdPartyServices
+    } = useOptions(useOptionsDependency);
+
+    // Browser AI translates in the page of the panel, the text boxes are translated in background.
+    const sourceList = useMemo(() => {
+        return translateSource.filter(v => v.source !== BROWSER_AI).concat(customTranslateSourceList, enabledThirdPartyServices.map(v => ({ source: v.source, url: '' })));
+    }, [customTranslateSourceList, enabledThirdPartyServices]);
+
+    const tripleSpace = typingTranslateTrigger === TRIPLE_SPACE;
+
+    return (
+        <div className='opt-section'>
+            <div className='opt-section-row'>
+                <div className='flex-align-items-center'>
+                    <Switch
+                        label={getMessage('optionsTypingTranslate')}
+                        checked={typingTranslate}
+                        onChange={v => scOptions.set({ typingTranslate: v })}
+                    />
+                    <BetaIcon />
+                </div>
+                <div className='item-description'>{getMessage('optionsTypingTranslateDescription')}</div>
+            </div>
+            <div className='opt-section-row'>
+                {getMessage('optionsTypingTranslateTrigger')}
+                <div className='mt10-ml30'>
+                    <Radio
+                        name='typing-translate-trigger'
+                        value='tripleSpace'
+                        label={getMessage('optionsTripleSpace')}
+                        checked={tripleSpace}
+                        onChange={() => scOptions.set({ typingTranslateTrigger: TRIPLE_SPACE })}
+                    />
+                    <Radio
+                        name='typing-translate-trigger'
+                        value='sequence'
+                        label={getMessage('optionsKeySequence')}
+                        checked={!tripleSpace}
+                        onChange={() => scOptions.set({ typingTranslateTrigger: '//' })}
+                    />
+                    {!tripleSpace && <TextField
+                        label={getMessage('optionsKeySequence')}
+                        placeholder='//'
+                        defaultValue={typingTranslateTrigger}
+                        onChange={value => value && scOptions.set({ typingTranslateTrigger: value })}
+                    />}
+                </div>
+            </div>
+            <div className='opt-section-row'>
+                {getMessage('optionsSource')}
+                <SourceSelect
+                    className='border-bottom-select opt-source-select'
+                    sourceList={sourceList}
+                    source={typingTranslateSource}
+                    onChange={value => scOptions.set({ typingTranslateSource: value })}
+                />
+            </div>
+            <div className='opt-section-row'>
+                {getMessage('optionsTo')}
+                <LanguageSelect
+                    value={typingTranslateTo}
+                    onChange={value => scOptions.set({ typingTranslateTo: value })}
+                    langCodes={preferredLangCode[userLanguage]}
+                />
+            </div>
+            <div className='opt-section-row'>
+                {getMessage('optionsLanguagesOfSites')}
+                <div className='item-description'>{getMessage('optionsLanguagesOfSitesDescription')}</div>
+                <div className='mt10-ml30'>
+                    <HostLanguages
+                        hostLanguages={typingTranslateHostLanguages}
+                        onChange={value => scOptions.set({ typingTranslateHostLanguages: value })}
+                        langCodes={preferredLangCode[userLanguage]}
+                        userLanguage={userLanguage}
+                        defaultLanguage={typingTranslateTo}
+                    />
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default TypingTranslation;
\ No newline at end of file
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useMemo } from 'react';
 import Checkbox from '../../../../components/Checkbox';
 import SourceSelect from '../../../../components/SourceSelect';
 import Switch from '../../../../components/Switch';
@@ -12,12 +12,17 @@ import CustomTranslateSourceDisplay from '../../components/CustomTranslateSource
 import HostList from '../../components/HostList';
 import WebPageTranslateDisplayMode from '../../components/WebPageTranslateDisplayMode';
 import CustomizeTranslation from '../../components/CustomizeTranslation';
-import Button from '../../../../components/Button';
-import scIndexedDB from '../../../../public/sc-indexed-db';
-import ConfirmDelete from '../../../collection/components/ConfirmDelete';
 import SpecifyRule from '../../components/SpecifyRule';
 import scOptions from '../../../../public/sc-options';
 import LanguageSelect from '../../../../components/LanguageSelect';
+import { getWebpageTranslateServiceSources } from '../../../../constants/thirdPartyServiceValues';
+import MultipleSourcesDisplay from '../../components/MultipleSourcesDisplay';
+import RateLimits from '../../components/RateLimits';
+import PageTranslationCache from '../../components/PageTranslationCache';
+import Radio from '../../../../components/Radio';
+
+const cacheMaxEntriesList = [0, 10000, 100000, 500000];
+const cacheMaxSizeList = [0, 20, 100, 500];
 
 const useOptionsDependency: GetStorageKeys<
     'webPageTranslateSource' |
@@ -34,7 +39,12 @@ const useOptionsDependency: GetStorageKeys<
     'comparisonCustomization' |
     'translateIframeContent' |
     'translateRedirectedSameDomainPage' |
-    'enablePageTranslationCache'
+    'enablePageTranslationCache' |
+    'pageTranslationCacheMaxEntries' |
+    'pageTranslationCacheMaxSize' |
+    'enabledThirdPartyServices' |
+    'webPageTranslateFallbackSourceList' |
+    'webPageTranslateRateLimits'
 > = [
     'webPageTranslateSource',
     'webPageTranslateTo',
@@ -50,7 +60,12 @@ const useOptionsDependency: GetStorageKeys<
     'comparisonCustomization',
     'translateIframeContent',
     'translateRedirectedSameDomainPage',
-    'enablePageTranslationCache'
+    'enablePageTranslationCache',
+    'pageTranslationCacheMaxEntries',
+    'pageTranslationCacheMaxSize',
+    'enabledThirdPartyServices',
+    'webPageTranslateFallbackSourceList',
+    'webPageTranslateRateLimits'
 ];
 
 const WebPageTranslating: React.FC = () => {
@@ -69,10 +84,17 @@ const WebPageTranslating: React.FC = () => {
         comparisonCustomization,
         translateIframeContent,
         translateRedirectedSameDomainPage,
-        enablePageTranslationCache
+        enablePageTranslationCache,
+        pageTranslationCacheMaxEntries,
+        pageTranslationCacheMaxSize,
+        enabledThirdPartyServices,
+        webPageTranslateFallbackSourceList,
+        webPageTranslateRateLimits
     } = useOptions(useOptionsDependency);
 
-    const [readyToClearCache, setReadyToClearCache] = useState(false);
+    const sourceList = useMemo(() => {
+        return webPageTranslateSourceList.concat(customWebpageTranslateSourceList, getWebpageTranslateServiceSources(enabledThirdPartyServices));
+    }, [customWebpageTranslateSourceList, enabledThirdPartyServices]);
 
     return (
         <div className='opt-section'>
@@ -104,7 +126,7 @@ const WebPageTranslating: React.FC = () => {
                     <CustomTranslateSourceDisplay
                         customTranslateSources={customWebpageTranslateSourceList}
                         onChange={(value) => {
-                            const availableSources = webPageTranslateSourceList.concat(value).map(v => v.source);
+                            const availableSources = webPageTranslateSourceList.concat(value, getWebpageTranslateServiceSources(enabledThirdPartyServices)).map(v => v.source);
                             scOptions.set({
                                 webPageTranslateSource: availableSources.includes(webPageTranslateSource) ? webPageTranslateSource : GOOGLE_COM,
                                 customWebpageTranslateSourceList: value
@@ -118,11 +140,33 @@ const WebPageTranslating: React.FC = () => {
                 {getMessage('optionsSource')}
                 <SourceSelect
                     className='border-bottom-select opt-source-select'
-                    sourceList={webPageTranslateSourceList.concat(customWebpageTranslateSourceList)}
+                    sourceList={sourceList}
                     source={webPageTranslateSource}
                     onChange={value => scOptions.set({ webPageTranslateSource: value })}
                 />
             </div>
+            <div className='opt-section-row'>
+                {getMessage('optionsFallbackSourceList')}
+                <div className='item-description'>{getMessage('optionsFallbackSourceListDescription')}</div>
+                <div className='mt10-ml30'>
+                    <MultipleSourcesDisplay
+                        enabledSources={webPageTranslateFallbackSourceList}
+                        sources={sourceList.map(v => v.source)}
+                        onChange={value => scOptions.set({ webPageTranslateFallbackSourceList: value })}
+                    />
+                </div>
+            </div>
+            <div className='opt-section-row'>
+                {getMessage('optionsRateLimits')}
+                <div className='item-description'>{getMessage('optionsRateLimitsDescription')}</div>
+                <div className='mt10-ml30'>
+                    <RateLimits
+                        sourceList={sourceList}
+                        rateLimits={webPageTranslateRateLimits}
+                        onChange={value => scOptions.set({ webPageTranslateRateLimits: value })}
+                    />
+                </div>
+            </div>
             <div className='opt-section-row'>
                 {getMessage('optionsTo')}
                 <LanguageSelect
@@ -294,22 +338,29 @@ const WebPageTranslating: React.FC = () => {
                     {getMessage('optionsEnablePageTranslationCacheDescription')}
                 </div>
                 <div className='mt10-ml30'>
-                    <Button
-                        variant='outlined'
-                        onClick={() => setReadyToClearCache(true)}
-                    >
-                        {getMessage('optionsClearTranslationCache')}
-                    </Button>
-                    {readyToClearCache && <ConfirmDelete
-                        onConfirm={() => {
-                            scIndexedDB.clear('page-translation-cache');
-
-                            setReadyToClearCache(false);
-                        }}
-                        onCancel={() => setReadyToClearCache(false)}
-                        onClose={() => setReadyToClearCache(false)}
-                        drawerTitle={getMessage('optionsConfirmClearTranslationCache')}
-                    />}
+                    {getMessage('optionsCacheMaxEntries')}
+                    <div>
+                        {cacheMaxEntriesList.map(value => (<Radio
+                            key={value}
+                            name='page-translation-cache-max-entries'
+                            value={value.toString()}
+                            label={value === 0 ? getMessage('optionsUnlimited') : value.toLocaleString()}
+                            checked={pageTranslationCacheMaxEntries === value}
+                            onChange={() => scOptions.set({ pageTranslationCacheMaxEntries: value })}
+                        />))}
+                    </div>
+                    {getMessage('optionsCacheMaxSize')}
+                    <div>
+                        {cacheMaxSizeList.map(value => (<Radio
+                            key={value}
+                            name='page-translation-cache-max-size'
+                            value={value.toString()}
+                            label={value === 0 ? getMessage('optionsUnlimited') : `${value} MB`}
+                            checked={pageTranslationCacheMaxSize === value}
+                            onChange={() => scOptions.set({ pageTranslationCacheMaxSize: value })}
+                        />))}
+                    </div>
+                    <PageTranslationCache />
                 </div>
             </div>
             <div className='opt-section-row'>
@@ -2,11 +2,17 @@ import React, { useCallback, useEffect, useRef, useState } from 'react';
 import Button from '../../../../components/Button';
 import IconFont from '../../../../components/IconFont';
 import { getMessage } from '../../../../public/i18n';
-import { checkResultFromCustomSource } from '../../../../public/translate/custom/check-result';
-import { checkResultFromCustomWebpageTranslatSource } from '../../../../public/web-page-translate/custom/check-result';
+import { getError } from '../../../../public/translate/utils';
+import { translateByCustomSource } from '../../../../public/translate/custom/translate';
+import { translateByCustomSource as translateWebpageByCustomSource } from '../../../../public/web-page-translate/custom/translate';
+import { defaultCustomSourceDefinition, defaultCustomWebpageSourceDefinition, isCustomSourceDefinition } from '../../../../public/translate/custom/definition';
 import { CustomTranslateSource } from '../../../../types';
 import './style.css';
 import scOptions from '../../../../public/sc-options';
+import TextField from '../../../../components/TextField';
+import { createSecretId, deleteSecrets, SecretEntry, setSecrets } from '../../../../public/credential-vault';
+
+const SECRET_MASK = '******';
 
 type CustomTranslateSourceDisplayProps = {
     customTranslateSources: CustomTranslateSource[];
@@ -19,6 +25,8 @@ const CustomTranslateSourceDisplay: React.FC<CustomTranslateSourceDisplayProps>
     const [updated, setUpdated] = useState(false);
     const [customSources, setCustomSources] = useState<CustomTranslateSource[]>([]);
     const [message, setMessage] = useState('');
+    const [editing, setEditing] = useState<{ index: number; definition: string; secrets: string; } | null>(null);
+    const [pendingSource, setPendingSource] = useState<Pick<CustomTranslateSource, 'definition' | 'secrets'>>({});
 
     const urlInputRef = useRef<HTMLInputElement>(null);
     const nameInputRef = useRef<HTMLInputElement>(null);
@@ -48,17 +56,23 @@ const CustomTranslateSourceDisplay: React.FC<CustomTranslateSourceDisplayProps>
 
             const id = testDataRef.current.id;
 
-            testCustomSource(url, webpage).then(() => {
+            const nextSource: CustomTranslateSource = {
+                url,
+                name,
+                source: window.btoa(Number(new Date()).toString() + Math.floor(Math.random() * 10000).toString()),
+                // Saved with the definition it speaks, sources without one are taken for sources from before 5.10.0.
+                definition: webpage ? defaultCustomWebpageSourceDefinition : defaultCustomSourceDefinition,
+                ...pendingSource
+            };
+
+            testCustomSource(nextSource, webpage).then(() => {
                 if (!urlInputRef.current || !nameInputRef.current || testDataRef.current.id !== id) { return; }
 
-                setCustomSources(customSources.concat({
-                    url,
-                    name,
-                    source: window.btoa(Number(new Date()).toString() + Math.floor(Math.random() * 10000).toString())
-                }));
+                setCustomSources(customSources.concat(nextSource));
 
                 setUpdated(true);
                 setMessage('');
+                setPendingSource({});
 
                 urlInputRef.current.value = '';
                 nameInputRef.current.value = '';
@@ -78,22 +92,117 @@ const CustomTranslateSourceDisplay: React.FC<CustomTranslateSourceDisplayProps>
         catch (err) {
             setMessage(`Error: ${(err as Error).message}`);
         }
-    }, [customSources, webpage]);
+    }, [customSources, webpage, pendingSource]);
+
+    const onApplyDefinitionBtnClick = useCallback(async () => {
+        if (!editing) { return; }
+
+        let definition: unknown;
+
+        try {
+            definition = JSON.parse(editing.definition);
+        }
+        catch (err) {
+            setMessage(`Error: ${(err as Error).message}`);
+            return;
+        }
+
+        if (!isCustomSourceDefinition(definition)) {
+            setMessage(getMessage('optionsInvalidDefinition'));
+            return;
+        }
+
+        const { secrets: storedSecrets = {} } = editing.index === -1 ? pendingSource : customSources[editing.index];
+        const sourceName = editing.index === -1 ? (nameInputRef.current?.value || 'Custom source') : customSources[editing.index].name;
+
+        const secrets: { [name: string]: string; } = {};
+        const entries: SecretEntry[] = [];
+
+        editing.secrets.split('\n').forEach((line) => {
+            const index = line.indexOf('=');
+
+            if (index <= 0) { return; }
+
+            const name = line.substring(0, index).trim();
+            const value = line.substring(index + 1).trim();
+
+            // Stored secrets are shown masked, keeping the mask keeps them.
+            if (value === SECRET_MASK && storedSecrets[name]) {
+                secrets[name] = storedSecrets[name];
+                return;
+            }
+
+            secrets[name] = createSecretId();
+            entries.push({ id: secrets[name], name: `${sourceName} {secret:${name}}`, value });
+        });
+
+        try {
+            await setSecrets(entries);
+        }
+        catch (err) {
+            setMessage(getMessage(`errorCode_${(err as ReturnType<typeof getError>).code}`));
+            return;
+        }
+
+        if (editing.index === -1) {
+            setPendingSource({ definition, secrets });
+            setEditing(null);
+            setMessage('');
+            return;
+        }
+
+        const nextSource = { ...customSources[editing.index], definition, secrets };
+        const id = ++testDataRef.current.id;
+
+        setMessage(`URL: ${nextSource.url} ${getMessage('wordRequesting')}`);
+
+        testCustomSource(nextSource, webpage).then(() => {
+            if (testDataRef.current.id !== id) { return; }
+
+            setCustomSources(customSources.map((value, i) => (i === editing.index ? nextSource : value)));
+            setUpdated(true);
+            setEditing(null);
+            setMessage('');
+        }).catch((err) => {
+            if (testDataRef.current.id !== id) { return; }
+
+            setMessage((err as Error).message);
+        });
+    }, [editing, customSources, webpage, pendingSource]);
+
+    const onEditBtnClick = useCallback((index: number) => {
+        const { definition, secrets } = index === -1 ? pendingSource : customSources[index];
+
+        setEditing({
+            index,
+            definition: JSON.stringify(definition ?? (webpage ? defaultCustomWebpageSourceDefinition : defaultCustomSourceDefinition), null, 4),
+            secrets: Object.keys(secrets ?? {}).map(name => `${name}=${SECRET_MASK}`).join('\n')
+        });
+        setMessage('');
+    }, [customSources, pendingSource, webpage]);
 
     const onSaveBtnClick = useCallback(() => {
+        const secretIds = new Set(customSources.flatMap(({ secrets }) => Object.values(secrets ?? {})));
+
+        deleteSecrets(customTranslateSources.flatMap(({ secrets }) => Object.values(secrets ?? {})).filter(id => !secretIds.has(id)));
+
         onChange(customSources);
         scOptions.setInit({ ...scOptions.getInit(), [webpage ? 'customWebpageTranslateSourceList' : 'customTranslateSourceList']: customSources });
 
         setModifying(false);
         setUpdated(false);
         setMessage('');
+        setEditing(null);
+        setPendingSource({});
         testDataRef.current = { id: testDataRef.current.id + 1, url: '' };
-    }, [onChange, customSources, webpage]);
+    }, [onChange, customSources, customTranslateSources, webpage]);
 
     const onCancelBtnClick = useCallback(() => {
         setUpdated(false);
         setModifying(false);
         setMessage('');
+        setEditing(null);
+        setPendingSource({});
         setCustomSources(customTranslateSources);
         testDataRef.current = { id: testDataRef.current.id + 1, url: '' };
     }, [customTranslateSources]);
@@ -110,11 +219,15 @@ const CustomTranslateSourceDisplay: React.FC<CustomTranslateSourceDisplayProps>
                     <input value={url} disabled type='text' />
                     <input value={name} disabled type='text' />
                     {modifying && <div>
+                        <Button variant='icon' onClick={() => onEditBtnClick(i)}>
+                            <IconFont iconName='#icon-edit' />
+                        </Button>
                         <Button
                             variant='icon'
                             onClick={() => {
                                 setCustomSources(customSources.filter((value, j) => (i !== j)));
                                 setUpdated(true);
+                                setEditing(null);
                             }}
                         >
                             <IconFont iconName='#icon-MdDelete' />
@@ -125,11 +238,36 @@ const CustomTranslateSourceDisplay: React.FC<CustomTranslateSourceDisplayProps>
                     <input ref={urlInputRef} type='text' placeholder={getMessage('optionsURLCanNotBeEmpty')} />
                     <input ref={nameInputRef} type='text' placeholder='Custom source' />
                     <div>
+                        <Button variant='icon' onClick={() => onEditBtnClick(-1)}>
+                            <IconFont iconName='#icon-edit' />
+                        </Button>
                         <Button variant='icon' onClick={onAddBtnClick}>
                             <IconFont iconName='#icon-MdAdd' />
                         </Button>
                     </div>
                 </div>}
+                {modifying && editing && <div className='custom-translate-source__definition'>
+                    <TextField
+                        label={getMessage('optionsCustomSourceDefinition')}
+                        value={editing.definition}
+                        onChange={definition => setEditing({ ...editing, definition })}
+                        helperText={getMessage('optionsCustomSourceDefinitionHelperText')}
+                        multiline
+                        rows={12}
+                    />
+                    <TextField
+                        label={getMessage('optionsCustomSourceSecrets')}
+                        value={editing.secrets}
+                        onChange={secrets => setEditing({ ...editing, secrets })}
+                        helperText={getMessage('optionsCustomSourceSecretsHelperText')}
+                        multiline
+                        rows={3}
+                    />
+                    <div>
+                        <Button variant='text' onClick={onApplyDefinitionBtnClick}>{getMessage('optionsApplyDefinition')}</Button>
+                        <Button variant='text' onClick={() => setEditing(null)}>{getMessage('wordCancel')}</Button>
+                    </div>
+                </div>}
                 {message && <div>{message}</div>}
                 {modifying && <div>
                     <Button variant='contained' disabled={!updated} onClick={onSaveBtnClick}>{getMessage('wordSave')}</Button>
@@ -140,34 +278,29 @@ const CustomTranslateSourceDisplay: React.FC<CustomTranslateSourceDisplayProps>
     );
 };
 
-const testCustomSource = async (url: string, webpage?: boolean) => {
-    const fetchJSON = webpage ? {
-        paragraphs: [
-            ["This ", "is", " a sentence."],
-            ["This ", "is another sentence."]
-        ],
-        targetLanguage: 'en'
-    } : {
-        text: 'test',
-        from: 'auto',
-        to: 'en',
-        userLang: navigator.language,
-        preferred: [scOptions.getInit().preferredLanguage, scOptions.getInit().secondPreferredLanguage]
-    };
-
-    const res = await fetch(url, {
-        method: 'POST',
-        headers: {
-            'Content-Type': 'application/json'
-        },
-        body: JSON.stringify(fetchJSON)
-    }).catch(() => { throw new Error('Error: Connection timed out.'); });
-
-    if (!res.ok) { throw new Error(`Error: Bad request(http code: ${res.status}).`); }
-
-    const data = await res.json();
-
-    webpage ? checkResultFromCustomWebpageTranslatSource(data) : checkResultFromCustomSource(data);
+// Custom sources are tested by the same functions that translate with them.
+const testCustomSource = async (customTranslateSource: CustomTranslateSource, webpage?: boolean) => {
+    const { preferredLanguage, secondPreferredLanguage } = scOptions.getInit();
+
+    try {
+        webpage ? await translateWebpageByCustomSource({
+            paragraphs: [
+                ["This ", "is", " a sentence."],
+                ["This ", "is another sentence."]
+            ],
+            keys: ['This is a sentence.', 'This is another sentence.'],
+            targetLanguage: 'en'
+        }, customTranslateSource) : await translateByCustomSource({
+            text: 'test',
+            from: '',
+            to: 'en',
+            preferredLanguage,
+            secondPreferredLanguage
+        }, customTranslateSource);
+    }
+    catch (err) {
+        throw new Error((err as ReturnType<typeof getError>).code ?? (err as Error).message);
+    }
 };
 
 export default CustomTranslateSourceDisplay;
\ No newline at end of file
@@ -6,20 +6,25 @@ import { getMessage } from '../../../../public/i18n';
 import scFile from '../../../../public/sc-file';
 import { SyncOptions } from '../../../../types';
 import scOptions from '../../../../public/sc-options';
+import Checkbox from '../../../../components/Checkbox';
+import { getMissingSecrets, isVaultSetUp } from '../../../../public/credential-vault';
 
 const FileSync: React.FC = () => {
     const [errorMessage, setErrorMessage] = useState('');
+    const [missingSecrets, setMissingSecrets] = useState<string[]>([]);
+    const [includeCredentials, setIncludeCredentials] = useState(false);
 
     return (
         <div>
             <Button
                 variant='outlined'
                 onClick={async () => {
-                    const { sourceParamsCache, ...options } = await scOptions.get(null);
+                    const { sourceParamsCache, credentialVault, ...options } = await scOptions.get(null);
 
                     const syncOptions: SyncOptions = options;
 
-                    scFile.saveAs(syncOptions, 'settings');
+                    // Only encrypted secrets may be exported, and only when asked for.
+                    includeCredentials && isVaultSetUp(credentialVault) ? scFile.saveAs({ ...syncOptions, credentialVault: { ...credentialVault, plainSecrets: {} } }, 'settings') : scFile.saveAs(syncOptions, 'settings');
                 }}
             >
                 <IconFont
@@ -39,6 +44,7 @@ const FileSync: React.FC = () => {
 
                             scOptions.set(newStorage);
 
+                            setMissingSecrets(getMissingSecrets(await scOptions.get(['credentialVault', 'enabledThirdPartyServices', 'customTranslateSourceList', 'customWebpageTranslateSourceList'])));
                             setErrorMessage('');
                         }
                         catch (err) {
@@ -54,7 +60,13 @@ const FileSync: React.FC = () => {
                 />
                 {getMessage('optionsImportSettings')}
             </Button>
+            <Checkbox
+                label={getMessage('optionsIncludeEncryptedCredentials')}
+                checked={includeCredentials}
+                onChange={setIncludeCredentials}
+            />
             {errorMessage && <div>{errorMessage}</div>}
+            {missingSecrets.length > 0 && <div>{getMessage('optionsSecretsToReenter')}{missingSecrets.join(', ')}</div>}
         </div>
     )
 };
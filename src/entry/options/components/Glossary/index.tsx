@@ -0,0 +1,298 @@
+import React, { startTransition, useCallback, useLayoutEffect, useMemo, useState } from 'react';
+import scIndexedDB, { DB_STORE_GLOSSARY, StoreGlossaryValue } from '../../../../public/sc-indexed-db';
+import Button from '../../../../components/Button';
+import { useEffectOnce } from '../../../../public/react-use';
+import TextField from '../../../../components/TextField';
+import './style.css';
+import IconFont from '../../../../components/IconFont';
+import Checkbox from '../../../../components/Checkbox';
+import ConfirmDelete from '../../../collection/components/ConfirmDelete';
+import { getMessage } from '../../../../public/i18n';
+import scFile from '../../../../public/sc-file';
+import LanguageSelect from '../../../../components/LanguageSelect';
+import { mtLangCode } from '../../../../constants/langCode';
+import scOptions from '../../../../public/sc-options';
+import type { GlossaryEntry } from '../../../../public/glossary';
+
+const Glossary: React.FC = () => {
+    const [entries, setEntries] = useState<StoreGlossaryValue[]>([]);
+    const [addingEntry, setAddingEntry] = useState(false);
+    const [editingValue, setEditingValue] = useState<StoreGlossaryValue | undefined>(undefined);
+    const [checkedItems, setCheckedItems] = useState<Set<StoreGlossaryValue>>(new Set());
+    const [confirmDelete, setConfirmDelete] = useState(false);
+    const [search, setSearch] = useState('');
+    const [filteredEntries, setFilteredEntries] = useState<StoreGlossaryValue[]>([]);
+
+    const langNames = useMemo(() => {
+        return mtLangCode[scOptions.getInit().userLanguage].reduce<{ [K: string]: string; }>((t, c) => ({ ...t, [c.code]: c.name }), {});
+    }, []);
+
+    const refreshValue = useCallback(() => {
+        scIndexedDB.getAll(DB_STORE_GLOSSARY).then((value) => {
+            setEntries(value);
+        });
+    }, []);
+
+    useEffectOnce(() => {
+        refreshValue();
+    });
+
+    useLayoutEffect(() => {
+        startTransition(() => {
+            const processedSearch = search.trimStart().trimEnd().toLowerCase();
+            if (processedSearch) {
+                setFilteredEntries(entries.filter(({ source, target }) => (source.toLowerCase().includes(processedSearch) || target.toLowerCase().includes(processedSearch))));
+            }
+            else {
+                setFilteredEntries(entries);
+            }
+        });
+    }, [search, entries]);
+
+    return (
+        <div className='glossary'>
+            <div className='glossary__bar'>
+                <Checkbox
+                    checked={entries.length > 0 && checkedItems.size === entries.length}
+                    indeterminate={checkedItems.size > 0}
+                    onChange={() => checkedItems.size === 0 ? setCheckedItems(new Set(filteredEntries)) : setCheckedItems(new Set())}
+                />
+                {checkedItems.size > 0 ? <div>
+                    <Button variant='icon' onClick={() => setConfirmDelete(true)}>
+                        <IconFont iconName='#icon-MdDelete' style={{fontSize: '24px'}} />
+                    </Button>
+                </div> : <TextField
+                    placeholder={getMessage('optionsSearchGlossary')}
+                    value={search}
+                    onChange={setSearch}
+                    type='search'
+                />}
+            </div>
+            <div className='glossary__list'>
+                {filteredEntries.map((value) => (<div className='glossary__list__item' key={value.id}>
+                    <Checkbox
+                        checked={checkedItems.has(value)}
+                        onChange={(checked) => {
+                            const nextCheckedItems = new Set(checkedItems);
+                            checked ? nextCheckedItems.add(value) : nextCheckedItems.delete(value);
+                            setCheckedItems(nextCheckedItems);
+                        }}
+                    />
+                    <div
+                        className='glossary__list__item__term'
+                        onClick={() => {
+                            setEditingValue(value);
+                            setAddingEntry(true);
+                            setCheckedItems(new Set());
+                        }}
+                    >
+                        <div>
+                            {value.source}
+                            <span className='glossary__list__item__arrow'>→</span>
+                            {value.doNotTranslate ? <i>{getMessage('optionsDoNotTranslate')}</i> : value.target}
+                        </div>
+                        <div className='glossary__list__item__language'>
+                            {`${langNames[value.from] ?? value.from} → ${langNames[value.to] ?? value.to}`}
+                            {value.caseSensitive && ' Aa'}
+                        </div>
+                        <Button variant='icon'>
+                            <IconFont iconName='#icon-edit' style={{fontSize: '24px'}} />
+                        </Button>
+                    </div>
+                </div>))}
+            </div>
+            {addingEntry && <AddEntry
+                onAdd={(value) => {
+                    scIndexedDB.add(DB_STORE_GLOSSARY, value).then(() => {
+                        setAddingEntry(false);
+                        setEditingValue(undefined);
+                        refreshValue();
+                    });
+                }}
+                value={editingValue}
+                onClose={() => {
+                    setAddingEntry(false);
+                    setEditingValue(undefined);
+                }}
+            />}
+            {confirmDelete && <ConfirmDelete
+                onConfirm={() => {
+                    scIndexedDB.delete(DB_STORE_GLOSSARY, [...checkedItems.values()].map(v => v.id)).then(refreshValue);
+
+                    setCheckedItems(new Set());
+                    setConfirmDelete(false);
+                }}
+                onCancel={() => setConfirmDelete(false)}
+                onClose={() => setConfirmDelete(false)}
+                drawerTitle={getMessage('collectionConfirmingDelete')}
+                deleteList={[...checkedItems.values()].map(v => v.source)}
+            />}
+            <div className='glossary__footer'>
+                <div>
+                    <Button
+                        variant='text'
+                        onClick={() => scFile.saveAs(entries.map(({ id, ...entry }) => (entry)), 'glossary')}
+                    >
+                        <IconFont
+                            iconName='#icon-export'
+                            style={{fontSize: '24px', marginRight: '5px'}}
+                        />
+                        {getMessage('wordExport')}
+                    </Button>
+                    <Button
+                        variant='text'
+                        onClick={() => {
+                            scFile.open(async (file) => {
+                                try {
+                                    const existingEntrySet = new Set(entries.map(getEntryIdentity));
+                                    const data: GlossaryEntry[] = await scFile.read(file);
+
+                                    if (!Array.isArray(data)) { return; }
+
+                                    const qualifiedEntries: GlossaryEntry[] = [];
+                                    data.forEach((entry) => {
+                                        if (!entry || typeof entry.source !== 'string' || !entry.source.trim()) { return; }
+
+                                        const nextEntry: GlossaryEntry = {
+                                            source: entry.source,
+                                            target: typeof entry.target === 'string' ? entry.target : '',
+                                            from: typeof entry.from === 'string' ? entry.from : '',
+                                            to: typeof entry.to === 'string' ? entry.to : '',
+                                            caseSensitive: !!entry.caseSensitive,
+                                            doNotTranslate: !!entry.doNotTranslate
+                                        };
+
+                                        if (!nextEntry.doNotTranslate && !nextEntry.target) { return; }
+
+                                        const identity = getEntryIdentity(nextEntry);
+                                        if (existingEntrySet.has(identity)) { return; }
+
+                                        existingEntrySet.add(identity);
+                                        qualifiedEntries.push(nextEntry);
+                                    });
+
+                                    scIndexedDB.addAll(DB_STORE_GLOSSARY, qualifiedEntries).then(() => {
+                                        setAddingEntry(false);
+                                        setEditingValue(undefined);
+                                        refreshValue();
+                                    });
+                                }
+                                catch {}
+                            });
+                        }}
+                    >
+                        <IconFont
+                            iconName='#icon-import'
+                            style={{fontSize: '24px', marginRight: '5px'}}
+                        />
+                        {getMessage('wordImport')}
+                    </Button>
+                </div>
+                <div>
+                    <Button
+                        variant='text'
+                        onClick={() => {
+                            setAddingEntry(true);
+                            setCheckedItems(new Set());
+                        }}
+                    >
+                        {getMessage('optionsAddTerm')}
+                    </Button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+const getEntryIdentity = ({ source, from, to, caseSensitive }: GlossaryEntry) => {
+    return JSON.stringify([caseSensitive ? source : source.toLowerCase(), from, to]);
+};
+
+type AddEntryProps = {
+    onAdd: (value: GlossaryEntry & { id?: number; }) => void;
+    value?: StoreGlossaryValue;
+    onClose: () => void;
+};
+
+const AddEntry: React.FC<AddEntryProps> = ({ onAdd, value, onClose }) => {
+    const [sourceText, setSourceText] = useState(value?.source ?? '');
+    const [targetText, setTargetText] = useState(value?.target ?? '');
+    const [from, setFrom] = useState(value?.from ?? '');
+    const [to, setTo] = useState(value?.to ?? '');
+    const [caseSensitive, setCaseSensitive] = useState(value?.caseSensitive ?? false);
+    const [doNotTranslate, setDoNotTranslate] = useState(value?.doNotTranslate ?? false);
+
+    const langCodes = useMemo(() => mtLangCode[scOptions.getInit().userLanguage], []);
+
+    return (
+        <div className='add-glossary-entry'>
+            <div style={{textAlign: 'right', margin: '4px'}}>
+                <Button variant='icon' onClick={onClose}>
+                    <IconFont iconName='#icon-GoX' style={{fontSize: '20px'}} />
+                </Button>
+            </div>
+            <TextField
+                label={getMessage('optionsSourceTerm')}
+                defaultValue={sourceText}
+                onChange={setSourceText}
+                required
+            />
+            {!doNotTranslate && <TextField
+                label={getMessage('optionsTargetTerm')}
+                defaultValue={targetText}
+                onChange={setTargetText}
+                required
+            />}
+            <div className='add-glossary-entry__languages'>
+                {getMessage('optionsFrom')}
+                <LanguageSelect
+                    className='border-bottom-select'
+                    value={from}
+                    onChange={setFrom}
+                    langCodes={langCodes}
+                />
+                {getMessage('optionsTo')}
+                <LanguageSelect
+                    className='border-bottom-select'
+                    value={to}
+                    onChange={setTo}
+                    langCodes={langCodes}
+                />
+            </div>
+            <div className='add-glossary-entry__flags'>
+                <Checkbox
+                    label={getMessage('optionsCaseSensitive')}
+                    checked={caseSensitive}
+                    onChange={setCaseSensitive}
+                />
+                <Checkbox
+                    label={getMessage('optionsDoNotTranslate')}
+                    checked={doNotTranslate}
+                    onChange={setDoNotTranslate}
+                />
+            </div>
+            <Button
+                variant='text'
+                disabled={!sourceText.trim() || (!doNotTranslate && !targetText.trim())}
+                onClick={() => {
+                    const source = sourceText.trim();
+                    const target = doNotTranslate ? '' : targetText.trim();
+
+                    if (!source || (!doNotTranslate && !target)) { return; }
+
+                    const nextValue: Parameters<typeof onAdd>[0] = { source, target, from, to, caseSensitive, doNotTranslate };
+
+                    if (value?.id !== undefined) {
+                        nextValue.id = value.id;
+                    }
+
+                    onAdd(nextValue);
+                }}
+            >
+                {value?.id !== undefined ? getMessage('optionsUpdateTerm') : getMessage('optionsAddTerm')}
+            </Button>
+        </div>
+    );
+};
+
+export default Glossary;
\ No newline at end of file
@@ -0,0 +1,68 @@
+import React, { useState } from 'react';
+import Button from '../../../../components/Button';
+import IconFont from '../../../../components/IconFont';
+import LanguageSelect from '../../../../components/LanguageSelect';
+import TextField from '../../../../components/TextField';
+import { langCodeI18n, LangCodes } from '../../../../constants/langCode';
+import { getMessage } from '../../../../public/i18n';
+import './style.css';
+
+type HostLanguagesProps = {
+    hostLanguages: { [host: string]: string; };
+    onChange: (hostLanguages: { [host: string]: string; }) => void;
+    langCodes: LangCodes;
+    userLanguage: string;
+    defaultLanguage: string;
+};
+
+// Sites with their own language, the others use "defaultLanguage".
+const HostLanguages: React.FC<HostLanguagesProps> = ({ hostLanguages, onChange, langCodes, userLanguage, defaultLanguage }) => {
+    const [host, setHost] = useState('');
+    const [language, setLanguage] = useState(defaultLanguage);
+
+    const trimmedHost = host.trim();
+
+    return (
+        <div className='host-languages'>
+            <div className='host-languages__add'>
+                <TextField
+                    label={getMessage('optionsHost')}
+                    placeholder={getMessage('optionsEnterDomainNameHere')}
+                    value={host}
+                    onChange={setHost}
+                />
+                <LanguageSelect
+                    className='border-bottom-select'
+                    value={language}
+                    onChange={setLanguage}
+                    langCodes={langCodes}
+                />
+                <Button
+                    variant='icon'
+                    disabled={!trimmedHost}
+                    onClick={() => {
+                        onChange({ ...hostLanguages, [trimmedHost]: language });
+                        setHost('');
+                    }}
+                >
+                    <IconFont iconName='#icon-MdAdd' />
+                </Button>
+            </div>
+            {Object.entries(hostLanguages).map(([host, language]) => (<div key={host} className='host-languages__item'>
+                <span>{host}</span>
+                <span>{langCodeI18n[userLanguage][language] ?? language}</span>
+                <IconFont
+                    className='button'
+                    iconName='#icon-GoX'
+                    onClick={() => {
+                        const nextHostLanguages = { ...hostLanguages };
+                        delete nextHostLanguages[host];
+                        onChange(nextHostLanguages);
+                    }}
+                />
+            </div>))}
+        </div>
+    );
+};
+
+export default HostLanguages;
\ No newline at end of file
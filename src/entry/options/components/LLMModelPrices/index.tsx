@@ -0,0 +1,74 @@
+import React, { useRef, useState } from 'react';
+import Button from '../../../../components/Button';
+import IconFont from '../../../../components/IconFont';
+import TextField from '../../../../components/TextField';
+import { getMessage } from '../../../../public/i18n';
+import { LLMModelPrice } from '../../../../types';
+import './style.css';
+
+type PriceRow = {
+    id: number;
+    model: string;
+    input: string;
+    output: string;
+};
+
+type LLMModelPricesProps = {
+    // Rows are taken from it once, typing must not be reset by the saved values.
+    defaultPrices: LLMModelPrice[];
+    onChange: (prices: LLMModelPrice[]) => void;
+};
+
+// Only rows with a model name are saved.
+const LLMModelPrices: React.FC<LLMModelPricesProps> = ({ defaultPrices, onChange }) => {
+    const idRef = useRef(0);
+
+    const [rows, setRows] = useState<PriceRow[]>(() => defaultPrices.map(({ model, input, output }) => ({ id: ++idRef.current, model, input: input.toString(), output: output.toString() })));
+
+    const updateRows = (nextRows: PriceRow[]) => {
+        setRows(nextRows);
+
+        onChange(nextRows.filter(({ model }) => model.trim()).map(({ model, input, output }) => ({
+            model: model.trim(),
+            input: Math.max(Number(input) || 0, 0),
+            output: Math.max(Number(output) || 0, 0)
+        })));
+    };
+
+    const updateRow = (id: number, key: Exclude<keyof PriceRow, 'id'>, value: string) => {
+        updateRows(rows.map(row => (row.id === id ? { ...row, [key]: value } : row)));
+    };
+
+    return (
+        <div className='llm-model-prices'>
+            {rows.map(({ id, model, input, output }) => (<div className='llm-model-prices__row' key={id}>
+                <TextField
+                    label='Model'
+                    defaultValue={model}
+                    onChange={value => updateRow(id, 'model', value)}
+                />
+                <TextField
+                    label={getMessage('optionsInputPrice')}
+                    defaultValue={input}
+                    error={!!input.trim() && !(Number(input) >= 0)}
+                    onChange={value => updateRow(id, 'input', value)}
+                />
+                <TextField
+                    label={getMessage('optionsOutputPrice')}
+                    defaultValue={output}
+                    error={!!output.trim() && !(Number(output) >= 0)}
+                    onChange={value => updateRow(id, 'output', value)}
+                />
+                <Button variant='icon' onClick={() => updateRows(rows.filter(row => row.id !== id))}>
+                    <IconFont iconName='#icon-MdDelete' style={{fontSize: '24px'}} />
+                </Button>
+            </div>))}
+            <Button variant='text' onClick={() => setRows(rows.concat({ id: ++idRef.current, model: '', input: '', output: '' }))}>
+                <IconFont iconName='#icon-MdAdd' style={{fontSize: '24px', marginRight: '5px'}} />
+                {getMessage('optionsAddModelPrice')}
+            </Button>
+        </div>
+    );
+};
+
+export default LLMModelPrices;
\ No newline at end of file
@@ -0,0 +1,171 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import Button from '../../../../components/Button';
+import IconFont from '../../../../components/IconFont';
+import Radio from '../../../../components/Radio';
+import { getMessage } from '../../../../public/i18n';
+import { getLLMUsageCost, getLLMUsageSince, getMonthStart } from '../../../../public/llm-usage';
+import scIndexedDB, { DB_STORE_LLM_USAGE, StoreLLMUsageValue } from '../../../../public/sc-indexed-db';
+import { LLMModelPrice } from '../../../../types';
+import ConfirmDelete from '../../../collection/components/ConfirmDelete';
+import './style.css';
+
+type UsageTotal = {
+    requests: number;
+    promptTokens: number;
+    completionTokens: number;
+    cost: number;
+    estimated: boolean;
+};
+
+const rangeDaysList = [7, 30, 90];
+
+const initTotal = (): UsageTotal => ({ requests: 0, promptTokens: 0, completionTokens: 0, cost: 0, estimated: false });
+
+const addToTotal = (total: UsageTotal, value: StoreLLMUsageValue, prices: LLMModelPrice[]) => {
+    total.requests += 1;
+    total.promptTokens += value.promptTokens;
+    total.completionTokens += value.completionTokens;
+    total.cost += getLLMUsageCost(value, prices);
+    total.estimated ||= value.estimated;
+};
+
+// "yyyy-mm-dd" in local time.
+const getDay = (date: number) => {
+    const value = new Date(date);
+
+    return `${value.getFullYear()}-${(value.getMonth() + 1).toString().padStart(2, '0')}-${value.getDate().toString().padStart(2, '0')}`;
+};
+
+const formatCost = (cost: number) => `$${cost < 1 ? cost.toFixed(4) : cost.toFixed(2)}`;
+
+// Estimated counts are marked with "~".
+const formatTokens = (tokens: number, estimated: boolean) => `${estimated ? '~' : ''}${tokens.toLocaleString()}`;
+
+type UsageRowsProps = {
+    title: string;
+    rows: [string, string, UsageTotal][];
+};
+
+const UsageRows: React.FC<UsageRowsProps> = ({ title, rows }) => {
+    return (
+        <div className='llm-usage__table'>
+            <div className='llm-usage__row llm-usage__row--head'>
+                <span>{title}</span>
+                <span>{getMessage('optionsRequests')}</span>
+                <span>{getMessage('optionsPromptTokens')}</span>
+                <span>{getMessage('optionsCompletionTokens')}</span>
+                <span>{getMessage('optionsEstimatedCost')}</span>
+            </div>
+            {rows.map(([key, label, total]) => (<div className='llm-usage__row' key={key}>
+                <span title={label}>{label}</span>
+                <span>{total.requests}</span>
+                <span>{formatTokens(total.promptTokens, total.estimated)}</span>
+                <span>{formatTokens(total.completionTokens, total.estimated)}</span>
+                <span>{formatCost(total.cost)}</span>
+            </div>))}
+        </div>
+    );
+};
+
+type LLMUsageDashboardProps = {
+    prices: LLMModelPrice[];
+    monthlyBudget: number;
+};
+
+const LLMUsageDashboard: React.FC<LLMUsageDashboardProps> = ({ prices, monthlyBudget }) => {
+    const [rangeDays, setRangeDays] = useState(rangeDaysList[1]);
+    const [values, setValues] = useState<StoreLLMUsageValue[]>([]);
+    const [confirmClear, setConfirmClear] = useState(false);
+
+    // The month may start before the range, read whichever is earlier for the budget.
+    const refreshValues = useCallback(() => {
+        getLLMUsageSince(Math.min(getMonthStart(), Date.now() - rangeDaysList[rangeDaysList.length - 1] * 86400000)).then(setValues);
+    }, []);
+
+    useEffect(() => {
+        refreshValues();
+    }, [refreshValues]);
+
+    const monthCost = useMemo(() => {
+        const monthStart = getMonthStart();
+
+        return values.filter(value => value.date >= monthStart).reduce((total, value) => total + getLLMUsageCost(value, prices), 0);
+    }, [values, prices]);
+
+    const [dayRows, serviceRows] = useMemo(() => {
+        const dayMap = new Map<string, UsageTotal>();
+        const serviceMap = new Map<string, { names: Set<string>; total: UsageTotal; }>();
+
+        const rangeStart = Date.now() - rangeDays * 86400000;
+
+        values.filter(value => value.date >= rangeStart).forEach((value) => {
+            const day = getDay(value.date);
+            const dayTotal = dayMap.get(day) ?? initTotal();
+
+            addToTotal(dayTotal, value, prices);
+            dayMap.set(day, dayTotal);
+
+            // Renamed services are still the same service.
+            const service = serviceMap.get(value.source) ?? { names: new Set<string>(), total: initTotal() };
+
+            service.names.add(`${value.serviceName}${value.model ? ` (${value.model})` : ''}`);
+            addToTotal(service.total, value, prices);
+            serviceMap.set(value.source, service);
+        });
+
+        const dayRows: [string, string, UsageTotal][] = [...dayMap.entries()].sort(([a], [b]) => (a < b ? 1 : -1)).map(([day, total]) => [day, day, total]);
+
+        const serviceRows: [string, string, UsageTotal][] = [...serviceMap.entries()].map(([source, { names, total }]) => [source, [...names].join(', '), total]);
+
+        return [dayRows, serviceRows];
+    }, [values, prices, rangeDays]);
+
+    return (
+        <div className='llm-usage'>
+            <div className='llm-usage__summary'>
+                <span>
+                    {`${getMessage('optionsThisMonth')}: ${formatCost(monthCost)}`}
+                    {monthlyBudget > 0 && ` / ${formatCost(monthlyBudget)}`}
+                </span>
+                {monthlyBudget > 0 && <div className='llm-usage__budget'>
+                    <div
+                        className='llm-usage__budget__used'
+                        style={{width: `${Math.min(monthCost / monthlyBudget, 1) * 100}%`}}
+                    />
+                </div>}
+                <Button variant='icon' onClick={refreshValues}>
+                    <IconFont iconName='#icon-refresh' style={{fontSize: '24px'}} />
+                </Button>
+            </div>
+            <div>
+                {rangeDaysList.map(value => (<Radio
+                    key={value}
+                    name='llm-usage-range'
+                    value={value.toString()}
+                    label={getMessage('optionsLastDays').replace('{days}', value.toString())}
+                    checked={rangeDays === value}
+                    onChange={() => setRangeDays(value)}
+                />))}
+            </div>
+            {dayRows.length > 0 ? <>
+                <UsageRows title={getMessage('optionsService')} rows={serviceRows} />
+                <UsageRows title={getMessage('optionsDate')} rows={dayRows} />
+            </> : <div className='item-description'>{getMessage('contentNoRecord')}</div>}
+            <div className='item-description'>{getMessage('optionsLLMUsageDescription')}</div>
+            <Button variant='text' disabled={values.length === 0} onClick={() => setConfirmClear(true)}>
+                {getMessage('optionsClearLLMUsage')}
+            </Button>
+            {confirmClear && <ConfirmDelete
+                onConfirm={() => {
+                    setConfirmClear(false);
+                    scIndexedDB.clear(DB_STORE_LLM_USAGE).then(refreshValues);
+                }}
+                onCancel={() => setConfirmClear(false)}
+                onClose={() => setConfirmClear(false)}
+                drawerTitle={getMessage('optionsClearLLMUsage')}
+            />}
+        </div>
+    );
+};
+
+export default LLMUsageDashboard;
\ No newline at end of file
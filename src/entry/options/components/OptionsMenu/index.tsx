@@ -16,11 +16,15 @@ const menusItems = [
     { title: getMessage('titleSeparateWindow'), id: 'separate-window' },
     { title: getMessage('optionsTranslatePanel'), id: 'translate-panel' },
     { title: getMessage('optionsDefaultTranslateOptions'), id: 'default-translate-options' },
+    { title: getMessage('optionsGlossary'), id: 'glossary' },
     { title: getMessage('optionsTextPreprocessing'), id: 'text-preprocessing' },
     { title: getMessage('optionsInWebPage'), id: 'in-web-page' },
+    { title: getMessage('optionsTypingTranslation'), id: 'typing-translation' },
     { title: getMessage('optionsHistory'), id: 'history' },
     { title: getMessage('optionsContextMenus'), id: 'context-menus' },
     { title: getMessage('optionsKeyboardShortcut'), id: 'keyboard-shortcut' },
+    { title: getMessage('optionsLLMUsage'), id: 'llm-usage' },
+    { title: getMessage('optionsCredentials'), id: 'credentials' },
     { title: getMessage('optionsSyncSettings'), id: 'sync-settings' },
     { title: getMessage('optionsMore'), id: 'more' }
 ];
@@ -0,0 +1,219 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import Button from '../../../../components/Button';
+import IconFont from '../../../../components/IconFont';
+import Radio from '../../../../components/Radio';
+import SourceFavicon from '../../../../components/SourceFavicon';
+import TextField from '../../../../components/TextField';
+import { langCodeI18n } from '../../../../constants/langCode';
+import { getMessage } from '../../../../public/i18n';
+import {
+    deletePageTranslationCache,
+    getPageTranslationCacheEntries,
+    getPageTranslationCacheStats,
+    getPageTranslationCacheUsage,
+    importPageTranslationCache,
+    PageTranslationCacheFilter,
+    PageTranslationCacheStats,
+    PageTranslationCacheUsage,
+    resetPageTranslationCacheStats
+} from '../../../../public/page-translation-cache';
+import scFile from '../../../../public/sc-file';
+import scOptions from '../../../../public/sc-options';
+import ConfirmDelete from '../../../collection/components/ConfirmDelete';
+import './style.css';
+
+const ageDaysList = [7, 30, 90, 365];
+
+const formatSize = (size: number) => (size < 1024 * 1024 ? `${(size / 1024).toFixed(1)} KB` : `${(size / 1024 / 1024).toFixed(1)} MB`);
+
+const getLangName = (code: string) => langCodeI18n[scOptions.getInit().userLanguage][code] ?? code;
+
+type SourceUsage = {
+    source: string;
+    entries: number;
+    size: number;
+    pairs: PageTranslationCacheUsage[];
+};
+
+type Deletion = {
+    filter: PageTranslationCacheFilter;
+    title: string;
+};
+
+const PageTranslationCache: React.FC = () => {
+    const [usage, setUsage] = useState<PageTranslationCacheUsage[]>([]);
+    const [stats, setStats] = useState<PageTranslationCacheStats>({ hits: 0, misses: 0 });
+    const [ageDays, setAgeDays] = useState(ageDaysList[1]);
+    const [host, setHost] = useState('');
+    const [deletion, setDeletion] = useState<Deletion | null>(null);
+    const [message, setMessage] = useState('');
+
+    const refresh = useCallback(() => {
+        getPageTranslationCacheUsage().then(setUsage);
+        getPageTranslationCacheStats().then(setStats);
+    }, []);
+
+    useEffect(() => {
+        refresh();
+    }, [refresh]);
+
+    const sourceUsages = useMemo(() => {
+        const sourceMap = new Map<string, SourceUsage>();
+
+        usage.forEach((pair) => {
+            const sourceUsage = sourceMap.get(pair.source) ?? { source: pair.source, entries: 0, size: 0, pairs: [] };
+
+            sourceUsage.entries += pair.entries;
+            sourceUsage.size += pair.size;
+            sourceUsage.pairs.push(pair);
+
+            sourceMap.set(pair.source, sourceUsage);
+        });
+
+        return [...sourceMap.values()].sort((a, b) => b.size - a.size);
+    }, [usage]);
+
+    const total = useMemo(() => usage.reduce((t, { entries, size }) => ({ entries: t.entries + entries, size: t.size + size }), { entries: 0, size: 0 }), [usage]);
+
+    const lookups = stats.hits + stats.misses;
+    const trimmedHost = host.trim();
+
+    return (
+        <div className='page-translation-cache'>
+            <div className='page-translation-cache__summary'>
+                <span>{getMessage('optionsCacheEntries').replace('{entries}', total.entries.toLocaleString()).replace('{size}', formatSize(total.size))}</span>
+                <span>
+                    {getMessage('optionsCacheHitRate')
+                        .replace('{hits}', stats.hits.toLocaleString())
+                        .replace('{misses}', stats.misses.toLocaleString())
+                        .replace('{rate}', lookups > 0 ? `${Math.round(stats.hits / lookups * 100)}%` : '-')}
+                </span>
+                <Button variant='icon' onClick={refresh}>
+                    <IconFont iconName='#icon-refresh' style={{fontSize: '24px'}} />
+                </Button>
+            </div>
+            {sourceUsages.length > 0 ? <div className='page-translation-cache__table'>
+                {sourceUsages.map(({ source, entries, size, pairs }) => (<React.Fragment key={source}>
+                    <div className='page-translation-cache__row page-translation-cache__row--source'>
+                        <SourceFavicon source={source} />
+                        <span>{entries.toLocaleString()}</span>
+                        <span>{formatSize(size)}</span>
+                        <IconFont
+                            className='button'
+                            iconName='#icon-GoX'
+                            onClick={() => setDeletion({ filter: { source }, title: getMessage('optionsClearCacheOfSource') })}
+                        />
+                    </div>
+                    {pairs.map(pair => (<div key={`${pair.from}-${pair.to}`} className='page-translation-cache__row'>
+                        <span>{`${getLangName(pair.from)} → ${getLangName(pair.to)}`}</span>
+                        <span>{pair.entries.toLocaleString()}</span>
+                        <span>{formatSize(pair.size)}</span>
+                        <IconFont
+                            className='button'
+                            iconName='#icon-GoX'
+                            onClick={() => setDeletion({ filter: { source, from: pair.from, to: pair.to }, title: getMessage('optionsClearCacheOfLanguages') })}
+                        />
+                    </div>))}
+                </React.Fragment>))}
+            </div> : <div className='item-description'>{getMessage('contentNoRecord')}</div>}
+            <div className='page-translation-cache__actions'>
+                {ageDaysList.map(value => (<Radio
+                    key={value}
+                    name='page-translation-cache-age'
+                    value={value.toString()}
+                    label={value}
+                    checked={ageDays === value}
+                    onChange={() => setAgeDays(value)}
+                />))}
+                <Button
+                    variant='text'
+                    onClick={() => setDeletion({ filter: { before: Date.now() - ageDays * 86400000 }, title: getMessage('optionsClearUnusedCache').replace('{days}', ageDays.toString()) })}
+                >
+                    {getMessage('optionsClearUnusedCache').replace('{days}', ageDays.toString())}
+                </Button>
+            </div>
+            <div className='page-translation-cache__actions'>
+                <TextField
+                    label={getMessage('optionsHost')}
+                    placeholder='example.com'
+                    value={host}
+                    onChange={setHost}
+                />
+                <Button
+                    variant='text'
+                    disabled={!trimmedHost}
+                    onClick={() => setDeletion({ filter: { host: trimmedHost }, title: getMessage('optionsClearCacheOfHost').replace('{host}', trimmedHost) })}
+                >
+                    {getMessage('optionsClearCacheOfHost').replace('{host}', trimmedHost)}
+                </Button>
+            </div>
+            <div className='item-description'>{getMessage('optionsPageTranslationCacheBundleDescription')}</div>
+            <div className='page-translation-cache__actions'>
+                <Button
+                    variant='text'
+                    onClick={async () => {
+                        const entries = await getPageTranslationCacheEntries(trimmedHost ? { host: trimmedHost } : {});
+
+                        entries.length > 0 && scFile.saveAs(entries, trimmedHost ? `page-translation-cache-${trimmedHost}` : 'page-translation-cache');
+                    }}
+                >
+                    <IconFont
+                        iconName='#icon-export'
+                        style={{fontSize: '24px', marginRight: '5px'}}
+                    />
+                    {getMessage('wordExport')}
+                </Button>
+                <Button
+                    variant='text'
+                    onClick={() => {
+                        scFile.open(async (file) => {
+                            try {
+                                const count = await importPageTranslationCache(await scFile.read(file));
+
+                                setMessage(getMessage('optionsCacheImported').replace('{entries}', count.toString()));
+                                refresh();
+                            }
+                            catch {
+                                setMessage(getMessage('optionsCacheImported').replace('{entries}', '0'));
+                            }
+                        });
+                    }}
+                >
+                    <IconFont
+                        iconName='#icon-import'
+                        style={{fontSize: '24px', marginRight: '5px'}}
+                    />
+                    {getMessage('wordImport')}
+                </Button>
+                <Button
+                    variant='text'
+                    onClick={() => resetPageTranslationCacheStats().then(refresh)}
+                >
+                    {getMessage('optionsResetCacheHitRate')}
+                </Button>
+                <Button
+                    variant='outlined'
+                    onClick={() => setDeletion({ filter: {}, title: getMessage('optionsConfirmClearTranslationCache') })}
+                >
+                    {getMessage('optionsClearTranslationCache')}
+                </Button>
+            </div>
+            {message && <div className='item-description'>{message}</div>}
+            {deletion && <ConfirmDelete
+                onConfirm={() => {
+                    deletePageTranslationCache(deletion.filter).then((count) => {
+                        setMessage(getMessage('optionsCacheDeleted').replace('{entries}', count.toString()));
+                        refresh();
+                    });
+
+                    setDeletion(null);
+                }}
+                onCancel={() => setDeletion(null)}
+                onClose={() => setDeletion(null)}
+                drawerTitle={deletion.title}
+            />}
+        </div>
+    );
+};
+
+export default PageTranslationCache;
\ No newline at end of file
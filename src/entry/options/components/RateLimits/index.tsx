@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import Button from '../../../../components/Button';
+import SourceSelect from '../../../../components/SourceSelect';
+import TextField from '../../../../components/TextField';
+import { getMessage } from '../../../../public/i18n';
+import { getDefaultRateLimit, SourceRateLimit } from '../../../../public/web-page-translate/scheduler';
+import { TranslateSource } from '../../../../constants/translateSource';
+import './style.css';
+
+type RateLimitsProps = {
+    sourceList: TranslateSource[];
+    rateLimits: { [source: string]: Partial<SourceRateLimit>; };
+    onChange: (rateLimits: { [source: string]: Partial<SourceRateLimit>; }) => void;
+};
+
+const limitKeys: (keyof SourceRateLimit)[] = ['concurrency', 'requestsPerSecond', 'burst'];
+
+const RateLimits: React.FC<RateLimitsProps> = ({ sourceList, rateLimits, onChange }) => {
+    const [source, setSource] = useState(sourceList[0]?.source ?? '');
+
+    const defaultLimit = getDefaultRateLimit(source);
+    const limit: Partial<SourceRateLimit> = rateLimits[source] ?? {};
+
+    const labels: { [K in keyof SourceRateLimit]: string } = {
+        concurrency: getMessage('optionsConcurrency'),
+        requestsPerSecond: getMessage('optionsRequestsPerSecond'),
+        burst: getMessage('optionsBurst')
+    };
+
+    // Only positive numbers are kept, an empty field falls back to the default.
+    const updateLimit = (key: keyof SourceRateLimit, value: string) => {
+        const nextLimit = { ...limit };
+        const nextRateLimits = { ...rateLimits };
+        const number = Number(value);
+
+        delete nextLimit[key];
+        value.trim() && number > 0 && (nextLimit[key] = key === 'requestsPerSecond' ? number : Math.ceil(number));
+
+        Object.keys(nextLimit).length > 0 ? (nextRateLimits[source] = nextLimit) : delete nextRateLimits[source];
+
+        onChange(nextRateLimits);
+    };
+
+    return (
+        <div className='rate-limits'>
+            <SourceSelect
+                className='border-bottom-select'
+                source={source}
+                sourceList={sourceList}
+                onChange={setSource}
+            />
+            <div className='rate-limits__fields' key={source}>
+                {limitKeys.map(key => (<TextField
+                    key={key}
+                    label={labels[key]}
+                    defaultValue={limit[key]?.toString()}
+                    placeholder={defaultLimit[key].toString()}
+                    onChange={value => updateLimit(key, value)}
+                />))}
+            </div>
+            <Button
+                variant='text'
+                disabled={!rateLimits[source]}
+                onClick={() => {
+                    const nextRateLimits = { ...rateLimits };
+                    delete nextRateLimits[source];
+                    onChange(nextRateLimits);
+                }}
+            >
+                {getMessage('optionsResetToDefault')}
+            </Button>
+        </div>
+    );
+};
+
+export default RateLimits;
\ No newline at end of file
@@ -0,0 +1,41 @@
+import React, { useEffect, useState } from 'react';
+import SourceFavicon from '../../../../components/SourceFavicon';
+import { getMessage } from '../../../../public/i18n';
+import { sendGetSourceHealth } from '../../../../public/send';
+import type { SourceHealth } from '../../../../public/source-health';
+import { cn } from '../../../../public/utils';
+import './style.css';
+
+const SourceHealthIndicator: React.FC = () => {
+    const [healthList, setHealthList] = useState<SourceHealth[]>([]);
+
+    useEffect(() => {
+        const refresh = () => {
+            sendGetSourceHealth().then(response => !('code' in response) && setHealthList(response));
+        };
+
+        refresh();
+
+        const interval = setInterval(refresh, 5000);
+
+        return () => clearInterval(interval);
+    }, []);
+
+    if (healthList.length === 0) {
+        return (<div className='item-description'>{getMessage('optionsNoRecentFailures')}</div>);
+    }
+
+    return (
+        <div className='source-health'>
+            {healthList.map(({ source, recentFailures, lastError, benchedUntil }) => (<div className='source-health__item' key={source}>
+                <span className={cn('source-health__status', benchedUntil > 0 && 'source-health__status--benched')} />
+                <SourceFavicon source={source} />
+                <span>{`${getMessage('optionsRecentFailures')}: ${recentFailures}`}</span>
+                {benchedUntil > 0 && <span>{`${getMessage('optionsBenchedUntil')} ${new Date(benchedUntil).toLocaleTimeString()}`}</span>}
+                <span className='source-health__error' title={lastError}>{lastError}</span>
+            </div>))}
+        </div>
+    );
+};
+
+export default SourceHealthIndicator;
\ No newline at end of file
@@ -1,5 +1,5 @@
-import React, { startTransition, useCallback, useLayoutEffect, useState } from 'react';
-import scIndexedDB, { StorePageTranslationRuleValue } from '../../../../public/sc-indexed-db';
+import React, { startTransition, useCallback, useLayoutEffect, useMemo, useState } from 'react';
+import scIndexedDB, { PageTranslationProfile, StorePageTranslationRuleValue } from '../../../../public/sc-indexed-db';
 import Button from '../../../../components/Button';
 import { useEffectOnce } from '../../../../public/react-use';
 import TextField from '../../../../components/TextField';
@@ -10,6 +10,15 @@ import ConfirmDelete from '../../../collection/components/ConfirmDelete';
 import { matchPattern } from '../../../../public/utils';
 import { getMessage } from '../../../../public/i18n';
 import scFile from '../../../../public/sc-file';
+import scOptions from '../../../../public/sc-options';
+import SourceSelect from '../../../../components/SourceSelect';
+import LanguageSelect from '../../../../components/LanguageSelect';
+import Radio from '../../../../components/Radio';
+import WebPageTranslateDisplayMode from '../WebPageTranslateDisplayMode';
+import { preferredLangCode } from '../../../../constants/langCode';
+import { webPageTranslateSource as webPageTranslateSourceList } from '../../../../constants/translateSource';
+import { getWebpageTranslateServiceSources } from '../../../../constants/thirdPartyServiceValues';
+import { DisplayModeEnhancement } from '../../../../types';
 
 const SpecifyRule: React.FC = () => {
     const [rules, setRules] = useState<StorePageTranslationRuleValue[]>([]);
@@ -143,13 +152,19 @@ const SpecifyRule: React.FC = () => {
                                         try {
                                             if (!rule.patterns) { return; }
 
-                                            if (!(rule.include && isSelectorsVaild(rule.include)) && !(rule.exclude && isSelectorsVaild(rule.exclude))) { return; }
+                                            const profile = getQualifiedProfile(rule.profile);
+
+                                            if (!(rule.include && isSelectorsVaild(rule.include)) && !(rule.exclude && isSelectorsVaild(rule.exclude)) && !profile) { return; }
 
                                             const t = ruleMap.get(rule.patterns);
-                                            if (t && t.find(({ include, exclude }) => (include === rule.include && exclude === rule.exclude))) { return; }
+                                            if (t && t.find(({ include, exclude, profile: p }) => (include === rule.include && exclude === rule.exclude && JSON.stringify(p) === JSON.stringify(profile)))) { return; }
 
                                             const nextRule: Omit<StorePageTranslationRuleValue, 'id'> = { patterns: rule.patterns };
 
+                                            if (profile) {
+                                                nextRule.profile = profile;
+                                            }
+
                                             if (rule.include) {
                                                 nextRule.include = rule.include;
                                             }
@@ -207,6 +222,36 @@ const isSelectorsVaild = (selectors: string) => {
     return true;
 }
 
+const enhancementFlags: { key: keyof DisplayModeEnhancement; message: string; }[] = [
+    { key: 'o_Hovering', message: getMessage('optionsMouseHoverOverOriginalText') },
+    { key: 'oAndT_NonDiscrete', message: getMessage('optionsNotDisplayingTheTranslationsDiscretely') },
+    { key: 'oAndT_paragraphWrap', message: getMessage('optionsParagraphWrap') },
+    { key: 'oAndT_hideSameLanguage', message: getMessage('optionsSameLanguageHide') },
+    { key: 'oAndT_Underline', message: getMessage('optionsAddUnderlineToTranslations') },
+    { key: 't_Hovering', message: getMessage('optionsMouseHoverOverTranslation') },
+    { key: 't_hoveringWithKeyPressing', message: getMessage('optionsDisplayOriginalTextWhenCtrlPressed') }
+];
+
+// Imported files are untrusted, keep the known fields only.
+const getQualifiedProfile = (profile: unknown) => {
+    if (!profile || typeof profile !== 'object') { return; }
+
+    const { source, targetLanguage, displayMode, enhancement, autoTranslate } = profile as Record<string, unknown>;
+
+    const nextProfile: PageTranslationProfile = {};
+
+    typeof source === 'string' && source && (nextProfile.source = source);
+    typeof targetLanguage === 'string' && targetLanguage && (nextProfile.targetLanguage = targetLanguage);
+    typeof displayMode === 'number' && [0, 1, 2].includes(displayMode) && (nextProfile.displayMode = displayMode);
+    typeof autoTranslate === 'boolean' && (nextProfile.autoTranslate = autoTranslate);
+
+    if (enhancement && typeof enhancement === 'object') {
+        nextProfile.enhancement = enhancementFlags.reduce((t, { key }) => ({ ...t, [key]: !!(enhancement as Record<string, unknown>)[key] }), {} as DisplayModeEnhancement);
+    }
+
+    return Object.keys(nextProfile).length > 0 ? nextProfile : undefined;
+};
+
 type AddPatternProps = {
     onAdd: (value: Omit<StorePageTranslationRuleValue, 'id'> & { id?: number; }) => void;
     value?: StorePageTranslationRuleValue;
@@ -220,6 +265,21 @@ const AddPattern: React.FC<AddPatternProps> = ({ onAdd, value, onClose }) => {
     const [patternsErr, setPatternsErr] = useState('');
     const [includeErr, setIncludeErr] = useState('');
     const [excludeErr, setExcludeErr] = useState('');
+    const [profileSource, setProfileSource] = useState(value?.profile?.source);
+    const [profileTargetLanguage, setProfileTargetLanguage] = useState(value?.profile?.targetLanguage);
+    const [profileDisplayMode, setProfileDisplayMode] = useState(value?.profile?.displayMode);
+    const [profileEnhancement, setProfileEnhancement] = useState(value?.profile?.enhancement);
+    const [profileAutoTranslate, setProfileAutoTranslate] = useState(value?.profile?.autoTranslate);
+
+    const sourceList = useMemo(() => {
+        const { customWebpageTranslateSourceList, enabledThirdPartyServices } = scOptions.getInit();
+
+        return webPageTranslateSourceList.concat(customWebpageTranslateSourceList, getWebpageTranslateServiceSources(enabledThirdPartyServices));
+    }, []);
+
+    const langCodes = useMemo(() => preferredLangCode[scOptions.getInit().userLanguage], []);
+
+    const hasProfile = profileSource !== undefined || profileTargetLanguage !== undefined || profileDisplayMode !== undefined || profileEnhancement !== undefined || profileAutoTranslate !== undefined;
 
     return (
         <div className='add-pattern'>
@@ -261,12 +321,81 @@ const AddPattern: React.FC<AddPatternProps> = ({ onAdd, value, onClose }) => {
                 error={!!excludeErr}
                 helperText={excludeErr}
             />
+            <div className='add-pattern__profile'>
+                {getMessage('optionsSiteProfile')}
+                <div className='item-description'>{getMessage('optionsSiteProfileDescription')}</div>
+                <div className='add-pattern__profile__item'>
+                    <Checkbox
+                        label={getMessage('optionsSource')}
+                        checked={profileSource !== undefined}
+                        onChange={v => setProfileSource(v ? scOptions.getInit().webPageTranslateSource : undefined)}
+                    />
+                    {profileSource !== undefined && <SourceSelect
+                        className='border-bottom-select'
+                        sourceList={sourceList}
+                        source={profileSource}
+                        onChange={setProfileSource}
+                    />}
+                </div>
+                <div className='add-pattern__profile__item'>
+                    <Checkbox
+                        label={getMessage('optionsTo')}
+                        checked={profileTargetLanguage !== undefined}
+                        onChange={v => setProfileTargetLanguage(v ? scOptions.getInit().webPageTranslateTo : undefined)}
+                    />
+                    {profileTargetLanguage !== undefined && <LanguageSelect
+                        className='border-bottom-select'
+                        value={profileTargetLanguage}
+                        onChange={setProfileTargetLanguage}
+                        langCodes={langCodes}
+                    />}
+                </div>
+                <div className='add-pattern__profile__item'>
+                    <Checkbox
+                        label={getMessage('optionsDisplayMode')}
+                        checked={profileDisplayMode !== undefined}
+                        onChange={v => setProfileDisplayMode(v ? scOptions.getInit().webPageTranslateDisplayMode : undefined)}
+                    />
+                </div>
+                {profileDisplayMode !== undefined && <div className='mt10-ml30'>
+                    <WebPageTranslateDisplayMode
+                        name='rule-display-mode'
+                        update={setProfileDisplayMode}
+                        displayMode={profileDisplayMode}
+                    />
+                </div>}
+                <div className='add-pattern__profile__item'>
+                    <Checkbox
+                        label={getMessage('optionsEnhancementOfDisplay')}
+                        checked={profileEnhancement !== undefined}
+                        onChange={v => setProfileEnhancement(v ? scOptions.getInit().displayModeEnhancement : undefined)}
+                    />
+                </div>
+                {profileEnhancement && enhancementFlags.map(({ key, message }) => (<div className='mt10-ml30' key={key}>
+                    <Checkbox
+                        label={message}
+                        checked={profileEnhancement[key]}
+                        onChange={v => setProfileEnhancement({ ...profileEnhancement, [key]: v })}
+                    />
+                </div>))}
+                <div className='add-pattern__profile__item'>
+                    {getMessage('optionsAutoTranslateWebpage')}
+                    {([[undefined, getMessage('optionsFollowGlobalSettings')], [true, getMessage('optionsEnabled')], [false, getMessage('optionsNotEnabled')]] as const).map(([autoTranslate, message]) => (<Radio
+                        key={String(autoTranslate)}
+                        name='rule-auto-translate'
+                        value={String(autoTranslate)}
+                        label={message}
+                        checked={profileAutoTranslate === autoTranslate}
+                        onChange={() => setProfileAutoTranslate(autoTranslate)}
+                    />))}
+                </div>
+            </div>
             <Button
                 variant='text'
-                disabled={!patternsText || (!includeText && !excludeText) || !!includeErr || !!excludeErr}
+                disabled={!patternsText || (!includeText && !excludeText && !hasProfile) || !!includeErr || !!excludeErr}
                 onClick={() => {
                     if (!patternsText) { return; }
-                    if (!includeText && !excludeText) { return; }
+                    if (!includeText && !excludeText && !hasProfile) { return; }
 
                     const patterns = patternsText.replace(/http(s)?:\/\//g, '').trimStart().trimEnd();
                     if (!patterns) {
@@ -289,6 +418,17 @@ const AddPattern: React.FC<AddPatternProps> = ({ onAdd, value, onClose }) => {
                         }
                         nextValue.exclude = excludeText;
                     }
+                    if (hasProfile) {
+                        const profile: PageTranslationProfile = {};
+
+                        profileSource !== undefined && (profile.source = profileSource);
+                        profileTargetLanguage !== undefined && (profile.targetLanguage = profileTargetLanguage);
+                        profileDisplayMode !== undefined && (profile.displayMode = profileDisplayMode);
+                        profileEnhancement !== undefined && (profile.enhancement = profileEnhancement);
+                        profileAutoTranslate !== undefined && (profile.autoTranslate = profileAutoTranslate);
+
+                        nextValue.profile = profile;
+                    }
 
                     if (value?.id !== undefined) {
                         nextValue.id = value.id;
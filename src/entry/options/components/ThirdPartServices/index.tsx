@@ -1,6 +1,12 @@
 import React, { useCallback, useMemo, useState } from 'react';
-import { serviceDefaultValueMap, thirdPartyServiceNames } from '../../../../constants/thirdPartyServiceValues';
-import { EnabledThirdPartyServices } from '../../../../types/thirdPartyValue';
+import Radio from '../../../../components/Radio';
+import Checkbox from '../../../../components/Checkbox';
+import { buildPromptMessages, promptLanguages } from '../../../../public/translate/prompt-template';
+import { dictionaryPrompt } from '../../../../public/translate/openai-compatibility/dictionary';
+import scOptions from '../../../../public/sc-options';
+import { LANG_EN } from '../../../../constants/langCode';
+import { localServiceTypes, serviceDefaultValueMap, thirdPartyServiceTypeNames, thirdPartyServiceTypes } from '../../../../constants/thirdPartyServiceValues';
+import { EnabledThirdPartyServices, ThirdPartyServiceType, ThirdPartyServiceValue } from '../../../../types/thirdPartyValue';
 import TextField from '../../../../components/TextField';
 import Button from '../../../../components/Button';
 import './style.css';
@@ -8,36 +14,35 @@ import SourceFavicon from '../../../../components/SourceFavicon';
 import { getMessage } from '../../../../public/i18n';
 import IconFont from '../../../../components/IconFont';
 import ConfirmDelete from '../../../collection/components/ConfirmDelete';
-
-const serviceNameSet = new Set(thirdPartyServiceNames);
+import { createSecretId, deleteSecrets, getSecret, setSecrets } from '../../../../public/credential-vault';
+import { discoverLocalServer, listLocalModels } from '../../../../public/translate/local-server';
 
 type ThirdPartyServicesProps = {
     enabledThirdPartyServices: EnabledThirdPartyServices;
     onUpdateServices: (services: EnabledThirdPartyServices) => void;
-    onDeleteService: (serviceName: string) => void;
+    onDeleteService: (source: string) => void;
 };
 
 const ThirdPartyServices: React.FC<ThirdPartyServicesProps> = ({ enabledThirdPartyServices, onUpdateServices, onDeleteService }) => {
     const [adding, setAdding] = useState(false);
-    const [addingService, setAddingService] = useState<typeof thirdPartyServiceNames[number] | null>(null);
-    const [updatingService, setUpdatingService] = useState<EnabledThirdPartyServices[number] | null>(null);
+    const [addingService, setAddingService] = useState<ThirdPartyServiceType | null>(null);
+    const [updatingService, setUpdatingService] = useState<ThirdPartyServiceValue | null>(null);
+
+    const deleteService = useCallback((source: string) => {
+        const keyId = enabledThirdPartyServices.find(v => v.source === source)?.keyId;
 
-    const notAddedServiceNames = useMemo(() => {
-        const enabledServiceNameSet = new Set(enabledThirdPartyServices.map(v => v.name));
-        return [...serviceNameSet.difference(enabledServiceNameSet)];
-    }, [enabledThirdPartyServices]);
+        keyId && deleteSecrets([keyId]);
 
-    const deleteService = useCallback((serviceName: string) => {
-        onDeleteService(serviceName);
+        onDeleteService(source);
     }, [enabledThirdPartyServices, onDeleteService]);
 
-    const addService = useCallback((serviceValue: ServiceValue) => {
+    const addService = useCallback((serviceValue: ThirdPartyServiceValue) => {
         onUpdateServices(enabledThirdPartyServices.concat(serviceValue));
     }, [enabledThirdPartyServices, onUpdateServices]);
 
-    const updateService = useCallback((serviceValue: ServiceValue) => {
+    const updateService = useCallback((serviceValue: ThirdPartyServiceValue) => {
         const nextServices = enabledThirdPartyServices.map((value) => {
-            if (value.name !== serviceValue.name) {
+            if (value.source !== serviceValue.source) {
                 return value;
             }
             
@@ -51,21 +56,21 @@ const ThirdPartyServices: React.FC<ThirdPartyServicesProps> = ({ enabledThirdPar
         <div>
             {!addingService && !updatingService && <>
                 {!adding && <div className='third-party-service__list'>
-                    {enabledThirdPartyServices.map((item) => (<Button key={item.name} variant='text' onClick={() => setUpdatingService(item)}>
-                        <SourceFavicon source={item.name} />
+                    {enabledThirdPartyServices.map((item) => (<Button key={item.source} variant='text' onClick={() => setUpdatingService(item)}>
+                        <SourceFavicon source={item.source} />
                     </Button>))}
                     <Button onClick={() => setAdding(true)} variant='contained'>{getMessage('wordAdd')}</Button>
                 </div>}
                 {adding && <div className='third-party-service__list'>
-                    {notAddedServiceNames.map((name) => (<Button key={name} variant='text' onClick={() => setAddingService(name)}>
-                        <SourceFavicon source={name} />
+                    {thirdPartyServiceTypes.map((type) => (<Button key={type} variant='text' onClick={() => setAddingService(type)}>
+                        <SourceFavicon source={type} />
                     </Button>))}
                     <Button variant='contained' onClick={() => setAdding(false)}>{getMessage('wordCancel')}</Button>
                 </div>}
             </>}
             {addingService && <ServicePanel
                 variant='add'
-                serviceName={addingService}
+                serviceType={addingService}
                 onAdd={(serviceValue) => {
                     addService(serviceValue);
                     setAddingService(null);
@@ -77,13 +82,13 @@ const ThirdPartyServices: React.FC<ThirdPartyServicesProps> = ({ enabledThirdPar
             />}
             {updatingService && <ServicePanel
                 variant='update'
-                serviceName={updatingService.name}
+                serviceType={updatingService.type}
                 serviceValue={updatingService}
                 onCancel={() => {
                     setUpdatingService(null);
                 }}
-                onDelete={(serviceName) => {
-                    deleteService(serviceName);
+                onDelete={(source) => {
+                    deleteService(source);
                     setUpdatingService(null);
                 }}
                 onUpdate={(serviceValue) => {
@@ -95,47 +100,74 @@ const ThirdPartyServices: React.FC<ThirdPartyServicesProps> = ({ enabledThirdPar
     );
 };
 
-type ServiceValue = {
-    name: typeof thirdPartyServiceNames[number];
-    url?: string;
-    model?: string;
-    prompt?: string;
-    key?: string;
-};
-
 type ServicePanelProps = {
-    serviceName: typeof thirdPartyServiceNames[number];
+    serviceType: ThirdPartyServiceType;
     variant: 'add';
-    serviceValue?: EnabledThirdPartyServices[number];
-    onAdd: (serviceValue: ServiceValue) => void;
+    serviceValue?: ThirdPartyServiceValue;
+    onAdd: (serviceValue: ThirdPartyServiceValue) => void;
     onCancel: () => void;
-    onDelete?: (serviceName: string) => void;
-    onUpdate?: (serviceValue: ServiceValue) => void;
+    onDelete?: (source: string) => void;
+    onUpdate?: (serviceValue: ThirdPartyServiceValue) => void;
 } | {
-    serviceName: typeof thirdPartyServiceNames[number];
+    serviceType: ThirdPartyServiceType;
     variant: 'update';
-    serviceValue: EnabledThirdPartyServices[number];
-    onAdd?: (serviceValue: ServiceValue) => void;
+    serviceValue: ThirdPartyServiceValue;
+    onAdd?: (serviceValue: ThirdPartyServiceValue) => void;
     onCancel: () => void;
-    onDelete: (serviceName: string) => void;
-    onUpdate: (serviceValue: ServiceValue) => void;
+    onDelete: (source: string) => void;
+    onUpdate: (serviceValue: ThirdPartyServiceValue) => void;
 };
 
-const ServicePanel: React.FC<ServicePanelProps> = ({ serviceName, variant, serviceValue, onAdd, onCancel, onDelete, onUpdate }) => {
+const ServicePanel: React.FC<ServicePanelProps> = ({ serviceType, variant, serviceValue, onAdd, onCancel, onDelete, onUpdate }) => {
+    const [nameText, setNameText] = useState(serviceValue?.name ?? '');
     const [urlText, setUrlText] = useState(serviceValue?.url ?? '');
     const [modelText, setModelText] = useState(serviceValue?.model ?? '');
     const [promptText, setPromptText] = useState(serviceValue?.prompt ?? '');
-    const [keyText, setKeyText] = useState(serviceValue?.key ?? '');
+    const [keyText, setKeyText] = useState('');
+    const [temperatureText, setTemperatureText] = useState(serviceValue?.temperature?.toString() ?? '');
+    const [faviconText, setFaviconText] = useState(serviceValue?.favicon ?? '');
+    const [promptLanguage, setPromptLanguage] = useState(serviceValue?.promptLanguage ?? LANG_EN);
+    const [wordMode, setWordMode] = useState(serviceValue?.wordMode ?? false);
 
     const [confirmDelete, setConfirmDelete] = useState(false);
 
     const [keyErr, setKeyErr] = useState('');
+    const [temperatureErr, setTemperatureErr] = useState('');
+
+    const [urlMessage, setUrlMessage] = useState('');
+    const [models, setModels] = useState<string[] | null>(null);
+
+    const defaultValue = useMemo(() => serviceDefaultValueMap.get(serviceType), [serviceType]);
+
+    const local = localServiceTypes.includes(serviceType);
 
-    const defaultValue = useMemo(() => serviceDefaultValueMap.get(serviceName), [serviceName]);
+    const findLocalServer = async () => {
+        setUrlMessage('');
 
-    const collectServiceValue = (withValue: (serviceValue: ServiceValue) => void) => {
-        const nextValue: ServiceValue = {
-            name: serviceName
+        const url = await discoverLocalServer(serviceType);
+
+        url ? setUrlText(url) : setUrlMessage(getMessage('optionsLocalServerNotFound'));
+    };
+
+    const showModels = async () => {
+        setModels(null);
+
+        try {
+            const key = keyText || (serviceValue?.keyId ? await getSecret(serviceValue.keyId).catch(() => '') : '');
+
+            setModels(await listLocalModels(serviceType, urlText, key));
+        }
+        catch {
+            setModels([]);
+        }
+    };
+
+    const collectServiceValue = async (withValue: (serviceValue: ThirdPartyServiceValue) => void) => {
+        // Services from different endpoints or models are told apart by their names, the source never changes.
+        const nextValue: ThirdPartyServiceValue = {
+            source: serviceValue?.source ?? window.btoa(Number(new Date()).toString() + Math.floor(Math.random() * 10000).toString()),
+            name: nameText.trim().substring(0, 20) || thirdPartyServiceTypeNames[serviceType],
+            type: serviceType
         };
 
         if (urlText) {
@@ -147,10 +179,43 @@ const ServicePanel: React.FC<ServicePanelProps> = ({ serviceName, variant, servi
         if (promptText) {
             nextValue.prompt = promptText;
         }
+        if (faviconText) {
+            nextValue.favicon = faviconText;
+        }
+        if (promptLanguage !== LANG_EN) {
+            nextValue.promptLanguage = promptLanguage;
+        }
+        if (wordMode) {
+            nextValue.wordMode = true;
+        }
+        if (temperatureText.trim()) {
+            const temperature = Number(temperatureText);
+
+            if (Number.isNaN(temperature) || temperature < 0 || temperature > 2) {
+                setTemperatureErr(getMessage('temperatureHelperText'));
+                return;
+            }
+
+            nextValue.temperature = temperature;
+        }
+        // Keys are kept in the credential vault, an empty field keeps the stored one.
         if (keyText) {
-            nextValue.key = keyText;
+            const keyId = serviceValue?.keyId ?? createSecretId();
+
+            try {
+                await setSecrets([{ id: keyId, name: `${nextValue.name} API Key`, value: keyText }]);
+            }
+            catch {
+                setKeyErr(getMessage('optionsUnlockToEditKeys'));
+                return;
+            }
+
+            nextValue.keyId = keyId;
+        }
+        else if (serviceValue?.keyId) {
+            nextValue.keyId = serviceValue.keyId;
         }
-        else {
+        else if (!local) {
             setKeyErr(getMessage('apiKeyHelperText'));
             return;
         }
@@ -161,7 +226,7 @@ const ServicePanel: React.FC<ServicePanelProps> = ({ serviceName, variant, servi
     if (!defaultValue) {
         return (
             <div>
-                Error: source "{serviceName}" is not available.
+                Error: source "{serviceType}" is not available.
                 <Button variant='contained' onClick={onCancel}>Cancel</Button>
             </div>
         );
@@ -170,24 +235,41 @@ const ServicePanel: React.FC<ServicePanelProps> = ({ serviceName, variant, servi
     return (
         <div className='service-panel'>
             <div className='service-panel__head'>
-                <SourceFavicon source={serviceName} />
+                <SourceFavicon source={serviceValue?.source ?? serviceType} />
                 <Button variant='icon' onClick={onCancel}>
                     <IconFont iconName='#icon-GoX' style={{fontSize: '20px'}} />
                 </Button>
             </div>
-            {serviceName === 'OpenAI' && <div className='item-description'>{getMessage('openaiDescription')}</div>}
+            {serviceType === 'OpenAI' && <div className='item-description'>{getMessage('openaiDescription')}</div>}
+            {local && <div className='item-description'>{getMessage('localServiceDescription')}</div>}
+            {serviceType === 'Ollama' && <div className='item-description'>{getMessage('ollamaDescription')}</div>}
+            <TextField
+                label='Name'
+                placeholder={thirdPartyServiceTypeNames[serviceType]}
+                defaultValue={nameText}
+                onChange={setNameText}
+            />
             {Object.hasOwn(defaultValue, 'url') && <TextField
                 label='URL'
                 placeholder={defaultValue.url}
-                defaultValue={urlText}
+                value={urlText}
                 onChange={setUrlText}
+                helperText={urlMessage}
             />}
+            {local && <div className='service-panel__local-buttons'>
+                <Button variant='outlined' onClick={findLocalServer}>{getMessage('optionsFindLocalServer')}</Button>
+                {Object.hasOwn(defaultValue, 'model') && <Button variant='outlined' onClick={showModels}>{getMessage('optionsListModels')}</Button>}
+            </div>}
             {Object.hasOwn(defaultValue, 'model') && <TextField
                 label='Model'
                 placeholder={defaultValue.model}
-                defaultValue={modelText}
+                value={modelText}
                 onChange={setModelText}
             />}
+            {models && <div className='service-panel__models'>
+                {models.length === 0 && getMessage('optionsNoModels')}
+                {models.map(model => (<Button key={model} variant='text' onClick={() => setModelText(model)}>{model}</Button>))}
+            </div>}
             {Object.hasOwn(defaultValue, 'prompt') && <TextField
                 label='Prompt'
                 placeholder={defaultValue.prompt || getMessage('commonPrompt')}
@@ -197,9 +279,51 @@ const ServicePanel: React.FC<ServicePanelProps> = ({ serviceName, variant, servi
                 onChange={setPromptText}
                 helperText={getMessage('promptHelperText')}
             />}
-            {Object.hasOwn(defaultValue, 'key') && <TextField
+            {Object.hasOwn(defaultValue, 'prompt') && <div className='service-panel__prompt-language'>
+                {getMessage('optionsPromptLanguage')}
+                {promptLanguages.map(language => (<Radio
+                    key={language}
+                    name='prompt-language'
+                    value={language}
+                    label={promptLanguageLabels[language]}
+                    checked={promptLanguage === language}
+                    onChange={setPromptLanguage}
+                />))}
+            </div>}
+            {serviceType !== 'Gemini' && Object.hasOwn(defaultValue, 'prompt') && <div className='service-panel__word-mode'>
+                <Checkbox
+                    label={getMessage('optionsWordMode')}
+                    checked={wordMode}
+                    onChange={setWordMode}
+                />
+                <div className='item-description'>{getMessage('optionsWordModeDescription')}</div>
+            </div>}
+            {Object.hasOwn(defaultValue, 'prompt') && <PromptPreview
+                template={promptText || defaultValue.prompt || getMessage('commonPrompt')}
+                wordTemplate={wordMode && serviceType !== 'Gemini' ? dictionaryPrompt : undefined}
+                promptLanguage={promptLanguage}
+            />}
+            {Object.hasOwn(defaultValue, 'prompt') && <TextField
+                label='Temperature'
+                placeholder='0 - 2'
+                defaultValue={temperatureText}
+                onChange={(temperature) => {
+                    setTemperatureText(temperature);
+
+                    temperatureErr && setTemperatureErr('');
+                }}
+                error={!!temperatureErr}
+                helperText={temperatureErr}
+            />}
+            <TextField
+                label='Favicon URL'
+                defaultValue={faviconText}
+                onChange={setFaviconText}
+            />
+            <TextField
                 label='API Key'
-                placeholder={defaultValue.key}
+                type='password'
+                placeholder={serviceValue?.keyId ? getMessage('optionsKeyStoredInVault') : ''}
                 defaultValue={keyText}
                 onChange={(key) => {
                     setKeyText(key);
@@ -210,8 +334,8 @@ const ServicePanel: React.FC<ServicePanelProps> = ({ serviceName, variant, servi
                 }}
                 error={!!keyErr}
                 helperText={keyErr}
-                required
-            />}
+                required={!local}
+            />
             {variant === 'add' && <div className='service-panel__buttons'>
                 <div></div>
                 <div>
@@ -227,7 +351,7 @@ const ServicePanel: React.FC<ServicePanelProps> = ({ serviceName, variant, servi
                 <div>
                     <Button variant='outlined' onClick={() => setConfirmDelete(true)}>{getMessage('delete')}</Button>
                     {confirmDelete && <ConfirmDelete
-                        onConfirm={() => onDelete(serviceName)}
+                        onConfirm={() => onDelete(serviceValue.source)}
                         onCancel={() => setConfirmDelete(false)}
                         onClose={() => setConfirmDelete(false)}
                         drawerTitle={getMessage('confirmDeleteService')}
@@ -246,4 +370,39 @@ const ServicePanel: React.FC<ServicePanelProps> = ({ serviceName, variant, servi
     );
 };
 
+const promptLanguageLabels: { [K: string]: string; } = { 'en': 'English', 'ja': '日本語', 'zh-CN': '简体中文' };
+
+const previewSamples = {
+    word: 'bank',
+    sentence: 'The bank raised its rates again.'
+};
+
+// "wordTemplate" replaces the template for the word sample while the dictionary mode is on.
+const PromptPreview: React.FC<{ template: string; wordTemplate?: string; promptLanguage: string; }> = ({ template, wordTemplate, promptLanguage }) => {
+    const [sample, setSample] = useState<keyof typeof previewSamples>('word');
+
+    const messages = useMemo(() => buildPromptMessages({
+        template: sample === 'word' && wordTemplate ? wordTemplate : template,
+        text: previewSamples[sample],
+        from: LANG_EN,
+        to: scOptions.getInit().preferredLanguage,
+        promptLanguage,
+        context: { pageTitle: 'River walks near the old town', host: 'example.com', paragraph: 'We had a picnic on the bank of the river and watched the boats.' }
+    }), [template, wordTemplate, promptLanguage, sample]);
+
+    return (
+        <div className='service-panel__preview'>
+            <div className='service-panel__prompt-language'>
+                {getMessage('optionsPromptPreview')}
+                <Radio name='prompt-preview' value='word' label={previewSamples.word} checked={sample === 'word'} onChange={() => setSample('word')} />
+                <Radio name='prompt-preview' value='sentence' label={previewSamples.sentence} checked={sample === 'sentence'} onChange={() => setSample('sentence')} />
+            </div>
+            {messages.map((message, index) => (<div key={index} className='service-panel__preview__message'>
+                <div className='service-panel__preview__role'>{message.role}</div>
+                <pre>{message.content}</pre>
+            </div>))}
+        </div>
+    );
+};
+
 export default ThirdPartyServices;
\ No newline at end of file
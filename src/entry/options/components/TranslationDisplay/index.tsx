@@ -59,6 +59,11 @@ const TranslationDisplay: React.FC<TranslationDisplayProps> = ({ displayOfTransl
                     checked={displayOfTranslation.sourceLanguage}
                     onChange={v => onChange({ ...displayOfTranslation, sourceLanguage: v })}
                 />
+                <Checkbox
+                    label={getMessage('optionsBilingualSentences')}
+                    checked={displayOfTranslation.bilingualSentences}
+                    onChange={v => onChange({ ...displayOfTranslation, bilingualSentences: v })}
+                />
             </div>
             <div className='translation-display__preview'>
                 <div>
@@ -20,14 +20,15 @@ const dataOfDisplayMode = [{
 type WebPageTranslateDisplayModeProps = {
     update: (displayMode: number) => void;
     displayMode: number;
+    name?: string;
 };
 
-const WebPageTranslateDisplayMode: React.FC<WebPageTranslateDisplayModeProps> = ({ update, displayMode }) => {
+const WebPageTranslateDisplayMode: React.FC<WebPageTranslateDisplayModeProps> = ({ update, displayMode, name = 'webpage-translate-display-mode' }) => {
     return (
         <div className='wpt-display-mode'>
             {dataOfDisplayMode.map((item) => (<span key={item.id} className='wpt-display-mode__item'>
                 <Radio
-                    name='webpage-translate-display-mode'
+                    name={name}
                     value={item.value.toString()}
                     label={item.message}
                     checked={displayMode === item.value}
@@ -1,16 +1,18 @@
 import React, { useEffect } from 'react';
 import LanguageSelection from '../../../components/LanguageSelection';
 import MtAddSource from '../../../components/MtAddSource';
+import MtCompare from '../../../components/MtCompare';
 import MtResult from '../../../components/MtResult';
 import RawText from '../../../components/RawText';
 import { mtLangCode } from '../../../constants/langCode';
 import './style.css';
 import '../../../components/PopupHeader/style.css';
-import { useAppDispatch, useEffectOnce, useOptions, useTranslation } from '../../../public/react-use';
+import { useAppDispatch, useAppSelector, useEffectOnce, useOptions, useTranslation } from '../../../public/react-use';
 import { getMessage } from '../../../public/i18n';
 import { GetStorageKeys } from '../../../types';
 import { callOutPanel } from '../../../redux/slice/panelStatusSlice';
 import CollectButton from '../../../components/PanelIconButtons/CollectButton';
+import CompareButton from '../../../components/PanelIconButtons/CompareButton';
 import OpenOptionsPageButton from '../../../components/PanelIconButtons/OpenOptionsPageButton';
 import SwitchThemeButton from '../../../components/PanelIconButtons/SwitchThemeButton';
 import OpenCollectionPageButton from '../../../components/PanelIconButtons/OpenCollectionPageButton';
@@ -28,6 +30,8 @@ const Separate: React.FC = () => {
 
     const { rememberStwSizeAndPosition } = useOptions(useOptionsDependency);
 
+    const { compareMode } = useAppSelector(state => state.panelStatus);
+
     useEffectOnce(() => {
         const text = new URL(window.location.href).searchParams.get('text');
         text && setText(text);
@@ -72,6 +76,7 @@ const Separate: React.FC = () => {
                 <div className='popup-header__logo flex-align-items-center'></div>
                 <div className='popup-header__icons flex-align-items-center'>
                     <CollectButton />
+                    <CompareButton />
                     <OpenCollectionPageButton />
                     <SwitchThemeButton />
                     <OpenOptionsPageButton />
@@ -94,6 +99,11 @@ const Separate: React.FC = () => {
                             <div className='separate-container__add-source'>{getMessage('sentenceAddTranslateSource')}</div>
                             <MtAddSource translations={translations} addSource={addSource} />
                         </>
+                    ) : compareMode && translations.length > 1 ? (
+                        <MtCompare
+                            text={text}
+                            translations={translations}
+                        />
                     ) : (
                         translations.map(({ source, translateRequest }) => (
                             <MtResult
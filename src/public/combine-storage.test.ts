@@ -0,0 +1,30 @@
+import { beforeEach, describe, expect, test } from '@jest/globals';
+import { combineStorage } from './combine-storage';
+import { resetStorage } from '../test/setup';
+import { DefaultOptions } from '../types';
+
+describe('combine storage', () => {
+    beforeEach(() => {
+        resetStorage();
+    });
+
+    test('migrates custom sources of a backup from before definitions existed', async () => {
+        const storage = await combineStorage({
+            customTranslateSourceList: [{ name: 'Example', url: 'https://translate.example.com/api/translate?key=sk-test&tc=1', source: 'custom-example' }],
+            customWebpageTranslateSourceList: [{ name: 'Example', url: 'https://translate.example.com/api/page', source: 'custom-page' }],
+            credentialVault: { salt: 'salt', check: { iv: 'iv', data: 'data' }, secrets: {} }
+        });
+
+        // The vault is only exported when asked for, which "SyncOptions" leaves out.
+        const { credentialVault } = storage as typeof storage & Pick<DefaultOptions, 'credentialVault'>;
+        const [source] = storage.customTranslateSourceList;
+        const [webpageSource] = storage.customWebpageTranslateSourceList;
+
+        expect(source.url).toBe('https://translate.example.com/api/translate');
+        expect(source.definition?.body).toMatchObject({ translatorCode: '1', texts: '{texts}' });
+        expect(credentialVault.salt).toBe('salt');
+        expect(credentialVault.plainSecrets[source.secrets!.key]).toEqual({ name: 'Example key', value: 'sk-test' });
+        expect(webpageSource).toMatchObject({ url: 'https://translate.example.com/api/page', secrets: {} });
+        expect(webpageSource.definition?.success).toEqual([{ path: 'code', equals: 'S000000' }, { path: 'data' }]);
+    });
+});
\ No newline at end of file
@@ -3,16 +3,20 @@ import { styleVarsList } from '../constants/defaultStyleVars';
 import { langCode, LANG_EN, userLangs } from '../constants/langCode';
 import { translateButtonContext } from '../constants/translateButtonTypes';
 import { audioSource, GOOGLE_COM, translateSource, webPageTranslateSource } from '../constants/translateSource';
-import { CustomTranslateSource, DefaultOptions, OptionsContextMenu, SyncOptions, TextPreprocessingRegExp } from '../types';
+import { CustomTranslateSource, DefaultOptions, LLMModelPrice, OptionsContextMenu, SyncOptions, TextPreprocessingRegExp } from '../types';
 import { SerializableObject } from './sc-file';
 import { langCode as googleLangCode } from './translate/google/lang-code';
 import scOptions from './sc-options';
+import { getWebpageTranslateServiceSources } from '../constants/thirdPartyServiceValues';
+import { isCustomSourceDefinition, migrateCustomTranslateSources } from './translate/custom/definition';
+import { CredentialVault } from './credential-vault';
 
 const { auto, ...preferredLangCode } = googleLangCode;
 
 type Addition = {
     availableSources: string[];
     wpAvailableSources: string[];
+    credentialVault: CredentialVault;
 };
 
 const CheckData = (() => {
@@ -63,17 +67,27 @@ const CheckData = (() => {
     };
 })();
 
+// "definition" and "secrets" are optional, the rest must have the same structure.
+const isCustomTranslateSourceList = (next: any): next is CustomTranslateSource[] => {
+    const comparison = { name: '', source: '', url: '' };
+
+    return Array.isArray(next) && next.every(v => (
+        CheckData.isSameStucture(comparison, { name: v?.name, source: v?.source, url: v?.url })
+        && (v.definition === undefined || isCustomSourceDefinition(v.definition))
+        && (v.secrets === undefined || CheckData.getTypeOf(v.secrets) === 'object')
+    ));
+};
+
+// Sources exported before 5.10.0 are migrated as on update, their keys go into the credential vault.
 const reducerMap: [(keyof DefaultOptions)[], <S>(origin: S, next: any, addition: Addition) => S][] = [[
     ['customTranslateSourceList'],
-    (origin, next) => {
-        const comparison: CustomTranslateSource = { name: '', source: '', url: '' };
-        return CheckData.isArrayOf(comparison, next) ? (next as any[]).filter(v => !translateSource.map(s => s.source).includes(v.source)) as any : origin;
+    (origin, next, { credentialVault }) => {
+        return isCustomTranslateSourceList(next) ? migrateCustomTranslateSources(next.filter(v => !translateSource.map(s => s.source).includes(v.source)), false, credentialVault) as any : origin;
     }
 ], [
     ['customWebpageTranslateSourceList'],
-    (origin, next) => {
-        const comparison: CustomTranslateSource = { name: '', source: '', url: '' };
-        return CheckData.isArrayOf(comparison, next) ? (next as any[]).filter(v => !webPageTranslateSource.map(s => s.source).includes(v.source)) as any : origin;
+    (origin, next, { credentialVault }) => {
+        return isCustomTranslateSourceList(next) ? migrateCustomTranslateSources(next.filter(v => !webPageTranslateSource.map(s => s.source).includes(v.source)), true, credentialVault) as any : origin;
     }
 ], [
     ['userLanguage'],
@@ -179,6 +193,29 @@ const reducerMap: [(keyof DefaultOptions)[], <S>(origin: S, next: any, addition:
     (origin, next, { wpAvailableSources }) => {
         return wpAvailableSources.includes(next) ? next : wpAvailableSources.includes(origin as any) ? origin : GOOGLE_COM;
     }
+], [
+    ['credentialVault'],
+    (origin, next) => {
+        // An exported vault is only taken into a browser without one, secrets never come unencrypted.
+        // Keys stored here before the passphrase stay in "plainSecrets" until the imported vault is unlocked.
+        const comparison = { salt: '', check: { iv: '', data: '' } };
+        const isVault = CheckData.isSameStucture(comparison, { salt: next.salt, check: next.check }) && CheckData.getTypeOf(next.secrets) === 'object';
+
+        const originVault = origin as DefaultOptions['credentialVault'];
+
+        return isVault && next.salt && !originVault.salt ? { salt: next.salt, check: next.check, secrets: next.secrets, plainSecrets: originVault.plainSecrets } as any : origin;
+    }
+], [
+    ['llmModelPrices'],
+    (origin, next) => {
+        const comparison: LLMModelPrice = { model: '', input: 0, output: 0 };
+        return CheckData.isArrayOf(comparison, next) ? next : origin;
+    }
+], [
+    ['llmBudgetAction'],
+    (origin, next) => {
+        return ['warn', 'block'].includes(next) ? next : origin;
+    }
 ], [
     ['customizeStyleText'],
     (origin, next) => {
@@ -204,12 +241,12 @@ export const combineStorage = async (newData: any) => {
     if (CheckData.getTypeOf(newData) !== 'object') { throw new Error('Error: Data is not an "object".'); }
     const { sourceParamsCache, ...data } = await scOptions.get(null);
     const oldData: SyncOptions = data;
-    const addition: Addition = { availableSources: [], wpAvailableSources: [] };
+    const addition: Addition = { availableSources: [], wpAvailableSources: [], credentialVault: data.credentialVault };
     oldData.customTranslateSourceList = nextValue('customTranslateSourceList', oldData.customTranslateSourceList, newData.customTranslateSourceList, addition);
-    addition.availableSources = translateSource.concat(oldData.customTranslateSourceList).map(v => v.source);
+    addition.availableSources = translateSource.concat(oldData.customTranslateSourceList).map(v => v.source).concat(oldData.enabledThirdPartyServices.map(v => v.source));
 
     oldData.customWebpageTranslateSourceList = nextValue('customWebpageTranslateSourceList', oldData.customWebpageTranslateSourceList, newData.customWebpageTranslateSourceList, addition);
-    addition.wpAvailableSources = webPageTranslateSource.concat(oldData.customWebpageTranslateSourceList).map(v => v.source);
+    addition.wpAvailableSources = webPageTranslateSource.concat(oldData.customWebpageTranslateSourceList, getWebpageTranslateServiceSources(oldData.enabledThirdPartyServices)).map(v => v.source);
 
     delete newData.customTranslateSourceList;
     delete newData.customWebpageTranslateSourceList;
@@ -0,0 +1,61 @@
+export type DiffPart = {
+    value: string;
+    type: 'equal' | 'added' | 'removed';
+};
+
+// Words of Chinese and Japanese are split into characters, a changed character shouldn't mark the whole word.
+const tokenize = (text: string) => [...new Intl.Segmenter(undefined, { granularity: 'word' }).segment(text)].flatMap(({ segment }) => (
+    /[\p{sc=Han}\p{sc=Hiragana}\p{sc=Katakana}]/u.test(segment) ? [...segment] : [segment]
+));
+
+// Above this the table of the longest common subsequence takes too much memory, the texts are shown as entirely different.
+const MAX_DIFF_CELLS = 250000;
+
+// Differences of "text" from "referenceText", word by word.
+export const diffWords = (referenceText: string, text: string): DiffPart[] => {
+    const a = tokenize(referenceText);
+    const b = tokenize(text);
+
+    if (a.length * b.length > MAX_DIFF_CELLS) {
+        return [{ value: referenceText, type: 'removed' }, { value: text, type: 'added' }].filter(({ value }) => value) as DiffPart[];
+    }
+
+    // lengths[i][j] is the length of the longest common subsequence of a[i:] and b[j:].
+    const lengths: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+        }
+    }
+
+    const parts: DiffPart[] = [];
+
+    const push = (value: string, type: DiffPart['type']) => {
+        const last = parts[parts.length - 1];
+
+        last?.type === type ? (last.value += value) : parts.push({ value, type });
+    };
+
+    let i = 0;
+    let j = 0;
+
+    while (i < a.length && j < b.length) {
+        if (a[i] === b[j]) {
+            push(a[i], 'equal');
+            i++;
+            j++;
+        }
+        else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+            push(a[i++], 'removed');
+        }
+        else {
+            push(b[j++], 'added');
+        }
+    }
+
+    a.slice(i).forEach(token => push(token, 'removed'));
+    b.slice(j).forEach(token => push(token, 'added'));
+
+    return parts;
+};
\ No newline at end of file
@@ -0,0 +1,239 @@
+import { CREDENTIALS_LOCKED } from '../constants/errorCodes';
+import { DefaultOptions } from '../types';
+import { EnabledThirdPartyServices, ThirdPartyServiceValue } from '../types/thirdPartyValue';
+import scOptions from './sc-options';
+import { getError } from './translate/utils';
+
+type EncryptedValue = {
+    iv: string;
+    data: string;
+};
+
+// "salt" is empty until a passphrase is set, secrets stay in "plainSecrets" till then.
+export type CredentialVault = {
+    salt: string;
+    check: EncryptedValue;
+    secrets: { [id: string]: EncryptedValue & { name: string; }; };
+    plainSecrets: { [id: string]: { name: string; value: string; }; };
+};
+
+export type SecretEntry = {
+    id: string;
+    name: string;
+    value: string;
+};
+
+// The derived key is kept in "chrome.storage.session" which is cleared when the browser quits and is not exposed to content scripts.
+const SESSION_KEY = 'credentialVaultKey';
+const CHECK_TEXT = 'sc-translator-credential-vault';
+const PBKDF2_ITERATIONS = 600000;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const toBase64 = (buffer: ArrayBuffer | Uint8Array) => btoa(String.fromCharCode(...new Uint8Array(buffer)));
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), char => char.charCodeAt(0));
+
+const deriveKey = async (passphrase: string, salt: Uint8Array) => {
+    const material = await crypto.subtle.importKey('raw', encoder.encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+
+    return await crypto.subtle.deriveKey(
+        { name: 'PBKDF2', salt: salt as BufferSource, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+        material,
+        { name: 'AES-GCM', length: 256 },
+        true,
+        ['encrypt', 'decrypt']
+    );
+};
+
+const encrypt = async (key: CryptoKey, text: string): Promise<EncryptedValue> => {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, encoder.encode(text));
+
+    return { iv: toBase64(iv), data: toBase64(data) };
+};
+
+const decrypt = async (key: CryptoKey, { iv, data }: EncryptedValue) => {
+    return decoder.decode(await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(iv) as BufferSource }, key, fromBase64(data) as BufferSource));
+};
+
+const getSessionKey = async () => {
+    const { [SESSION_KEY]: jwk } = await chrome.storage.session.get(SESSION_KEY);
+
+    return jwk ? await crypto.subtle.importKey('jwk', jwk, 'AES-GCM', true, ['encrypt', 'decrypt']) : null;
+};
+
+const setSessionKey = async (key: CryptoKey) => {
+    await chrome.storage.session.set({ [SESSION_KEY]: await crypto.subtle.exportKey('jwk', key) });
+};
+
+const getVault = async () => {
+    const { credentialVault } = await scOptions.get(['credentialVault']);
+
+    return credentialVault;
+};
+
+export const isVaultSetUp = (vault: CredentialVault) => !!vault.salt;
+
+export const isVaultUnlocked = async () => !!(await getSessionKey());
+
+export const hasSecret = (vault: CredentialVault, id: string) => (id in vault.secrets || id in vault.plainSecrets);
+
+export const createSecretId = () => crypto.randomUUID();
+
+// Secrets stored before the passphrase are encrypted with it right away.
+export const setUpVault = async (passphrase: string) => {
+    const vault = await getVault();
+
+    if (isVaultSetUp(vault)) { return; }
+
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    const key = await deriveKey(passphrase, salt);
+
+    const secrets: CredentialVault['secrets'] = {};
+
+    for (const [id, { name, value }] of Object.entries(vault.plainSecrets)) {
+        secrets[id] = { name, ...await encrypt(key, value) };
+    }
+
+    scOptions.set({ credentialVault: { salt: toBase64(salt), check: await encrypt(key, CHECK_TEXT), secrets, plainSecrets: {} } });
+
+    await setSessionKey(key);
+};
+
+export const unlockVault = async (passphrase: string) => {
+    const vault = await getVault();
+
+    if (!isVaultSetUp(vault)) { return false; }
+
+    const key = await deriveKey(passphrase, fromBase64(vault.salt));
+
+    try {
+        if (await decrypt(key, vault.check) !== CHECK_TEXT) { return false; }
+    }
+    catch {
+        return false;
+    }
+
+    await setSessionKey(key);
+
+    // Kept unencrypted when a vault was imported over them.
+    if (Object.keys(vault.plainSecrets).length > 0) {
+        const secrets = { ...vault.secrets };
+
+        for (const [id, { name, value }] of Object.entries(vault.plainSecrets)) {
+            secrets[id] = { name, ...await encrypt(key, value) };
+        }
+
+        scOptions.set({ credentialVault: { ...vault, secrets, plainSecrets: {} } });
+    }
+
+    return true;
+};
+
+export const lockVault = async () => {
+    await chrome.storage.session.remove(SESSION_KEY);
+};
+
+// For a forgotten passphrase, every secret has to be entered again.
+export const resetVault = async () => {
+    await lockVault();
+
+    scOptions.set({ credentialVault: { salt: '', check: { iv: '', data: '' }, secrets: {}, plainSecrets: {} } });
+};
+
+export const setSecrets = async (entries: SecretEntry[]) => {
+    const vault = await getVault();
+    const secrets = { ...vault.secrets };
+    const plainSecrets = { ...vault.plainSecrets };
+
+    if (isVaultSetUp(vault)) {
+        const key = await getSessionKey();
+
+        if (!key) { throw getError(CREDENTIALS_LOCKED); }
+
+        for (const { id, name, value } of entries) {
+            secrets[id] = { name, ...await encrypt(key, value) };
+        }
+    }
+    else {
+        entries.forEach(({ id, name, value }) => { plainSecrets[id] = { name, value }; });
+    }
+
+    scOptions.set({ credentialVault: { ...vault, secrets, plainSecrets } });
+};
+
+export const deleteSecrets = async (ids: string[]) => {
+    const vault = await getVault();
+    const secrets = { ...vault.secrets };
+    const plainSecrets = { ...vault.plainSecrets };
+
+    ids.forEach((id) => {
+        delete secrets[id];
+        delete plainSecrets[id];
+    });
+
+    scOptions.set({ credentialVault: { ...vault, secrets, plainSecrets } });
+};
+
+// An unknown id reads as an empty string, callers tell the user that the key is required.
+export const getSecret = async (id: string) => {
+    const vault = await getVault();
+
+    if (id in vault.plainSecrets) { return vault.plainSecrets[id].value; }
+
+    if (!(id in vault.secrets)) { return ''; }
+
+    const key = await getSessionKey();
+
+    if (!key) { throw getError(CREDENTIALS_LOCKED); }
+
+    try {
+        return await decrypt(key, vault.secrets[id]);
+    }
+    catch {
+        throw getError(CREDENTIALS_LOCKED);
+    }
+};
+
+export const getSecrets = async (ids: { [name: string]: string; }) => {
+    const values: { [name: string]: string; } = {};
+
+    for (const [name, id] of Object.entries(ids)) {
+        values[name] = await getSecret(id);
+    }
+
+    return values;
+};
+
+// Names of the secrets that are referred to but not in the vault, e.g. after settings are imported from another browser.
+export const getMissingSecrets = ({ credentialVault, enabledThirdPartyServices, customTranslateSourceList, customWebpageTranslateSourceList }: Pick<DefaultOptions, 'credentialVault' | 'enabledThirdPartyServices' | 'customTranslateSourceList' | 'customWebpageTranslateSourceList'>) => {
+    const missingServices = enabledThirdPartyServices.filter(({ keyId }) => keyId && !hasSecret(credentialVault, keyId)).map(({ name }) => name);
+
+    const missingSourceSecrets = customTranslateSourceList.concat(customWebpageTranslateSourceList).flatMap(({ name, secrets }) => (
+        Object.entries(secrets ?? {}).filter(([, id]) => !hasSecret(credentialVault, id)).map(([secretName]) => `${name} {secret:${secretName}}`)
+    ));
+
+    return missingServices.concat(missingSourceSecrets);
+};
+
+// In 5.10.0, keys move from the services into the vault, unencrypted until a passphrase is set.
+export const migrateServiceKeys = (services: (ThirdPartyServiceValue & { key?: string; })[], vault: CredentialVault): EnabledThirdPartyServices => {
+    return services.map(({ key, ...service }) => {
+        if (!key) { return service; }
+
+        const id = createSecretId();
+
+        vault.plainSecrets[id] = { name: `${service.name} API Key`, value: key };
+
+        return { ...service, keyId: id };
+    });
+};
+
+export const storePlainSecret = (vault: CredentialVault, name: string, value: string) => {
+    const id = createSecretId();
+
+    vault.plainSecrets[id] = { name, value };
+
+    return id;
+};
\ No newline at end of file
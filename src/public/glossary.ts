@@ -0,0 +1,84 @@
+import scIndexedDB, { DB_STORE_GLOSSARY, StoreGlossaryValue } from './sc-indexed-db';
+
+export type GlossaryEntry = Omit<StoreGlossaryValue, 'id'>;
+
+const placeholderRegExp = /\{\{\s*(\d+)\s*\}\}/g;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const getTermRegExp = ({ source, caseSensitive }: GlossaryEntry) => {
+    let pattern = escapeRegExp(source);
+
+    // Latin terms must not match inside other words, e.g. "API" in "RAPID".
+    /^[a-z0-9]/i.test(source) && (pattern = `(?<![a-z0-9])${pattern}`);
+    /[a-z0-9]$/i.test(source) && (pattern = `${pattern}(?![a-z0-9])`);
+
+    return new RegExp(pattern, caseSensitive ? 'g' : 'gi');
+};
+
+// Only works in background and extension pages, content scripts use `sendGetGlossary`.
+// An empty "from" or "to" is auto, entries of any language are taken for it.
+export const getGlossaryEntries = async (from: string, to: string): Promise<GlossaryEntry[]> => {
+    const entries = await scIndexedDB.getAll(DB_STORE_GLOSSARY);
+
+    return entries.filter(entry => (
+        entry.source.trim()
+        && (!entry.from || !from || entry.from === from)
+        && (!entry.to || !to || entry.to === to)
+    )).map(({ id, ...entry }) => entry);
+};
+
+// Changes whenever an entry is added, edited or deleted, so results of another glossary are not reused.
+export const getGlossaryVersion = async () => {
+    const json = JSON.stringify(await scIndexedDB.getAll(DB_STORE_GLOSSARY));
+
+    let hash = 0;
+
+    for (let i = 0; i < json.length; i++) {
+        hash = (hash * 31 + json.charCodeAt(i)) | 0;
+    }
+
+    return `${json.length}-${hash}`;
+};
+
+// Replace terms with placeholders like "{{0}}" which translate engines leave alone.
+export const protectTerms = (texts: string[], entries: GlossaryEntry[]) => {
+    const replacements: string[] = [];
+
+    const sortedEntries = [...entries].sort((a, b) => b.source.length - a.source.length);
+
+    const protectedTexts = texts.map((text) => {
+        sortedEntries.forEach((entry) => {
+            const termRegExp = getTermRegExp(entry);
+
+            // Skip the placeholders which have been added already.
+            text = text.split(/(\{\{\d+\}\})/).map((part, index) => (index % 2 ? part : part.replace(termRegExp, (match) => {
+                replacements.push(entry.doNotTranslate ? match : entry.target);
+
+                return `{{${replacements.length - 1}}}`;
+            }))).join('');
+        });
+
+        return text;
+    });
+
+    const restore = (text: string) => {
+        if (replacements.length === 0) { return text; }
+
+        return text.replace(placeholderRegExp, (match, index) => (replacements[Number(index)] ?? match));
+    };
+
+    return { texts: protectedTexts, restore };
+};
+
+export const getGlossaryPrompt = (entries: GlossaryEntry[]) => {
+    if (entries.length === 0) { return ''; }
+
+    const lines = entries.map(({ source, target, doNotTranslate, caseSensitive }) => {
+        const term = caseSensitive ? `"${source}" (case-sensitive)` : `"${source}"`;
+
+        return doNotTranslate ? `- ${term}: keep it untranslated` : `- ${term}: translate it as "${target}"`;
+    });
+
+    return `Follow this glossary strictly:\n${lines.join('\n')}`;
+};
\ No newline at end of file
@@ -0,0 +1,70 @@
+import { LLM_BUDGET_EXCEEDED } from '../constants/errorCodes';
+import { LLMModelPrice } from '../types';
+import { ThirdPartyServiceValue } from '../types/thirdPartyValue';
+import scIndexedDB, { DB_STORE_LLM_USAGE, StoreLLMUsageValue } from './sc-indexed-db';
+import scOptions from './sc-options';
+import { getError } from './translate/utils';
+
+export type LLMUsage = Pick<StoreLLMUsageValue, 'promptTokens' | 'completionTokens' | 'estimated'>;
+
+// About 4 characters a token for alphabetic text and a token a character for CJK, only used when the API reports nothing.
+export const estimateTokens = (text: string) => {
+    const cjkLength = text.match(/[\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af\uf900-\ufaff]/g)?.length ?? 0;
+
+    return Math.ceil(cjkLength + (text.length - cjkLength) / 4);
+};
+
+// Chat Completions reports "prompt_tokens" and "completion_tokens", the Responses API "input_tokens" and "output_tokens".
+export const getLLMUsage = (usage: any, prompt: string, completion: string): LLMUsage => {
+    const promptTokens = usage?.prompt_tokens ?? usage?.input_tokens;
+    const completionTokens = usage?.completion_tokens ?? usage?.output_tokens;
+
+    if (typeof promptTokens === 'number' && typeof completionTokens === 'number') {
+        return { promptTokens, completionTokens, estimated: false };
+    }
+
+    return { promptTokens: estimateTokens(prompt), completionTokens: estimateTokens(completion), estimated: true };
+};
+
+// Usage is a record for the dashboard, failing to write it must not fail the translation.
+export const recordLLMUsage = ({ source, name, model = '', url = '' }: ThirdPartyServiceValue, usage: LLMUsage) => {
+    let host = '';
+
+    try {
+        host = new URL(url).host;
+    }
+    catch {}
+
+    scIndexedDB.add(DB_STORE_LLM_USAGE, { date: Date.now(), source, serviceName: name, model, host, ...usage }).catch(() => {});
+};
+
+export const getModelPrice = (model: string, prices: LLMModelPrice[]) => {
+    return prices.find(price => price.model.trim().toLowerCase() === model.trim().toLowerCase());
+};
+
+// Models without a price cost nothing as far as we know.
+export const getLLMUsageCost = ({ model, promptTokens, completionTokens }: Pick<StoreLLMUsageValue, 'model' | 'promptTokens' | 'completionTokens'>, prices: LLMModelPrice[]) => {
+    const price = getModelPrice(model, prices);
+
+    return price ? (promptTokens * price.input + completionTokens * price.output) / 1000000 : 0;
+};
+
+export const getMonthStart = (date = new Date()) => Number(new Date(date.getFullYear(), date.getMonth(), 1));
+
+export const getLLMUsageSince = (date: number) => scIndexedDB.getAllByIndex(DB_STORE_LLM_USAGE, 'date', IDBKeyRange.lowerBound(date));
+
+// Checked before each request, throws when the budget blocks and resolves to true when it only warns.
+export const checkLLMBudget = async () => {
+    const { llmMonthlyBudget, llmBudgetAction, llmModelPrices } = await scOptions.get(['llmMonthlyBudget', 'llmBudgetAction', 'llmModelPrices']);
+
+    if (!(llmMonthlyBudget > 0)) { return false; }
+
+    const values = await getLLMUsageSince(getMonthStart());
+    const cost = values.reduce((total, value) => total + getLLMUsageCost(value, llmModelPrices), 0);
+
+    if (cost < llmMonthlyBudget) { return false; }
+
+    if (llmBudgetAction === 'block') { throw getError(LLM_BUDGET_EXCEEDED); }
+
+    return true;
+};
\ No newline at end of file
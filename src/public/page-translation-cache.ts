@@ -0,0 +1,168 @@
+import type { WebpageTranslateResult } from './web-page-translate';
+import scIndexedDB, { DB_STORE_PAGE_TRANSLATION_CACHE, getPageTranslationCacheEntrySize, StorePageTranslationCacheValue } from './sc-indexed-db';
+import scOptions from './sc-options';
+
+export type PageTranslationCacheFilter = {
+    host?: string;
+    source?: string;
+    from?: string;
+    to?: string;
+    // Entries last used before this time.
+    before?: number;
+};
+
+export type PageTranslationCacheUsage = {
+    source: string;
+    from: string;
+    to: string;
+    entries: number;
+    size: number;
+};
+
+export type PageTranslationCacheStats = {
+    hits: number;
+    misses: number;
+};
+
+export const getCacheQuerySuffix = (source: string, from: string, to: string) => (`&source=${source}&from=${from}&to=${to}`);
+export const getCacheQuery = (key: string, suffix: string) => (`key=${key}${suffix}`);
+
+// Entries saved before 5.10.0 only have them in "query".
+export const getCacheScope = ({ query, source, from, to }: StorePageTranslationCacheValue) => {
+    if (source !== undefined) { return { source, from: from ?? '', to: to ?? '' }; }
+
+    const [, querySource = '', queryFrom = '', queryTo = ''] = query.match(/&source=([^&]*)&from=([^&]*)&to=([^&]*)$/) ?? [];
+
+    return { source: querySource, from: queryFrom, to: queryTo };
+};
+
+const matchFilter = (value: StorePageTranslationCacheValue, { host, source, from, to }: PageTranslationCacheFilter) => {
+    const scope = getCacheScope(value);
+
+    return (host === undefined || value.host === host)
+        && (source === undefined || scope.source === source)
+        && (from === undefined || scope.from === from)
+        && (to === undefined || scope.to === to);
+};
+
+export const getPageTranslationCacheEntries = async (filter: PageTranslationCacheFilter = {}) => {
+    const values = filter.before === undefined
+        ? await scIndexedDB.getAll(DB_STORE_PAGE_TRANSLATION_CACHE)
+        : await scIndexedDB.getAllByIndex(DB_STORE_PAGE_TRANSLATION_CACHE, 'date', IDBKeyRange.upperBound(filter.before, true));
+
+    return values.filter(value => matchFilter(value, filter));
+};
+
+export const deletePageTranslationCache = async (filter: PageTranslationCacheFilter) => {
+    const values = await getPageTranslationCacheEntries(filter);
+
+    values.length > 0 && await scIndexedDB.delete(DB_STORE_PAGE_TRANSLATION_CACHE, values.map(value => value.query));
+
+    return values.length;
+};
+
+export const getPageTranslationCacheUsage = async () => {
+    const usageMap = new Map<string, PageTranslationCacheUsage>();
+
+    (await scIndexedDB.getAll(DB_STORE_PAGE_TRANSLATION_CACHE)).forEach((value) => {
+        const { source, from, to } = getCacheScope(value);
+        const usageKey = getCacheQuerySuffix(source, from, to);
+        const usage = usageMap.get(usageKey) ?? { source, from, to, entries: 0, size: 0 };
+
+        usage.entries += 1;
+        usage.size += value.size;
+
+        usageMap.set(usageKey, usage);
+    });
+
+    return [...usageMap.values()];
+};
+
+// Least recently used first, "date" is updated whenever an entry is hit.
+export const applyPageTranslationCacheQuota = async () => {
+    const { pageTranslationCacheMaxEntries, pageTranslationCacheMaxSize } = await scOptions.get(['pageTranslationCacheMaxEntries', 'pageTranslationCacheMaxSize']);
+
+    if (pageTranslationCacheMaxEntries <= 0 && pageTranslationCacheMaxSize <= 0) { return; }
+
+    const maxSize = pageTranslationCacheMaxSize * 1024 * 1024;
+
+    // Only the sizes are read, the translations of the entries are left on disk.
+    let entries = await scIndexedDB.count(DB_STORE_PAGE_TRANSLATION_CACHE);
+    let size = maxSize > 0 ? (await scIndexedDB.getAllIndexKeys(DB_STORE_PAGE_TRANSLATION_CACHE, 'size')).reduce<number>((total, key) => total + Number(key), 0) : 0;
+
+    const isOverQuota = () => (pageTranslationCacheMaxEntries > 0 && entries > pageTranslationCacheMaxEntries) || (maxSize > 0 && size > maxSize);
+
+    if (!isOverQuota()) { return; }
+
+    await scIndexedDB.deleteByIndexWhile(DB_STORE_PAGE_TRANSLATION_CACHE, 'date', (value) => {
+        if (!isOverQuota()) { return false; }
+
+        entries -= 1;
+        size -= value.size;
+
+        return true;
+    });
+};
+
+export const withCacheEntrySize = (value: Omit<StorePageTranslationCacheValue, 'size'>): StorePageTranslationCacheValue => ({ ...value, size: getPageTranslationCacheEntrySize(value) });
+
+const isWebpageTranslateResult = (value: any): value is WebpageTranslateResult => {
+    return !!value && Array.isArray(value.translations) && value.translations.every((translation: unknown) => typeof translation === 'string');
+};
+
+// Bundles are arrays of exported entries, entries of old bundles may have their scope in "query" only.
+export const importPageTranslationCache = async (data: unknown) => {
+    if (!Array.isArray(data)) { return 0; }
+
+    const date = Date.now();
+
+    const values: StorePageTranslationCacheValue[] = data.flatMap((entry) => {
+        if (!entry || typeof entry.key !== 'string' || !isWebpageTranslateResult(entry.translation)) { return []; }
+
+        if (typeof entry.source !== 'string' && typeof entry.query !== 'string') { return []; }
+
+        const { source, from, to } = getCacheScope({ query: entry.query ?? '', source: entry.source, from: entry.from, to: entry.to } as StorePageTranslationCacheValue);
+
+        if (!source || !to) { return []; }
+
+        return withCacheEntrySize({
+            query: getCacheQuery(entry.key, getCacheQuerySuffix(source, from, to)),
+            key: entry.key,
+            date,
+            translation: entry.translation,
+            host: typeof entry.host === 'string' ? entry.host : '',
+            source,
+            from,
+            to
+        });
+    });
+
+    if (values.length === 0) { return 0; }
+
+    await scIndexedDB.addAll(DB_STORE_PAGE_TRANSLATION_CACHE, values);
+
+    await applyPageTranslationCacheQuota();
+
+    return values.length;
+};
+
+const STATS_KEY = 'pageTranslationCacheStats';
+
+// Counted in "chrome.storage.session", since the browser started.
+let statsQueue = Promise.resolve();
+
+export const getPageTranslationCacheStats = async (): Promise<PageTranslationCacheStats> => {
+    const { [STATS_KEY]: stats } = await chrome.storage.session.get(STATS_KEY);
+
+    return stats ?? { hits: 0, misses: 0 };
+};
+
+export const recordPageTranslationCacheLookups = (hits: number, misses: number) => {
+    statsQueue = statsQueue.then(async () => {
+        const stats = await getPageTranslationCacheStats();
+
+        await chrome.storage.session.set({ [STATS_KEY]: { hits: stats.hits + hits, misses: stats.misses + misses } });
+    }).catch(() => {});
+};
+
+export const resetPageTranslationCacheStats = () => chrome.storage.session.remove(STATS_KEY);
\ No newline at end of file
@@ -3,7 +3,7 @@ import { Position } from '../../types';
 import { setSelectionRange } from '../insert-result';
 import { selectedTextPreprocessing } from '../text-preprocessing';
 import { isTextBox } from '../utils';
-import { getSelectedText } from '../utils/get-selection';
+import { getSelectedText, recordSelectionParagraph } from '../utils/get-selection';
 
 const useGetSelection = (selectCallback: (params: { pos: Position, text: string }) => void, unselectCallback: () => void) => {
     const selectRef = useRef<typeof selectCallback>(undefined);
@@ -35,6 +35,8 @@ const useGetSelection = (selectCallback: (params: { pos: Position, text: string
 
                 lastSelectionTextRef.current = text;
 
+                recordSelectionParagraph(text);
+
                 selectRef.current?.({
                     pos: { x: e.clientX, y: e.clientY },
                     text
@@ -2,10 +2,10 @@ import { useCallback, useEffect, useRef } from 'react';
 import { useAppDispatch, useInsertResult, useTranslationActions } from '../../public/react-use';
 import { addHistory, updateHistoryError, updateHistoryFinish } from '../../redux/slice/translateHistorySlice';
 import { playAudio } from '../play-audio';
-import { TranslateResult } from '../../types';
-import { textPreprocessing } from '../text-preprocessing';
+import { sendAddToHistory } from '../send';
 
-const translateResultCacheMap = new Map<string, TranslateResult>();
+// "translateId" only counts within the page, prefix it to identify the persisted history record.
+const historyIdPrefix = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}-`;
 
 const useTranslation = (extra?: { recordTranslation?: boolean; insertTranslation?: boolean; }) => {
     const recordTranslation = extra?.recordTranslation;
@@ -13,11 +13,11 @@ const useTranslation = (extra?: { recordTranslation?: boolean; insertTranslation
 
     const { state, actions } = useTranslationActions();
 
-    const { fetchTranslationFromSource, requestFinish } = actions;
+    const { fetchTranslationFromSource } = actions;
 
     const dispatch = useAppDispatch();
 
-    const { text, translateId, translations, from, to } = state;
+    const { text, translateId, translations } = state;
 
     const lastTranslateIdRef = useRef(translateId);
     const firstFinished = useRef(false);
@@ -25,14 +25,8 @@ const useTranslation = (extra?: { recordTranslation?: boolean; insertTranslation
     const { insertable, confirmInsert, insertToggle: insertTranslationToggle, autoInsert } = useInsertResult();
 
     const translate = useCallback(async (source: string) => {
-        const cacheKey = [textPreprocessing(text), source, from, to].join('&');
-        const cache = translateResultCacheMap.get(cacheKey);
-
-        if (cache) {
-            requestFinish(source, cache);
-        }
-
-        const response = cache ? { translateId, translation: cache } : await fetchTranslationFromSource(source);
+        // Results are cached in background, shared with the other pages.
+        const response = await fetchTranslationFromSource(source);
 
         if (!response) { return; }
 
@@ -47,9 +41,9 @@ const useTranslation = (extra?: { recordTranslation?: boolean; insertTranslation
 
         if (recordTranslation) {
             dispatch(updateHistoryFinish({ translateId: response.translateId, source, result: response.translation }));
-        }
 
-        translateResultCacheMap.set(cacheKey, response.translation);
+            sendAddToHistory(historyIdPrefix + response.translateId, text, window.location.host, source, response.translation);
+        }
 
         if (!firstFinished.current) {
             firstFinished.current = true;
@@ -62,7 +56,7 @@ const useTranslation = (extra?: { recordTranslation?: boolean; insertTranslation
                 autoInsert(response.translateId, source, response.translation.result);
             }
         }
-    }, [fetchTranslationFromSource, autoInsert, dispatch, insertTranslation, recordTranslation, from, to, text, translateId, requestFinish]);
+    }, [fetchTranslationFromSource, autoInsert, dispatch, insertTranslation, recordTranslation, text]);
 
     useEffect(() => {
         if (lastTranslateIdRef.current === translateId) { return; }
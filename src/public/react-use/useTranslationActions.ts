@@ -20,8 +20,9 @@ const useTranslationActions = () => {
 
     const { text, from, to, translations } = state;
 
-    const fetchTranslationFromSource = useCallback(async (source: string) => {
-        return dispatch(fetchTranslationFromSourceAction(source)).unwrap();
+    // "bypassCache" asks the source again instead of taking the cached result.
+    const fetchTranslationFromSource = useCallback(async (source: string, bypassCache = false) => {
+        return dispatch(fetchTranslationFromSourceAction({ source, bypassCache })).unwrap();
     }, [dispatch]);
 
     const setText = useCallback((text: string) => {
@@ -41,7 +42,7 @@ const useTranslationActions = () => {
     }, [dispatch]);
 
     const retry = useCallback((source: string) => {
-        fetchTranslationFromSource(source);
+        fetchTranslationFromSource(source, true);
     }, [fetchTranslationFromSource]);
 
     const addSource = useCallback((source: string, addType: number) => {
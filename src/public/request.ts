@@ -11,8 +11,34 @@ import custom from '../public/translate/custom';
 import baidu from '../public/translate/baidu';
 import { translate as geminiTranslate } from '../public/translate/gemini/translate';
 import { translate as openaiTranslate } from '../public/translate/openai-compatibility/translate';
-import { AudioResponse, DetectResponse, TranslateResponse } from './send';
-import { getError } from './translate/utils';
+import { translate as ollamaTranslate } from '../public/translate/ollama/translate';
+import { translate as libreTranslate, detect as libreDetect } from '../public/translate/libre-translate/translate';
+import { translate as openaiWebTranslate } from '../public/web-page-translate/openai-compatibility/translate';
+import { translate as libreWebTranslate } from '../public/web-page-translate/libre-translate/translate';
+import { detectByChat } from './translate/local-server';
+import { translate as customWebTranslate } from '../public/web-page-translate/custom/translate';
+import { AudioResponse, DetectResponse, TranslateResponse, WebpageTranslateResponse } from './send';
+import { determineFromAndTo, getError, isLocalError, isRetryableError } from './translate/utils';
+import { RESULT_ERROR } from './translate/error-codes';
+import { TranslateContext, TranslateExtraParams, TranslateParams } from './translate/translate-types';
+import { TranslateResult } from '../types';
+import type { WebpageTranslateParams } from './web-page-translate';
+import { getGlossaryEntries, protectTerms } from './glossary';
+import { getThirdPartyService, isWebpageTranslateService, localServiceTypes, serviceDefaultValueMap } from '../constants/thirdPartyServiceValues';
+import { ThirdPartyServiceType } from '../types/thirdPartyValue';
+import { isSourceBenched, recordSourceFailure, recordSourceSuccess } from './source-health';
+import scOptions from './sc-options';
+import { checkLLMBudget } from './llm-usage';
+import { withTranslateResultCache } from './translate-result-cache';
+
+const serviceTranslateMap: { [K in ThirdPartyServiceType]: (params: TranslateParams, source: string, extra?: TranslateExtraParams) => Promise<TranslateResult>; } = {
+	Gemini: geminiTranslate,
+	ChatGPT: openaiTranslate,
+	OpenAI: openaiTranslate,
+	Ollama: ollamaTranslate,
+	LlamaCpp: openaiTranslate,
+	LibreTranslate: libreTranslate
+};
 
 type TranslateRequestParams = {
 	source: string;
@@ -22,10 +48,52 @@ type TranslateRequestParams = {
 	com: boolean;
 	preferredLanguage: string;
 	secondPreferredLanguage: string;
+	fallbackSources?: string[];
+	context?: TranslateContext;
+	bypassCache?: boolean;
+};
+
+// Results are shared by the panel, popup and separate window, "bypassCache" asks the source again.
+export const translate = ({ bypassCache = false, ...requestParams }: TranslateRequestParams, extra?: TranslateExtraParams): Promise<TranslateResponse> => {
+	return withTranslateResultCache(requestParams, bypassCache, extra?.signal, () => translateWithFallback(requestParams, extra));
 };
 
-export const translate = async ({ source, ...requestParams }: TranslateRequestParams): Promise<TranslateResponse> => {
-	let translate;
+// Sources in "fallbackSources" are tried in order when the requested one fails with a retryable error or can not be asked.
+const translateWithFallback = async ({ source, fallbackSources = [], ...requestParams }: Omit<TranslateRequestParams, 'bypassCache'>, extra?: TranslateExtraParams): Promise<TranslateResponse> => {
+	const benchedSources = await Promise.all(fallbackSources.map(isSourceBenched));
+	const candidates = fallbackSources.filter((v, i) => v !== source && !benchedSources[i]);
+
+	// A benched source is skipped only while there is another source to ask.
+	const sources = await isSourceBenched(source) && candidates.length > 0 ? candidates : [source, ...candidates];
+
+	let firstResponse: TranslateResponse | undefined;
+
+	for (const currentSource of sources) {
+		const response = await translateBySource({ source: currentSource, ...requestParams }, extra);
+
+		if (!('code' in response)) {
+			recordSourceSuccess(currentSource);
+
+			return currentSource === source ? response : { translation: { ...response.translation, fallbackSource: currentSource } };
+		}
+
+		if (extra?.signal?.aborted) { return response; }
+
+		if (isRetryableError(response.code)) {
+			recordSourceFailure(currentSource, response.code);
+		}
+		else if (!isLocalError(response.code) && currentSource === source) {
+			return response;
+		}
+
+		firstResponse ??= response;
+	}
+
+	return firstResponse ?? { code: RESULT_ERROR };
+};
+
+const translateBySource = async ({ source, ...requestParams }: Omit<TranslateRequestParams, 'fallbackSources'>, extra?: TranslateExtraParams): Promise<TranslateResponse> => {
+	let translate: (params: TranslateParams, source: string, extra?: TranslateExtraParams) => Promise<TranslateResult>;
 
 	switch (source) {
 		case GOOGLE_COM:
@@ -40,24 +108,40 @@ export const translate = async ({ source, ...requestParams }: TranslateRequestPa
 		case BAIDU_COM:
 			translate = baidu.translate;
 			break;
-		case 'Gemini':
-			translate = geminiTranslate;
-			break;
-		case 'ChatGPT':
-			translate = openaiTranslate;
-			break;
-		case 'OpenAI':
-			translate = openaiTranslate;
-			break;
 		default:
 			translate = custom.translate;
 			break;
 	}
 	
 	try {
-		const translation = await translate(requestParams, source);
+		const { enabledThirdPartyServices } = await scOptions.get(['enabledThirdPartyServices']);
+		const service = getThirdPartyService(source, enabledThirdPartyServices);
+
+		service && (translate = serviceTranslateMap[service.type]);
+
+		// "from" and "to" are resolved, entries of other languages are left out of the auto ones.
+		const { from, to } = await determineFromAndTo(requestParams).catch(() => requestParams);
+		const glossary = await getGlossaryEntries(from, to);
+
+		// LibreTranslate has no prompt for the glossary, its terms are protected like other machine translation.
+		if (service && service.type !== 'LibreTranslate') {
+			const budgetWarning = !localServiceTypes.includes(service.type) && await checkLLMBudget();
+
+			const translation = await translate(requestParams, source, { ...extra, glossary });
 
-		return { translation };
+			return { translation: budgetWarning ? { ...translation, budgetWarning } : translation };
+		}
+
+		const { texts: [text], restore } = protectTerms([requestParams.text], glossary);
+
+		const translation = await translate({ ...requestParams, text }, source, extra);
+
+		if (text === requestParams.text) {
+			return { translation };
+		}
+
+		// The alignment is of the text with placeholders, the sentences are aligned again from the restored result.
+		return { translation: { ...translation, text: requestParams.text, result: translation.result.map(restore), alignment: undefined } };
 	}
 	catch (err) {
 		return { code: (err as ReturnType<typeof getError>).code };
@@ -122,6 +206,17 @@ export const detect = async (requestParams: DetectRequestParams): Promise<Detect
 	}
 
 	try {
+		const { enabledThirdPartyServices } = await scOptions.get(['enabledThirdPartyServices']);
+		const service = getThirdPartyService(requestParams.source, enabledThirdPartyServices);
+
+		// Local servers detect by themselves, machines without the internet can't reach Google.
+		if (service?.type === 'LibreTranslate') {
+			return { langCode: await libreDetect(requestParams, service.source) };
+		}
+		else if (service?.type === 'Ollama' || service?.type === 'LlamaCpp') {
+			return { langCode: await detectByChat(requestParams, { url: '', ...serviceDefaultValueMap.get(service.type), ...service }) };
+		}
+
 		let langCode = await detect(requestParams);
 
 		return { langCode };
@@ -129,4 +224,37 @@ export const detect = async (requestParams: DetectRequestParams): Promise<Detect
 	catch (err) {
 		return { code: (err as ReturnType<typeof getError>).code };
 	}
+};
+
+type WebpageTranslateRequestParams = WebpageTranslateParams & {
+	source: string;
+};
+
+export const webpageTranslate = async ({ source, ...requestParams }: WebpageTranslateRequestParams): Promise<WebpageTranslateResponse> => {
+	try {
+		const { enabledThirdPartyServices } = await scOptions.get(['enabledThirdPartyServices']);
+
+		// Custom sources are requested here as well, pages' CORS does not apply to the background.
+		if (!isWebpageTranslateService(source, enabledThirdPartyServices)) {
+			return { results: await customWebTranslate(requestParams, source) };
+		}
+
+		const service = getThirdPartyService(source, enabledThirdPartyServices);
+
+		if (service?.type === 'LibreTranslate') {
+			return { results: await libreWebTranslate(requestParams, source) };
+		}
+
+		// Pages have nowhere to show a warning, only a blocking budget stops page translation.
+		service && !localServiceTypes.includes(service.type) && await checkLLMBudget();
+
+		const glossary = await getGlossaryEntries('', requestParams.targetLanguage);
+
+		const results = await openaiWebTranslate({ ...requestParams, glossary }, source);
+
+		return { results };
+	}
+	catch (err) {
+		return { code: (err as ReturnType<typeof getError>).code };
+	}
 };
\ No newline at end of file
@@ -6,23 +6,39 @@ export type SerializableArray = (string | number | boolean | null | Serializable
 const SC_FILE_EXTENSION = 'sctranslator';
 const SC_FILE_NAME_SUFFIX = `.${SC_FILE_EXTENSION}`;
 
+const getDatedFileName = (fileName: string) => {
+    const date = new Date();
+
+    return `${fileName}-d${date.getFullYear()}${date.getMonth() + 1 < 10 ? '0' : ''}${date.getMonth() + 1}${date.getDate() < 10 ? '0' : ''}${date.getDate()}`;
+};
+
+const download = (file: Blob, fileName: string) => {
+    const downloadElement = document.createElement('a');
+    downloadElement.setAttribute('href', URL.createObjectURL(file));
+    downloadElement.setAttribute('download', fileName);
+    downloadElement.click();
+};
+
 const scFile = (() => {
     return {
         saveAs: (serializableObject: SerializableObject | SerializableArray, fileName: string) => {
-            const date = new Date();
-            fileName = `${fileName}-d${date.getFullYear()}${date.getMonth() + 1 < 10 ? '0' : ''}${date.getMonth() + 1}${date.getDate() < 10 ? '0' : ''}${date.getDate()}`;
-
             const file = new Blob([JSON.stringify(serializableObject)], { type: 'text/plain;charset=utf-8' });
 
-            const downloadElement = document.createElement('a');
-            downloadElement.setAttribute('href', URL.createObjectURL(file));
-            downloadElement.setAttribute('download', `${fileName}${SC_FILE_NAME_SUFFIX}`);
-            downloadElement.click();
+            download(file, `${getDatedFileName(fileName)}${SC_FILE_NAME_SUFFIX}`);
+        },
+        // For formats other apps read, e.g. "csv", "tsv" and "md".
+        saveText: (text: string, fileName: string, extension: string, type = 'text/plain') => {
+            const file = new Blob([text], { type: `${type};charset=utf-8` });
+
+            download(file, `${getDatedFileName(fileName)}.${extension}`);
+        },
+        saveFile: (file: Blob, fileName: string, extension: string) => {
+            download(file, `${getDatedFileName(fileName)}.${extension}`);
         },
-        open: (callback: (file: File) => void) => {
+        open: (callback: (file: File) => void, accept = SC_FILE_NAME_SUFFIX) => {
             const uploadElement = document.createElement('input');
             uploadElement.type = 'file';
-            uploadElement.accept = SC_FILE_NAME_SUFFIX;
+            uploadElement.accept = accept;
             uploadElement.onchange = () => {
                 const file = uploadElement.files?.[0];
 
@@ -1,8 +1,8 @@
-import { TranslateRequest } from '../types';
+import { DisplayModeEnhancement, TranslateRequest, TranslateResult } from '../types';
 import type { WebpageTranslateResult } from './web-page-translate';
 
 const DB_NAME = 'ScTranslator';
-const DB_VERSION = 3;
+const DB_VERSION = 8;
 
 export const DB_STORE_COLLECTION = 'collection';
 
@@ -15,6 +15,16 @@ export type StoreCollectionValue = {
     }[];
     note?: string;
     tags?: string[];
+    review?: StoreCollectionReview;
+};
+
+// Spaced-repetition state, cards without it have never been reviewed.
+export type StoreCollectionReview = {
+    due: number;
+    ease: number;
+    // In days.
+    interval: number;
+    repetitions: number;
 };
 
 export const DB_STORE_PAGE_TRANSLATION_CACHE = 'page-translation-cache';
@@ -22,29 +32,111 @@ export const DB_STORE_PAGE_TRANSLATION_CACHE = 'page-translation-cache';
 export type StorePageTranslationCacheValue = {
     query: string;
     key: string;
+    // Last used, entries are evicted from the least recently used.
     date: number;
     translation: WebpageTranslateResult;
+    // Not saved before 5.10.0, "source", "from" and "to" are in "query" too.
+    host?: string;
+    source?: string;
+    from?: string;
+    to?: string;
+    // In bytes, indexed so the quota is checked without reading the translations.
+    size: number;
 };
 
+// Characters are 2 bytes in JavaScript, close enough to what IndexedDB keeps on disk.
+export const getPageTranslationCacheEntrySize = ({ size, ...value }: Omit<StorePageTranslationCacheValue, 'size'> & { size?: number; }) => JSON.stringify(value).length * 2;
+
 export const DB_STORE_PAGE_TRANSLATION_RULE = 'page-translation-rule';
 
+// Fields left undefined follow the global options.
+export type PageTranslationProfile = {
+    source?: string;
+    targetLanguage?: string;
+    displayMode?: number;
+    enhancement?: DisplayModeEnhancement;
+    autoTranslate?: boolean;
+};
+
 export type StorePageTranslationRuleValue = {
     id: number;
     patterns: string;
     include?: string;
     exclude?: string;
+    profile?: PageTranslationProfile;
+};
+
+export const DB_STORE_GLOSSARY = 'glossary';
+
+export type StoreGlossaryValue = {
+    id: number;
+    source: string;
+    target: string;
+    // '' means any language.
+    from: string;
+    to: string;
+    caseSensitive: boolean;
+    doNotTranslate: boolean;
+};
+
+export const DB_STORE_HISTORY = 'history';
+
+export type StoreHistoryValue = {
+    // Unique per translation, translations from the same request are merged into one record.
+    id: string;
+    text: string;
+    host: string;
+    date: number;
+    translations: {
+        translateRequest: TranslateRequest;
+        source: string;
+    }[];
+};
+
+export const DB_STORE_LLM_USAGE = 'llm-usage';
+
+// One record per request to an LLM service, tokens are estimated when the API doesn't report them.
+export type StoreLLMUsageValue = {
+    id: number;
+    date: number;
+    source: string;
+    serviceName: string;
+    model: string;
+    // Host of the API.
+    host: string;
+    promptTokens: number;
+    completionTokens: number;
+    estimated: boolean;
 };
 
-type StoreName = typeof DB_STORE_COLLECTION | typeof DB_STORE_PAGE_TRANSLATION_CACHE | typeof DB_STORE_PAGE_TRANSLATION_RULE;
+export const DB_STORE_TRANSLATION_RESULT_CACHE = 'translation-result-cache';
+
+// Results of selection translation, shared by all tabs, the popup and the separate window.
+export type StoreTranslationResultCacheValue = {
+    // Text, source and languages.
+    query: string;
+    date: number;
+    translation: TranslateResult;
+};
+
+type StoreName = typeof DB_STORE_COLLECTION | typeof DB_STORE_PAGE_TRANSLATION_CACHE | typeof DB_STORE_PAGE_TRANSLATION_RULE | typeof DB_STORE_GLOSSARY | typeof DB_STORE_HISTORY | typeof DB_STORE_LLM_USAGE | typeof DB_STORE_TRANSLATION_RESULT_CACHE;
 type StoreValue<T> = 
     T extends typeof DB_STORE_COLLECTION ? StoreCollectionValue :
     T extends typeof DB_STORE_PAGE_TRANSLATION_CACHE ? StorePageTranslationCacheValue :
     T extends typeof DB_STORE_PAGE_TRANSLATION_RULE ? StorePageTranslationRuleValue :
+    T extends typeof DB_STORE_GLOSSARY ? StoreGlossaryValue :
+    T extends typeof DB_STORE_HISTORY ? StoreHistoryValue :
+    T extends typeof DB_STORE_LLM_USAGE ? StoreLLMUsageValue :
+    T extends typeof DB_STORE_TRANSLATION_RESULT_CACHE ? StoreTranslationResultCacheValue :
     never;
 type StoreAddValue<T> = 
     T extends typeof DB_STORE_COLLECTION ? StoreCollectionValue :
     T extends typeof DB_STORE_PAGE_TRANSLATION_CACHE ? StorePageTranslationCacheValue :
     T extends typeof DB_STORE_PAGE_TRANSLATION_RULE ? Omit<StorePageTranslationRuleValue, 'id'> :
+    T extends typeof DB_STORE_GLOSSARY ? Omit<StoreGlossaryValue, 'id'> & { id?: number; } :
+    T extends typeof DB_STORE_HISTORY ? StoreHistoryValue :
+    T extends typeof DB_STORE_LLM_USAGE ? Omit<StoreLLMUsageValue, 'id'> :
+    T extends typeof DB_STORE_TRANSLATION_RESULT_CACHE ? StoreTranslationResultCacheValue :
     never;
 
 const scIndexedDB = (() => {
@@ -69,9 +161,46 @@ const scIndexedDB = (() => {
                     pageTranslationCacheStore.createIndex('key', 'key');
                 }
 
+                // In 5.10.0, sizes of the saved entries are added.
+                const pageTranslationCacheStore = request.transaction?.objectStore(DB_STORE_PAGE_TRANSLATION_CACHE);
+
+                if (pageTranslationCacheStore && !pageTranslationCacheStore.indexNames.contains('size')) {
+                    pageTranslationCacheStore.createIndex('size', 'size');
+
+                    const cursorRequest = pageTranslationCacheStore.openCursor();
+
+                    cursorRequest.onsuccess = () => {
+                        const cursor = cursorRequest.result;
+
+                        if (!cursor) { return; }
+
+                        cursor.update({ ...cursor.value, size: getPageTranslationCacheEntrySize(cursor.value) });
+                        cursor.continue();
+                    };
+                }
+
                 if (!request.result.objectStoreNames.contains(DB_STORE_PAGE_TRANSLATION_RULE)) {
                     request.result.createObjectStore(DB_STORE_PAGE_TRANSLATION_RULE, { keyPath: 'id', autoIncrement: true });
                 }
+
+                if (!request.result.objectStoreNames.contains(DB_STORE_GLOSSARY)) {
+                    request.result.createObjectStore(DB_STORE_GLOSSARY, { keyPath: 'id', autoIncrement: true });
+                }
+
+                if (!request.result.objectStoreNames.contains(DB_STORE_HISTORY)) {
+                    const historyStore = request.result.createObjectStore(DB_STORE_HISTORY, { keyPath: 'id' });
+                    historyStore.createIndex('date', 'date');
+                }
+
+                if (!request.result.objectStoreNames.contains(DB_STORE_LLM_USAGE)) {
+                    const llmUsageStore = request.result.createObjectStore(DB_STORE_LLM_USAGE, { keyPath: 'id', autoIncrement: true });
+                    llmUsageStore.createIndex('date', 'date');
+                }
+
+                if (!request.result.objectStoreNames.contains(DB_STORE_TRANSLATION_RESULT_CACHE)) {
+                    const translationResultCacheStore = request.result.createObjectStore(DB_STORE_TRANSLATION_RESULT_CACHE, { keyPath: 'query' });
+                    translationResultCacheStore.createIndex('date', 'date');
+                }
             };
         });
 
@@ -120,6 +249,15 @@ const scIndexedDB = (() => {
 
             return request.result;
         },
+        getAllByIndex: async <T extends StoreName>(storeName: T, indexName: string, query?: IDBValidKey | IDBKeyRange): Promise<StoreValue<T>[]> => {
+            const [store, done] = await withStore(storeName, 'readonly');
+
+            let request = store.index(indexName).getAll(query);
+
+            await done;
+
+            return request.result;
+        },
         getAllKeys: async <T extends StoreName>(storeName: T): Promise<IDBValidKey[]> => {
             const [store, done] = await withStore(storeName, 'readonly');
 
@@ -129,6 +267,64 @@ const scIndexedDB = (() => {
 
             return request.result;
         },
+        getAllKeysByIndex: async <T extends StoreName>(storeName: T, indexName: string, query?: IDBValidKey | IDBKeyRange): Promise<IDBValidKey[]> => {
+            const [store, done] = await withStore(storeName, 'readonly');
+
+            // Primary keys in the order of the index.
+            let request = store.index(indexName).getAllKeys(query);
+
+            await done;
+
+            return request.result;
+        },
+        count: async <T extends StoreName>(storeName: T, query?: IDBValidKey | IDBKeyRange): Promise<number> => {
+            const [store, done] = await withStore(storeName, 'readonly');
+
+            let request = store.count(query);
+
+            await done;
+
+            return request.result;
+        },
+        // Keys of the index itself, the values are not read.
+        getAllIndexKeys: async <T extends StoreName>(storeName: T, indexName: string): Promise<IDBValidKey[]> => {
+            const [store, done] = await withStore(storeName, 'readonly');
+
+            const keys: IDBValidKey[] = [];
+            const request = store.index(indexName).openKeyCursor();
+
+            request.onsuccess = () => {
+                if (!request.result) { return; }
+
+                keys.push(request.result.key);
+                request.result.continue();
+            };
+
+            await done;
+
+            return keys;
+        },
+        // Deletes in the order of the index until "predicate" returns false.
+        deleteByIndexWhile: async <T extends StoreName>(storeName: T, indexName: string, predicate: (value: StoreValue<T>) => boolean): Promise<number> => {
+            const [store, done] = await withStore(storeName, 'readwrite');
+
+            let count = 0;
+            const request = store.index(indexName).openCursor();
+
+            request.onsuccess = () => {
+                const cursor = request.result;
+
+                if (!cursor || !predicate(cursor.value)) { return; }
+
+                cursor.delete();
+                count += 1;
+                cursor.continue();
+            };
+
+            await done;
+
+            return count;
+        },
         add: async <T extends StoreName>(storeName: T, value: StoreAddValue<T>, key?: IDBValidKey ) => {
             const [store] = await withStore(storeName, 'readwrite');
 
@@ -1,7 +1,11 @@
 import * as types from '../constants/chromeSendMessageTypes';
 import { EXTENSION_UPDATED } from '../constants/errorCodes';
 import { TranslateResult, Translation } from '../types';
-import type { WebpageTranslateResult } from './web-page-translate';
+import type { FrameCommand, FrameTranslationState, WebpageTranslateParams, WebpageTranslateResult } from './web-page-translate';
+import type { GlossaryEntry } from './glossary';
+import type { PageTranslationProfile } from './sc-indexed-db';
+import type { SourceHealth } from './source-health';
+import type { TranslateContext } from './translate/translate-types';
 
 type ErrorResponse = {
     code: string;
@@ -20,14 +24,25 @@ export type IsCollectResponse = GenericResponse<{
     text: string;
     isCollected: boolean;
 }>;
+export type AddToCollectionResponse = GenericResponse<{
+    text: string;
+}>;
 export type GetCacheResponse = GenericResponse<{
     [K: string]: WebpageTranslateResult;
 }>;
 export type GetSelectorsResponse = GenericResponse<{
     includeSelectors: string;
     excludeSelectors: string;
+    profile: PageTranslationProfile;
 }>;
 export type GetAllCollectedTextResponse = GenericResponse<string[]>;
+export type WebpageTranslateResponse = GenericResponse<{
+    results: WebpageTranslateResult[];
+}>;
+export type GetGlossaryResponse = GenericResponse<GlossaryEntry[]>;
+export type GetSourceHealthResponse = GenericResponse<SourceHealth[]>;
+// Null while the top frame is not translating.
+export type GetFrameTranslationStateResponse = GenericResponse<FrameTranslationState | null>;
 
 type GenericMessage<ActionType, ActionPayload> = {
     type: ActionType;
@@ -77,6 +92,8 @@ export type ChromeRuntimeMessage = GenericMessage<
         source: string;
         from: string;
         to: string;
+        context?: TranslateContext;
+        bypassCache?: boolean;
     }
 > | GenericMessage<
     typeof types.SCTS_UPDATE_PAGE_TRANSLATION_STATE,
@@ -113,14 +130,127 @@ export type ChromeRuntimeMessage = GenericMessage<
 > | GenericMessage<
     typeof types.SCTS_GET_ALL_COLLECTED_TEXT,
     Record<string, never>
+> | GenericMessage<
+    typeof types.SCTS_WEBPAGE_TRANSLATE,
+    WebpageTranslateParams & {
+        source: string;
+    }
+> | GenericMessage<
+    typeof types.SCTS_GET_GLOSSARY,
+    {
+        from: string;
+        to: string;
+    }
+> | GenericMessage<
+    typeof types.SCTS_ADD_TO_HISTORY,
+    {
+        id: string;
+        text: string;
+        host: string;
+        source: string;
+        result: TranslateResult;
+    }
+> | GenericMessage<
+    typeof types.SCTS_REPORT_SOURCE_HEALTH,
+    {
+        source: string;
+        errorCode: string;
+    }
+> | GenericMessage<
+    typeof types.SCTS_GET_SOURCE_HEALTH,
+    {}
+> | GenericMessage<
+    typeof types.SCTS_OPEN_CREDENTIAL_VAULT,
+    Record<string, never>
+> | FrameMessage;
+
+// Sent by frames to the background, which passes them on to the frames of the same tab.
+type FrameMessage = GenericMessage<
+    typeof types.SCTS_FRAME_WEBPAGE_TRANSLATE,
+    WebpageTranslateParams & {
+        inViewPort: boolean;
+    }
+> | GenericMessage<
+    typeof types.SCTS_GET_FRAME_TRANSLATION_STATE,
+    Record<string, never>
+> | GenericMessage<
+    typeof types.SCTS_FRAME_COMMAND,
+    FrameCommand
 >;
 
-export const sendTranslate = async (params: { text: string, source: string, from: string, to: string }, translateId: number) => {
+export type TranslateStreamPortMessage = GenericMessage<
+    typeof types.SCTS_TRANSLATE,
+    {
+        text: string;
+        source: string;
+        from: string;
+        to: string;
+        context?: TranslateContext;
+        bypassCache?: boolean;
+    }
+>;
+export type TranslateStreamPortResponse = {
+    type: 'progress';
+    translation: TranslateResult;
+} | {
+    type: 'finish';
+    response: TranslateResponse;
+};
+
+export const sendTranslate = async (params: { text: string, source: string, from: string, to: string, context?: TranslateContext, bypassCache?: boolean }, translateId: number) => {
     let response = await chromeRuntimeSendMessage<TranslateResponse>({ type: types.SCTS_TRANSLATE, payload: params });
 
     return { ...response, translateId };
 };
 
+export const sendTranslateStream = (
+    params: { text: string, source: string, from: string, to: string, context?: TranslateContext, bypassCache?: boolean },
+    translateId: number,
+    onProgress: (translation: TranslateResult) => void
+) => {
+    let port: chrome.runtime.Port | null = null;
+    let settle: (response: Awaited<ReturnType<typeof sendTranslate>>) => void = () => {};
+
+    const response = new Promise<Awaited<ReturnType<typeof sendTranslate>>>((resolve) => {
+        settle = (response) => {
+            settle = () => {};
+            resolve(response);
+        };
+
+        try {
+            port = chrome.runtime.connect({ name: types.SCTS_TRANSLATE_STREAM });
+        }
+        catch {
+            settle({ code: EXTENSION_UPDATED, translateId });
+            return;
+        }
+
+        port.onMessage.addListener((message: TranslateStreamPortResponse) => {
+            if (message.type === 'progress') {
+                onProgress(message.translation);
+            }
+            else if (message.type === 'finish') {
+                settle({ ...message.response, translateId });
+            }
+        });
+
+        port.onDisconnect.addListener(() => {
+            settle({ code: chrome.runtime.lastError?.message ?? 'ABORTED', translateId });
+        });
+
+        const message: TranslateStreamPortMessage = { type: types.SCTS_TRANSLATE, payload: params };
+        port.postMessage(message);
+    });
+
+    // Disconnecting the port aborts the request in background.
+    const abort = () => {
+        port?.disconnect();
+        settle({ code: 'ABORTED', translateId });
+    };
+
+    return { response, abort };
+};
+
 export const sendAudio = (text: string, source: string, from: string) => {
     return chromeRuntimeSendMessage<AudioResponse>({ type: types.SCTS_AUDIO, payload: { text, source, from } });
 };
@@ -137,12 +267,16 @@ export const sendSyncSettingsToOtherBrowsers = () => {
     return chromeRuntimeSendMessage({ type: types.SCTS_SYNC_SETTINGS_TO_OTHER_BROWSERS, payload: {} });
 };
 
+export const sendOpenCredentialVault = () => {
+    return chromeRuntimeSendMessage({ type: types.SCTS_OPEN_CREDENTIAL_VAULT, payload: {} });
+};
+
 export const sendIsCollected = (text: string) => {
     return chromeRuntimeSendMessage<IsCollectResponse>({ type: types.SCTS_IS_COLLECTED, payload: { text } });
 };
 
 export const sendAddToCollection = (text: string, translations: Translation[]) => {
-    return chromeRuntimeSendMessage({ type: types.SCTS_ADD_TO_COLLECTION, payload: { text, translations } });
+    return chromeRuntimeSendMessage<AddToCollectionResponse>({ type: types.SCTS_ADD_TO_COLLECTION, payload: { text, translations } });
 };
 
 export const sendRemoveFromCollection = (text: string) => {
@@ -173,6 +307,39 @@ export const sendGetAllCollectedText = () => {
     return chromeRuntimeSendMessage<GetAllCollectedTextResponse>({ type: types.SCTS_GET_ALL_COLLECTED_TEXT, payload: {} });
 };
 
+export const sendWebpageTranslate = (params: WebpageTranslateParams, source: string) => {
+    return chromeRuntimeSendMessage<WebpageTranslateResponse>({ type: types.SCTS_WEBPAGE_TRANSLATE, payload: { ...params, source } });
+};
+
+export const sendGetGlossary = (from: string, to: string) => {
+    return chromeRuntimeSendMessage<GetGlossaryResponse>({ type: types.SCTS_GET_GLOSSARY, payload: { from, to } });
+};
+
+export const sendAddToHistory = (id: string, text: string, host: string, source: string, result: TranslateResult) => {
+    return chromeRuntimeSendMessage({ type: types.SCTS_ADD_TO_HISTORY, payload: { id, text, host, source, result } });
+};
+
+// An empty "errorCode" means the source answered.
+export const sendReportSourceHealth = (source: string, errorCode: string) => {
+    return chromeRuntimeSendMessage({ type: types.SCTS_REPORT_SOURCE_HEALTH, payload: { source, errorCode } });
+};
+
+export const sendGetSourceHealth = () => {
+    return chromeRuntimeSendMessage<GetSourceHealthResponse>({ type: types.SCTS_GET_SOURCE_HEALTH, payload: {} });
+};
+
+export const sendFrameWebpageTranslate = (params: WebpageTranslateParams, inViewPort: boolean) => {
+    return chromeRuntimeSendMessage<WebpageTranslateResponse>({ type: types.SCTS_FRAME_WEBPAGE_TRANSLATE, payload: { ...params, inViewPort } });
+};
+
+export const sendGetFrameTranslationState = () => {
+    return chromeRuntimeSendMessage<GetFrameTranslationStateResponse>({ type: types.SCTS_GET_FRAME_TRANSLATION_STATE, payload: {} });
+};
+
+export const sendFrameCommand = (command: FrameCommand) => {
+    return chromeRuntimeSendMessage({ type: types.SCTS_FRAME_COMMAND, payload: command });
+};
+
 const chromeRuntimeSendMessage = <T = null>(message: ChromeRuntimeMessage): Promise<T | ErrorResponse> => {
     return new Promise((resolve) => {
         try {
@@ -224,7 +391,7 @@ export type ChromeTabsMessage = GenericMessage<
 > | GenericMessage<
     typeof types.SCTS_TOGGLE_PAGE_TRANSLATION_STATE,
     Record<string, never>
->;
+> | FrameMessage;
 
 export const sendTabsContextMenusClicked = (tabId: number, text: string) => {
     return chromeTabsSendMessage(tabId, { type: types.SCTS_CONTEXT_MENUS_CLICKED, payload: { text } });
@@ -266,10 +433,11 @@ export const sendTabsTogglePageTranslationState = (tabId: number) => {
     return chromeTabsSendMessage(tabId, { type: types.SCTS_TOGGLE_PAGE_TRANSLATION_STATE, payload: {} });
 };
 
-export const chromeTabsSendMessage = <T = null>(tabId: number, message: ChromeTabsMessage): Promise<T | ErrorResponse> => {
+// All frames of the tab get the message unless "options" names one.
+export const chromeTabsSendMessage = <T = null>(tabId: number, message: ChromeTabsMessage, options: chrome.tabs.MessageSendOptions = {}): Promise<T | ErrorResponse> => {
     return new Promise((resolve) => {
         try {
-            chrome.tabs.sendMessage(tabId, message, (response: T) => {
+            chrome.tabs.sendMessage(tabId, message, options, (response: T) => {
                 if (chrome.runtime.lastError) {
                     resolve({ code: chrome.runtime.lastError.message ?? 'UNKNOWN_ERROR' });
                 }
@@ -0,0 +1,180 @@
+import { TranslateResult } from '../types';
+
+export type SentencePair = {
+    text: string;
+    result: string;
+};
+
+// "Intl.Segmenter" ends a sentence after these, by the language part of the code.
+const abbreviations: { [lang: string]: string[]; } = {
+    en: ['Mr', 'Mrs', 'Ms', 'Dr', 'Prof', 'Sr', 'Jr', 'St', 'Mt', 'No', 'vs', 'Inc', 'Ltd', 'Co', 'Corp', 'Gen', 'Gov', 'Sen', 'Rep', 'Jan', 'Feb', 'Aug', 'Sept', 'Oct', 'Nov', 'Dec'],
+    de: ['z', 'B', 'd', 'h', 'u', 'a', 'Nr', 'Dr', 'Prof', 'Hr', 'Fr', 'bzw', 'ca', 'vgl', 'Str'],
+    fr: ['M', 'Mme', 'Mlle', 'Dr', 'Pr', 'p', 'ex', 'av', 'St', 'Ste'],
+    es: ['Sr', 'Sra', 'Srta', 'Dr', 'Dra', 'Ud', 'Uds', 'p', 'ej', 'núm'],
+    it: ['Sig', 'Sigg', 'Dott', 'Prof', 'ecc', 'p', 'es'],
+    pt: ['Sr', 'Sra', 'Dr', 'Dra', 'p', 'ex'],
+    nl: ['dhr', 'mevr', 'Dr', 'bijv', 'o', 'a', 'nr']
+};
+
+const abbreviationRegExps = new Map<string, RegExp | null>();
+
+const getAbbreviationRegExp = (lang: string) => {
+    const language = lang.split('-')[0];
+
+    if (!abbreviationRegExps.has(language)) {
+        const words = abbreviations[language];
+
+        abbreviationRegExps.set(language, words ? new RegExp(`(?:^|[^\\p{L}])(?:${words.join('|')})\\.$`, 'u') : null);
+    }
+
+    return abbreviationRegExps.get(language)!;
+};
+
+// Chinese and Japanese have no spaces between sentences.
+const getSentenceSeparator = (lang?: string) => (/^(zh|ja)\b/.test(lang ?? '') ? '' : ' ');
+
+export const splitSentences = (paragraphs: string[], lang?: string) => {
+    const segmenter = new Intl.Segmenter(lang || undefined, { granularity: 'sentence' });
+    const abbreviationRegExp = lang ? getAbbreviationRegExp(lang) : null;
+
+    return paragraphs.flatMap((paragraph) => {
+        const sentences: string[] = [];
+
+        for (const { segment } of segmenter.segment(paragraph)) {
+            const sentence = segment.trim();
+
+            if (!sentence) { continue; }
+
+            const last = sentences.length - 1;
+
+            abbreviationRegExp?.test(sentences[last] ?? '') ? (sentences[last] += ` ${sentence}`) : sentences.push(sentence);
+        }
+
+        return sentences;
+    });
+};
+
+type AlignedGroup = [string[], string[]];
+
+// Costs of the steps other than one sentence to one sentence, so that a close enough pair is preferred to a split or merge.
+const stepPenalties: [number, number, number][] = [[1, 1, 0], [1, 2, 0.05], [2, 1, 0.05], [1, 0, 0.1], [0, 1, 0.1]];
+
+const getBigrams = (text: string) => {
+    const chars = [...text.toLowerCase().replace(/\s+/g, '')];
+
+    return chars.slice(1).map((char, index) => chars[index] + char);
+};
+
+// Dice coefficient of the character bigrams, from 0 for nothing in common to 1 for the same text.
+const getSimilarity = (textA: string, textB: string) => {
+    const bigramsA = getBigrams(textA);
+    const bigramsB = getBigrams(textB);
+
+    if (bigramsA.length + bigramsB.length === 0) { return textA === textB ? 1 : 0; }
+
+    const counts = new Map<string, number>();
+
+    bigramsA.forEach(bigram => counts.set(bigram, (counts.get(bigram) ?? 0) + 1));
+
+    const common = bigramsB.filter((bigram) => {
+        const count = counts.get(bigram) ?? 0;
+
+        count > 0 && counts.set(bigram, count - 1);
+
+        return count > 0;
+    }).length;
+
+    return 2 * common / (bigramsA.length + bigramsB.length);
+};
+
+// Leaving a sentence out is cheaper than pairing it with one that has little in common.
+const SAME_LANGUAGE_SKIP_COST = 0.7;
+
+// Groups two lists of sentences that say the same, like Gale-Church without the statistics.
+// Sentences of different languages are compared by their shares of the whole length, of the same language by what they have in common.
+export const alignSentenceGroups = (sentencesA: string[], sentencesB: string[], sameLanguage = false): AlignedGroup[] => {
+    const n = sentencesA.length;
+    const m = sentencesB.length;
+
+    const totalA = sentencesA.join('').length || 1;
+    const totalB = sentencesB.join('').length || 1;
+
+    const getCost = (groupA: string[], groupB: string[]) => {
+        if (!sameLanguage) { return Math.abs(groupA.join('').length / totalA - groupB.join('').length / totalB); }
+
+        if (groupA.length === 0 || groupB.length === 0) { return SAME_LANGUAGE_SKIP_COST; }
+
+        return 1 - getSimilarity(groupA.join(''), groupB.join(''));
+    };
+
+    const costs: number[][] = Array.from({ length: n + 1 }, () => new Array(m + 1).fill(Infinity));
+    const steps: [number, number][][] = Array.from({ length: n + 1 }, () => new Array(m + 1));
+
+    costs[0][0] = 0;
+
+    for (let i = 0; i <= n; i++) {
+        for (let j = 0; j <= m; j++) {
+            if (costs[i][j] === Infinity) { continue; }
+
+            for (const [di, dj, penalty] of stepPenalties) {
+                if (i + di > n || j + dj > m) { continue; }
+
+                const cost = costs[i][j] + getCost(sentencesA.slice(i, i + di), sentencesB.slice(j, j + dj)) + penalty;
+
+                if (cost < costs[i + di][j + dj]) {
+                    costs[i + di][j + dj] = cost;
+                    steps[i + di][j + dj] = [di, dj];
+                }
+            }
+        }
+    }
+
+    const groups: AlignedGroup[] = [];
+
+    for (let i = n, j = m; i > 0 || j > 0;) {
+        const [di, dj] = steps[i][j];
+
+        groups.unshift([sentencesA.slice(i - di, i), sentencesB.slice(j - dj, j)]);
+
+        i -= di;
+        j -= dj;
+    }
+
+    return groups;
+};
+
+// One cell per reference sentence, a sentence merged into the previous one gives an empty cell.
+// Sentences with no reference sentence to go with join the cell of the previous one.
+export const alignSentences = (referenceSentences: string[], sentences: string[], lang?: string) => {
+    const separator = getSentenceSeparator(lang);
+    const cells: string[] = new Array(referenceSentences.length).fill('');
+
+    let index = 0;
+    let lastIndex = -1;
+    let pending: string[] = [];
+
+    for (const [referenceGroup, group] of alignSentenceGroups(referenceSentences, sentences, true)) {
+        if (referenceGroup.length === 0) {
+            lastIndex === -1 ? pending.push(...group) : (cells[lastIndex] = [cells[lastIndex], ...group].filter(Boolean).join(separator));
+
+            continue;
+        }
+
+        cells[index] = pending.concat(group).join(separator);
+        pending = [];
+
+        lastIndex = index;
+        index += referenceGroup.length;
+    }
+
+    return cells;
+};
+
+// Pairs of sentences of the text and its translation, as the source gave them or aligned here.
+export const getSentencePairs = ({ text, from, to, result, alignment }: TranslateResult): SentencePair[] => {
+    if (alignment && alignment.length > 0) { return alignment; }
+
+    const groups = alignSentenceGroups(splitSentences(text.split('\n'), from), splitSentences(result, to));
+
+    return groups.map(([texts, results]) => ({ text: texts.join(getSentenceSeparator(from)), result: results.join(getSentenceSeparator(to)) }));
+};
\ No newline at end of file
@@ -0,0 +1,40 @@
+import { beforeEach, describe, expect, jest, test } from '@jest/globals';
+import { resetStorage } from '../test/setup';
+
+// A new instance of the module is what a restarted service worker gets.
+const loadSourceHealth = () => {
+    let sourceHealth: typeof import('./source-health') | undefined;
+
+    jest.isolateModules(() => {
+        sourceHealth = require('./source-health');
+    });
+
+    return sourceHealth!;
+};
+
+describe('source health', () => {
+    beforeEach(() => {
+        resetStorage();
+    });
+
+    test('benches a source after three failures in a row, also after the service worker restarts', async () => {
+        const { recordSourceFailure, isSourceBenched } = loadSourceHealth();
+
+        recordSourceFailure('google.com', 'BAD_REQUEST');
+        recordSourceFailure('google.com', 'BAD_REQUEST');
+
+        expect(await isSourceBenched('google.com')).toBe(false);
+
+        await recordSourceFailure('google.com', 'CONNECTION_TIMED_OUT');
+
+        const restarted = loadSourceHealth();
+
+        expect(await restarted.isSourceBenched('google.com')).toBe(true);
+        expect(await restarted.getSourceHealth()).toEqual([{ source: 'google.com', recentFailures: 3, lastError: 'CONNECTION_TIMED_OUT', lastFailureTime: expect.any(Number), benchedUntil: expect.any(Number) }]);
+
+        await restarted.recordSourceSuccess('google.com');
+
+        expect(await restarted.isSourceBenched('google.com')).toBe(false);
+        expect(await restarted.getSourceHealth()).toMatchObject([{ source: 'google.com', recentFailures: 3, benchedUntil: 0 }]);
+    });
+});
\ No newline at end of file
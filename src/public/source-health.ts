@@ -0,0 +1,92 @@
+// Circuit breaker of translate sources, it lives in background and is shared by all tabs.
+export type SourceHealth = {
+    source: string;
+    recentFailures: number;
+    lastError: string;
+    lastFailureTime: number;
+    benchedUntil: number;
+};
+
+type SourceHealthState = {
+    failureTimes: number[];
+    consecutiveFailures: number;
+    trips: number;
+    lastError: string;
+    benchedUntil: number;
+};
+
+const RECENT_FAILURE_TIME = 3600000;
+const FAILURE_THRESHOLD = 3;
+const BENCH_TIME = 60000;
+const MAX_BENCH_TIME = 600000;
+
+const HEALTH_KEY = 'sourceHealth';
+
+// Kept in "chrome.storage.session", a bench outlives the service worker being stopped while idle.
+let healthQueue = Promise.resolve();
+
+const getHealthStates = async (): Promise<{ [source: string]: SourceHealthState; }> => {
+    const { [HEALTH_KEY]: states } = await chrome.storage.session.get(HEALTH_KEY);
+
+    return states ?? {};
+};
+
+const updateHealthState = (source: string, update: (state: SourceHealthState | undefined) => SourceHealthState | undefined) => {
+    healthQueue = healthQueue.then(async () => {
+        const states = await getHealthStates();
+        const state = update(states[source]);
+
+        if (!state) { return; }
+
+        await chrome.storage.session.set({ [HEALTH_KEY]: { ...states, [source]: state } });
+    }).catch(() => {});
+
+    return healthQueue;
+};
+
+export const recordSourceSuccess = (source: string) => updateHealthState(source, (state) => {
+    if (!state) { return; }
+
+    return { ...state, consecutiveFailures: 0, trips: 0, benchedUntil: 0 };
+});
+
+export const recordSourceFailure = (source: string, errorCode: string) => updateHealthState(source, (prevState) => {
+    const now = Date.now();
+
+    const state = prevState ?? { failureTimes: [], consecutiveFailures: 0, trips: 0, lastError: '', benchedUntil: 0 };
+
+    state.failureTimes = state.failureTimes.filter(time => time > now - RECENT_FAILURE_TIME).concat(now);
+    state.lastError = errorCode;
+    state.consecutiveFailures += 1;
+
+    if (state.consecutiveFailures >= FAILURE_THRESHOLD) {
+        state.benchedUntil = now + Math.min(BENCH_TIME * 2 ** state.trips, MAX_BENCH_TIME);
+        state.trips += 1;
+        // One more failure after the bench benches it again, for longer.
+        state.consecutiveFailures = FAILURE_THRESHOLD - 1;
+    }
+
+    return state;
+});
+
+export const isSourceBenched = async (source: string) => {
+    await healthQueue;
+
+    const states = await getHealthStates();
+
+    return (states[source]?.benchedUntil ?? 0) > Date.now();
+};
+
+export const getSourceHealth = async (): Promise<SourceHealth[]> => {
+    await healthQueue;
+
+    const now = Date.now();
+
+    return Object.entries(await getHealthStates()).map(([source, { failureTimes, lastError, benchedUntil }]) => ({
+        source,
+        recentFailures: failureTimes.filter(time => time > now - RECENT_FAILURE_TIME).length,
+        lastError,
+        lastFailureTime: failureTimes.at(-1) ?? 0,
+        benchedUntil: benchedUntil > now ? benchedUntil : 0
+    })).filter(({ recentFailures, benchedUntil }) => (recentFailures > 0 || benchedUntil > 0));
+};
\ No newline at end of file
@@ -0,0 +1,143 @@
+import { TranslateResult } from '../types';
+import type { TranslateContext } from './translate/translate-types';
+import scIndexedDB, { DB_STORE_TRANSLATION_RESULT_CACHE } from './sc-indexed-db';
+import type { TranslateResponse } from './send';
+import { getGlossaryVersion } from './glossary';
+import scOptions from './sc-options';
+
+type CacheKeyParams = {
+    text: string;
+    source: string;
+    from: string;
+    to: string;
+    preferredLanguage: string;
+    secondPreferredLanguage: string;
+    context?: TranslateContext;
+};
+
+type CacheValue = {
+    date: number;
+    translation: TranslateResult;
+};
+
+const MEMORY_MAX_ENTRIES = 200;
+// Sources get better and services get other models, results are translated again after a while.
+const CACHE_TTL = 7 * 86400000;
+const PURGE_INTERVAL = 3600000;
+
+// The most recently used entry is the last one of the map.
+const memoryCache = new Map<string, CacheValue>();
+
+// "aborted" means the one who sent the request went away, which says nothing about the result.
+const inFlightMap = new Map<string, Promise<{ response: TranslateResponse; aborted: boolean; }>>();
+
+let purgedAt = 0;
+
+// "text" is preprocessed by the page before it is sent.
+// With "from" and "to" being auto, the preferred languages decide the languages, and prompts use the context and the glossary.
+const getQuery = ({ text, source, from, to, preferredLanguage, secondPreferredLanguage, context }: CacheKeyParams, glossaryVersion: string) => JSON.stringify([
+    text,
+    source,
+    from,
+    to,
+    preferredLanguage,
+    secondPreferredLanguage,
+    context?.pageTitle ?? '',
+    context?.host ?? '',
+    context?.paragraph ?? '',
+    glossaryVersion
+]);
+
+const isFresh = (date: number) => date > Date.now() - CACHE_TTL;
+
+const setMemoryCache = (query: string, value: CacheValue) => {
+    memoryCache.delete(query);
+    memoryCache.set(query, value);
+
+    if (memoryCache.size > MEMORY_MAX_ENTRIES) {
+        const [oldestQuery] = memoryCache.keys();
+
+        memoryCache.delete(oldestQuery);
+    }
+};
+
+const getCachedTranslation = async (query: string) => {
+    const memoryValue = memoryCache.get(query);
+
+    if (memoryValue && isFresh(memoryValue.date)) {
+        setMemoryCache(query, memoryValue);
+
+        return memoryValue.translation;
+    }
+
+    const value = await scIndexedDB.get(DB_STORE_TRANSLATION_RESULT_CACHE, query).catch(() => undefined);
+
+    if (!value || !isFresh(value.date)) { return; }
+
+    setMemoryCache(query, { date: value.date, translation: value.translation });
+
+    return value.translation;
+};
+
+const purgeExpired = async () => {
+    if (purgedAt > Date.now() - PURGE_INTERVAL) { return; }
+
+    purgedAt = Date.now();
+
+    const keys = await scIndexedDB.getAllKeysByIndex(DB_STORE_TRANSLATION_RESULT_CACHE, 'date', IDBKeyRange.upperBound(Date.now() - CACHE_TTL));
+
+    keys.length > 0 && await scIndexedDB.delete(DB_STORE_TRANSLATION_RESULT_CACHE, keys);
+};
+
+const cacheTranslation = (query: string, translation: TranslateResult) => {
+    const value = { date: Date.now(), translation };
+
+    setMemoryCache(query, value);
+
+    scIndexedDB.addAll(DB_STORE_TRANSLATION_RESULT_CACHE, [{ query, ...value }]).then(purgeExpired).catch(() => {});
+};
+
+// Identical requests in flight share one response.
+// Results of fallback sources are not cached under the requested source, the budget warning is only of the moment.
+export const withTranslateResultCache = async (
+    params: CacheKeyParams,
+    bypassCache: boolean,
+    signal: AbortSignal | undefined,
+    translate: () => Promise<TranslateResponse>
+): Promise<TranslateResponse> => {
+    const query = getQuery(params, await getGlossaryVersion().catch(() => ''));
+
+    if (!bypassCache) {
+        const translation = await getCachedTranslation(query);
+
+        if (translation) { return { translation }; }
+
+        const shared = await inFlightMap.get(query);
+
+        if (shared && !shared.aborted) { return shared.response; }
+    }
+
+    const request = translate().then(response => ({ response, aborted: !!signal?.aborted }));
+
+    inFlightMap.set(query, request);
+
+    const { response } = await request;
+
+    inFlightMap.get(query) === request && inFlightMap.delete(query);
+
+    if (!('code' in response) && !response.translation.fallbackSource) {
+        const { budgetWarning, ...translation } = response.translation;
+
+        cacheTranslation(query, translation);
+    }
+
+    return response;
+};
+
+const clearTranslateResultCache = () => {
+    memoryCache.clear();
+    scIndexedDB.clear(DB_STORE_TRANSLATION_RESULT_CACHE).catch(() => {});
+};
+
+// Prompts, models and custom sources are edited there, their results are translated again.
+scOptions.listen(['enabledThirdPartyServices', 'customTranslateSourceList'], clearTranslateResultCache);
\ No newline at end of file
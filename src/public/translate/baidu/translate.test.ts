@@ -0,0 +1,50 @@
+import { describe, expect, test } from '@jest/globals';
+import { translate } from './translate';
+import { getSearchParams, mockServer, Route } from '../../../test/mock-server';
+import { BAD_REQUEST, LANGUAGE_NOT_SOPPORTED, RESULT_ERROR } from '../error-codes';
+import langdetect from '../../../test/fixtures/baidu/langdetect.json';
+import transapiSentence from '../../../test/fixtures/baidu/transapi-sentence.json';
+import transapiWord from '../../../test/fixtures/baidu/transapi-word.json';
+import transapiError from '../../../test/fixtures/baidu/transapi-error.json';
+
+const langdetectRoute: Route = { method: 'POST', url: 'https://fanyi.baidu.com/langdetect', reply: { body: langdetect } };
+
+const getTransapiRoute = (reply: Route['reply']): Route => ({ method: 'POST', url: 'https://fanyi.baidu.com/transapi', reply });
+
+const params = { text: 'Hello, world.\nThe weather is nice today.', from: '', to: '', preferredLanguage: 'zh-CN', secondPreferredLanguage: 'en' };
+
+describe('baidu translate', () => {
+    test('detects the language first and splits the paragraphs into lines', async () => {
+        const requests = mockServer([langdetectRoute, getTransapiRoute({ body: transapiSentence })]);
+
+        const result = await translate(params);
+
+        expect(result).toEqual({ text: params.text, from: 'en', to: 'zh-CN', result: ['你好，世界。', '今天天气很好。'] });
+
+        const { form } = getSearchParams(requests[1]);
+
+        expect(form.get('from')).toBe('en');
+        expect(form.get('to')).toBe('zh');
+    });
+
+    test('reads the dictionary and phonetic of a word', async () => {
+        mockServer([getTransapiRoute({ body: transapiWord })]);
+
+        const result = await translate({ ...params, text: 'run', from: 'en' });
+
+        expect(result).toMatchObject({ from: 'en', to: 'zh-CN', result: ['跑'], dict: ['vi. 跑, 运转', 'n. 跑步'], phonetic: 'EN [rʌn], US [rʌn]' });
+    });
+
+    test('maps failures to error codes', async () => {
+        mockServer([getTransapiRoute({ body: transapiError })]);
+        await expect(translate({ ...params, from: 'en' })).rejects.toMatchObject({ code: RESULT_ERROR });
+
+        mockServer([getTransapiRoute({ status: 403, body: '' })]);
+        await expect(translate({ ...params, from: 'en' })).rejects.toMatchObject({ code: `${BAD_REQUEST} (http 403)` });
+
+        mockServer([{ ...langdetectRoute, reply: { body: { error: 1, msg: 'fail' } } }]);
+        await expect(translate(params)).rejects.toMatchObject({ code: RESULT_ERROR });
+
+        await expect(translate({ ...params, from: 'en', to: 'xx' })).rejects.toMatchObject({ code: LANGUAGE_NOT_SOPPORTED });
+    });
+});
\ No newline at end of file
@@ -0,0 +1,77 @@
+import { beforeEach, describe, expect, test } from '@jest/globals';
+import { translate } from './translate';
+import { getSearchParams, mockServer, Route } from '../../../test/mock-server';
+import { resetStorage } from '../../../test/setup';
+import { BAD_REQUEST, LANGUAGE_NOT_SOPPORTED, RESULT_ERROR } from '../error-codes';
+import translatorPage from '../../../test/fixtures/bing/translator-page';
+import translateWord from '../../../test/fixtures/bing/translate-word.json';
+import translateSentence from '../../../test/fixtures/bing/translate-sentence.json';
+import translateSecondPreferred from '../../../test/fixtures/bing/translate-second-preferred.json';
+import lookup from '../../../test/fixtures/bing/lookup.json';
+import examples from '../../../test/fixtures/bing/examples.json';
+
+const translatorRoute: Route = { url: 'https://www.bing.com/translator', reply: { body: translatorPage } };
+
+const getTranslateRoute = (reply: Route['reply']): Route => ({ method: 'POST', url: 'https://www.bing.com/ttranslatev3', reply });
+
+const params = { text: 'run', from: '', to: '', preferredLanguage: 'zh-CN', secondPreferredLanguage: 'en' };
+
+describe('bing translate', () => {
+    beforeEach(() => {
+        resetStorage();
+    });
+
+    test('reads the params from the translator page and adds the dictionary and examples of an English word', async () => {
+        const requests = mockServer([
+            translatorRoute,
+            getTranslateRoute({ body: translateWord }),
+            { method: 'POST', url: 'https://www.bing.com/tlookupv3', reply: { body: lookup } },
+            { method: 'POST', url: 'https://www.bing.com/texamplev3', reply: { body: examples } }
+        ]);
+
+        const result = await translate(params);
+
+        expect(result).toMatchObject({
+            from: 'en',
+            to: 'zh-CN',
+            result: ['跑'],
+            dict: ['VERB: 跑, 运行', 'NOUN: 跑步'],
+            example: ['I run every morning.', 'Don\'t run in the hallway.', 'Kids run fast.']
+        });
+
+        const translateRequest = requests.find(({ url }) => url.includes('/ttranslatev3'))!;
+        const { query, form } = getSearchParams(translateRequest);
+
+        expect(query.get('IG')).toBe('4A1C2E63B9F84C3D9A0E5F7B21D6C8E0');
+        expect(query.get('IID')).toBe('translator.5028');
+        expect(form.get('fromLang')).toBe('auto-detect');
+        expect(form.get('to')).toBe('zh-Hans');
+        expect(form.get('token')).toBe('Xk9f2LmQ7rT0aBcD3eF6gH1iJ4kL5mN8');
+        expect(form.get('key')).toBe('1729346400000');
+    });
+
+    test('requests again in the second preferred language when the text is in the preferred one', async () => {
+        const requests = mockServer([
+            translatorRoute,
+            getTranslateRoute(request => ({ body: getSearchParams(request).form.get('to') === 'en' ? translateSecondPreferred : translateSentence }))
+        ]);
+
+        const result = await translate({ ...params, text: '你好，世界。\n今天天气很好。' });
+
+        const translateRequests = requests.filter(({ url }) => url.includes('/ttranslatev3'));
+
+        expect(translateRequests).toHaveLength(2);
+        expect(getSearchParams(translateRequests[1]).form.get('fromLang')).toBe('zh-Hans');
+        expect(result).toMatchObject({ from: 'zh-CN', to: 'en', result: ['Hello, world.', 'The weather is nice today.'] });
+    });
+
+    test('maps failures to error codes', async () => {
+        mockServer([translatorRoute, getTranslateRoute({ status: 429, body: '' })]);
+        await expect(translate(params)).rejects.toMatchObject({ code: `${BAD_REQUEST} (http 429)` });
+
+        mockServer([translatorRoute, getTranslateRoute({ body: { statusCode: 205 } })]);
+        await expect(translate(params)).rejects.toMatchObject({ code: RESULT_ERROR });
+
+        await expect(translate({ ...params, to: 'xx' })).rejects.toMatchObject({ code: LANGUAGE_NOT_SOPPORTED });
+    });
+});
\ No newline at end of file
@@ -0,0 +1,211 @@
+import { CustomSourceDefinition, CustomTranslateSource } from '../../../types';
+import { RESULT_ERROR } from '../error-codes';
+import { fetchData, getError } from '../utils';
+import { langCode } from '../google/lang-code';
+import { CredentialVault, getSecrets, storePlainSecret } from '../../credential-vault';
+
+type TemplateValues = { [name: string]: unknown; };
+type Secrets = CustomTranslateSource['secrets'];
+
+// Sources added without a definition of their own speak it, sources from before definitions existed are migrated to the API they were hard-wired to.
+export const defaultCustomSourceDefinition: CustomSourceDefinition = {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: { text: '{text}', from: '{from}', to: '{to}', userLang: '{userLang}', preferred: '{preferred}' },
+    response: { result: 'result', from: 'from', to: 'to', dict: 'dict', phonetic: 'phonetic', related: 'related', example: 'example' }
+};
+
+export const defaultCustomWebpageSourceDefinition: CustomSourceDefinition = {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: { paragraphs: '{paragraphs}', targetLanguage: '{to}' },
+    response: { translations: 'result[*].translations', comparisons: 'result[*].comparisons' }
+};
+
+const placeholderRegExp = /\{(secret:)?([\w-]+)\}/g;
+const singlePlaceholderRegExp = /^\{(secret:)?([\w-]+)\}$/;
+
+const getPlaceholderValue = (secret: string | undefined, name: string, values: TemplateValues, secrets: Secrets) => {
+    return secret ? (secrets?.[name] ?? '') : values[name];
+};
+
+// Unknown placeholders are left as they are, braces may well be a part of the text.
+const fillString = (template: string, values: TemplateValues, secrets: Secrets, encode = (value: string) => value) => {
+    return template.replace(placeholderRegExp, (match, secret: string | undefined, name: string) => {
+        const value = getPlaceholderValue(secret, name, values, secrets);
+
+        if (value === undefined) { return match; }
+
+        return encode(typeof value === 'string' ? value : JSON.stringify(value));
+    });
+};
+
+// A string that is nothing but a placeholder becomes the value itself, so "{texts}" can be an array.
+// Such a property is dropped when its value is an empty string, e.g. "auto" mapped to "" in "languageCodes".
+export const fillTemplate = (template: unknown, values: TemplateValues, secrets?: Secrets): unknown => {
+    if (typeof template === 'string') {
+        const match = template.match(singlePlaceholderRegExp);
+        const value = match ? getPlaceholderValue(match[1], match[2], values, secrets) : undefined;
+
+        return value === undefined ? fillString(template, values, secrets) : value;
+    }
+    else if (Array.isArray(template)) {
+        return template.map(item => fillTemplate(item, values, secrets));
+    }
+    else if (template && typeof template === 'object') {
+        return Object.entries(template).reduce<{ [key: string]: unknown; }>((object, [key, item]) => {
+            const value = fillTemplate(item, values, secrets);
+
+            !(value === '' && typeof item === 'string' && singlePlaceholderRegExp.test(item)) && (object[key] = value);
+
+            return object;
+        }, {});
+    }
+
+    return template;
+};
+
+export const isPlaceholderUsed = ({ body }: CustomSourceDefinition, url: string, name: string) => {
+    return `${url}${JSON.stringify(body) ?? ''}`.includes(`{${name}}`);
+};
+
+// "data.texts[0].translation" reads a single value, "[*]" reads every item of an array.
+export const getByPath = (data: unknown, path: string): unknown => {
+    const keys = path.match(/\[\*\]|[^.[\]]+/g) ?? [];
+
+    const read = (value: unknown, index: number): unknown => {
+        if (index === keys.length) { return value; }
+
+        if (keys[index] === '[*]') {
+            return Array.isArray(value) ? value.map(item => read(item, index + 1)) : undefined;
+        }
+
+        if (!value || typeof value !== 'object') { return undefined; }
+
+        return read((value as { [key: string]: unknown; })[keys[index]], index + 1);
+    };
+
+    return read(data, 0);
+};
+
+export const toSourceLanguage = (code: string, { languageCodes }: CustomSourceDefinition): string | undefined => {
+    return languageCodes ? languageCodes[code] : code;
+};
+
+export const fromSourceLanguage = (value: string, { languageCodes }: CustomSourceDefinition) => {
+    return (languageCodes && Object.keys(languageCodes).find(code => languageCodes[code] === value)) ?? value;
+};
+
+const getRequestBody = (body: unknown, headers: { [name: string]: string; }) => {
+    const contentType = Object.keys(headers).find(name => name.toLowerCase() === 'content-type');
+
+    if (contentType && headers[contentType].includes('application/x-www-form-urlencoded') && body && typeof body === 'object') {
+        const params = new URLSearchParams();
+
+        Object.entries(body).forEach(([key, value]) => {
+            [value].flat().forEach(item => params.append(key, typeof item === 'string' ? item : JSON.stringify(item)));
+        });
+
+        return params.toString();
+    }
+
+    !contentType && (headers['Content-Type'] = 'application/json');
+
+    return typeof body === 'string' ? body : JSON.stringify(body);
+};
+
+const checkSuccess = (data: unknown, { success = [], error }: CustomSourceDefinition) => {
+    const succeeded = success.every(condition => {
+        const value = getByPath(data, condition.path);
+
+        return 'equals' in condition ? value === condition.equals : (value !== undefined && value !== null);
+    });
+
+    if (succeeded) { return; }
+
+    const message = error ? getByPath(data, error) : undefined;
+
+    throw getError(typeof message === 'string' && message ? `${RESULT_ERROR} (${message})` : RESULT_ERROR);
+};
+
+// Placeholders are filled in the URL (encoded), the headers and the body, then the response is checked against "success".
+// Each of "texts" is filled into "textItem" with its "index" when the definition has one.
+export const requestByDefinition = async ({ url, secrets: secretIds }: CustomTranslateSource, definition: CustomSourceDefinition, values: TemplateValues, texts: { index: number; text: string; }[] = []) => {
+    const { method = 'POST', headers = {}, body, textItem } = definition;
+
+    const secrets = await getSecrets(secretIds ?? {});
+
+    const nextValues = {
+        ...values,
+        texts: texts.map(({ index, text }) => (textItem === undefined ? text : fillTemplate(textItem, { ...values, text, index }, secrets)))
+    };
+
+    const nextHeaders = Object.keys(headers).reduce<{ [name: string]: string; }>((object, name) => ({ ...object, [name]: fillString(headers[name], nextValues, secrets) }), {});
+
+    const res = await fetchData(fillString(url, nextValues, secrets, encodeURIComponent), {
+        method,
+        headers: nextHeaders,
+        body: method.toUpperCase() === 'GET' || body === undefined ? undefined : getRequestBody(fillTemplate(body, nextValues, secrets), nextHeaders)
+    });
+
+    const data: unknown = await res.json().catch(() => { throw getError(RESULT_ERROR); });
+
+    checkSuccess(data, definition);
+
+    return data;
+};
+
+export const isCustomSourceDefinition = (definition: any): definition is CustomSourceDefinition => {
+    const isStringMap = (value: any) => (value && typeof value === 'object' && !Array.isArray(value) && Object.values(value).every(v => typeof v === 'string'));
+
+    return !!definition && typeof definition === 'object' && !Array.isArray(definition)
+        && (definition.method === undefined || typeof definition.method === 'string')
+        && (definition.headers === undefined || isStringMap(definition.headers))
+        && isStringMap(definition.response)
+        && (definition.success === undefined || (Array.isArray(definition.success) && definition.success.every((v: any) => typeof v?.path === 'string')))
+        && (definition.error === undefined || typeof definition.error === 'string')
+        && (definition.languageCodes === undefined || isStringMap(definition.languageCodes));
+};
+
+const getVendorDefinition = (params: URLSearchParams, webpage: boolean): CustomSourceDefinition => ({
+    method: 'POST',
+    headers: {
+        'Content-Type': 'application/json',
+        'Authorization': 'Bearer {secret:key}',
+        'accept': '*/*',
+        'x-client-version': '1.6.7',
+        ...(webpage ? { 'X-Client-Origin': params.get('org') || '{userLang}' } : {})
+    },
+    body: {
+        targetLanguage: '{to}',
+        translatorCode: webpage ? (parseInt((params.get('tc') ?? '').replace(/"/g, ''), 10) || 0) : (params.get('tc') ?? ''),
+        promptBuilderCode: webpage ? (parseInt((params.get('pbc') ?? '').replace(/"/g, ''), 10) || 0) : (params.get('pbc') || 0),
+        texts: '{texts}'
+    },
+    textItem: { id: '0-{index}', content: '{text}' },
+    response: webpage ? { translations: 'data.texts[*].translation' } : { result: 'data.texts[0].translation', from: 'data.sourceLanguage' },
+    success: [{ path: 'code', equals: 'S000000' }, { path: 'data' }],
+    error: 'message',
+    languageCodes: { ...langCode }
+});
+
+// In 5.10.0, codes of the hard-wired API move from the URL's query into a definition and its key into the credential vault.
+// Every source without a definition spoke that API, the codes it left out of the query keep their defaults.
+export const migrateCustomTranslateSources = (sources: CustomTranslateSource[], webpage: boolean, vault: CredentialVault) => {
+    return sources.map((source) => {
+        if (source.definition) { return source; }
+
+        const queryIndex = source.url.indexOf('?');
+        const params = new URLSearchParams(queryIndex === -1 ? '' : source.url.substring(queryIndex + 1));
+
+        const definition = getVendorDefinition(params, webpage);
+        const key = (params.get('key') ?? '').replace(/^Bearer /, '');
+
+        return {
+            ...source,
+            url: queryIndex === -1 ? source.url : source.url.substring(0, queryIndex),
+            definition,
+            secrets: key ? { key: storePlainSecret(vault, `${source.name} key`, key) } : {}
+        };
+    });
+};
\ No newline at end of file
@@ -0,0 +1,101 @@
+import { beforeEach, describe, expect, test } from '@jest/globals';
+import { translate, translateByCustomSource } from './translate';
+import { mockServer, Route } from '../../../test/mock-server';
+import { resetStorage } from '../../../test/setup';
+import { BAD_REQUEST, LANGUAGE_NOT_SOPPORTED, RESULT_ERROR } from '../error-codes';
+import { SOURCE_ERROR } from '../../../constants/errorCodes';
+import { CustomTranslateSource } from '../../../types';
+import { defaultCustomSourceDefinition, migrateCustomTranslateSources } from './definition';
+import defaultProtocol from '../../../test/fixtures/custom/default-protocol.json';
+import defaultProtocolSameLanguage from '../../../test/fixtures/custom/default-protocol-same-language.json';
+import defaultProtocolSecondPreferred from '../../../test/fixtures/custom/default-protocol-second-preferred.json';
+import defaultProtocolInvalid from '../../../test/fixtures/custom/default-protocol-invalid.json';
+import vendor from '../../../test/fixtures/custom/vendor.json';
+import vendorError from '../../../test/fixtures/custom/vendor-error.json';
+
+const SOURCE_URL = 'https://translate.example.com/api/translate';
+
+// Sources from before definitions existed, they are migrated to the API they were hard-wired to.
+const legacySource: CustomTranslateSource = { name: 'Example', url: SOURCE_URL, source: 'custom-example' };
+
+const source: CustomTranslateSource = { ...legacySource, definition: defaultCustomSourceDefinition };
+
+const getRoute = (reply: Route['reply']): Route => ({ method: 'POST', url: SOURCE_URL, reply });
+
+const params = { text: 'Hello, world.', from: '', to: '', preferredLanguage: 'zh-CN', secondPreferredLanguage: 'en' };
+
+describe('custom source translate', () => {
+    beforeEach(() => {
+        resetStorage();
+    });
+
+    test('speaks the default definition', async () => {
+        const requests = mockServer([getRoute({ body: defaultProtocol })]);
+
+        const result = await translateByCustomSource(params, source);
+
+        expect(result).toEqual({ text: 'Hello, world.', from: 'en', to: 'zh-CN', result: ['你好，世界。'], dict: ['int. 你好'], phonetic: '[həˈləʊ]' });
+        expect(JSON.parse(requests[0].body)).toMatchObject({ text: 'Hello, world.', from: 'auto', to: 'zh-CN', preferred: ['zh-CN', 'en'] });
+        expect(requests[0].headers['content-type']).toBe('application/json');
+    });
+
+    test('requests again in the second preferred language when the text is in the preferred one', async () => {
+        const requests = mockServer([getRoute(({ body }) => ({ body: JSON.parse(body).to === 'en' ? defaultProtocolSecondPreferred : defaultProtocolSameLanguage }))]);
+
+        const result = await translateByCustomSource({ ...params, text: '你好，世界。' }, source);
+
+        expect(requests).toHaveLength(2);
+        expect(result).toMatchObject({ from: 'zh-CN', to: 'en', result: ['Hello, world.'] });
+    });
+
+    test('fills the definition of a migrated source with its secret and language names', async () => {
+        const credentialVault = { salt: '', check: { iv: '', data: '' }, secrets: {}, plainSecrets: {} };
+        const [migratedSource] = migrateCustomTranslateSources([{ ...legacySource, url: `${SOURCE_URL}?key=sk-test&tc=1&pbc=2` }], false, credentialVault);
+
+        resetStorage({ credentialVault });
+
+        const requests = mockServer([getRoute({ body: vendor })]);
+
+        const result = await translateByCustomSource({ ...params, to: 'zh-TW' }, migratedSource);
+
+        expect(result).toMatchObject({ from: 'en', to: 'zh-TW', result: ['你好，世界。'] });
+        expect(requests[0].headers.authorization).toBe('Bearer sk-test');
+        expect(JSON.parse(requests[0].body)).toEqual({ targetLanguage: 'Chinese (Traditional)', translatorCode: '1', promptBuilderCode: '2', texts: [{ id: '0-0', content: 'Hello, world.' }] });
+    });
+
+    test('migrates a source without a definition to the hard-wired API with its default codes', async () => {
+        const credentialVault = { salt: '', check: { iv: '', data: '' }, secrets: {}, plainSecrets: {} };
+        const [migratedSource] = migrateCustomTranslateSources([legacySource], false, credentialVault);
+
+        resetStorage({ credentialVault });
+
+        const requests = mockServer([getRoute({ body: vendor })]);
+
+        await translateByCustomSource(params, migratedSource);
+
+        expect(migratedSource).toMatchObject({ url: SOURCE_URL, secrets: {} });
+        expect(credentialVault.plainSecrets).toEqual({});
+        expect(requests[0].headers.authorization).toBe('Bearer');
+        expect(JSON.parse(requests[0].body)).toEqual({ targetLanguage: 'Chinese (Simplified)', translatorCode: '', promptBuilderCode: 0, texts: [{ id: '0-0', content: 'Hello, world.' }] });
+    });
+
+    test('maps failures to error codes', async () => {
+        const credentialVault = { salt: '', check: { iv: '', data: '' }, secrets: {}, plainSecrets: {} };
+        const [migratedSource] = migrateCustomTranslateSources([{ ...legacySource, url: `${SOURCE_URL}?key=sk-test` }], false, credentialVault);
+
+        resetStorage({ credentialVault });
+
+        mockServer([getRoute({ body: vendorError })]);
+        await expect(translateByCustomSource(params, migratedSource)).rejects.toMatchObject({ code: `${RESULT_ERROR} (Invalid API key)` });
+
+        await expect(translateByCustomSource({ ...params, to: 'xx' }, migratedSource)).rejects.toMatchObject({ code: LANGUAGE_NOT_SOPPORTED });
+
+        mockServer([getRoute({ body: defaultProtocolInvalid })]);
+        await expect(translateByCustomSource(params, source)).rejects.toMatchObject({ code: 'Error: the type of "result" must be "string[]".' });
+
+        mockServer([getRoute({ status: 500, body: 'Internal Server Error' })]);
+        await expect(translateByCustomSource(params, source)).rejects.toMatchObject({ code: `${BAD_REQUEST} (http 500)` });
+
+        await expect(translate(params, 'custom-unknown')).rejects.toMatchObject({ code: SOURCE_ERROR });
+    });
+});
\ No newline at end of file
@@ -2,4 +2,9 @@ export const CONNECTION_TIMED_OUT = 'CONNECTION_TIMED_OUT';
 export const BAD_REQUEST = 'BAD_REQUEST';
 export const RESULT_ERROR = 'RESULT_ERROR';
 export const LANGUAGE_NOT_SOPPORTED = 'LANGUAGE_NOT_SOPPORTED';
-export const NO_RESULT = 'NO_RESULT';
\ No newline at end of file
+export const NO_RESULT = 'NO_RESULT';
+
+// Shown as they are, errors of the settings rather than of the service.
+export const SERVICE_NOT_FOUND = 'Error: Service value not found.';
+export const KEY_REQUIRED = 'Error: Key is required.';
+export const AUTH_TOKEN_REQUIRED = 'Error: Auth Token (key) is required.';
\ No newline at end of file
@@ -1,13 +1,15 @@
-import { langCodeI18n } from '../../../constants/langCode';
 import { defaultGeminiValue } from '../../../constants/thirdPartyServiceValues';
 import { TranslateResult } from '../../../types';
 import { getMessage } from '../../i18n';
+import { buildPromptMessages } from '../prompt-template';
 import scOptions from '../../sc-options';
-import { RESULT_ERROR } from '../error-codes';
-import { TranslateParams } from '../translate-types';
-import { determineFromAndTo, fetchTPS, getError } from '../utils';
+import { getSecret } from '../../credential-vault';
+import { getLLMUsage, recordLLMUsage } from '../../llm-usage';
+import { AUTH_TOKEN_REQUIRED, RESULT_ERROR, SERVICE_NOT_FOUND } from '../error-codes';
+import { TranslateExtraParams, TranslateParams } from '../translate-types';
+import { determineFromAndTo, fetchTPSStream, getError, readEventStream } from '../utils';
 //这其实是cloudflare ai 的@cf/openai/gpt-oss-20b模型
-export const translate: (params: TranslateParams) => Promise<TranslateResult> = async ({ text, from, to, preferredLanguage, secondPreferredLanguage }) => {
+export const translate: (params: TranslateParams, serviceName: string, extra?: TranslateExtraParams) => Promise<TranslateResult> = async ({ text, from, to, preferredLanguage, secondPreferredLanguage, context }, serviceName, extra) => {
     // 1. 确定源语言和目标语言
     const { from: nextFrom, to: nextTo } = await determineFromAndTo({ text, from, to, preferredLanguage, secondPreferredLanguage });
     from = nextFrom;
@@ -17,43 +19,86 @@ export const translate: (params: TranslateParams) => Promise<TranslateResult> =
 
     // 2. 获取服务配置
     const { enabledThirdPartyServices: services } = await scOptions.get(['enabledThirdPartyServices']);
-    // 保持服务名为 'Gemini'
-    const currentService = services.find(service => service.name === 'Gemini'); 
+    const currentService = services.find(service => service.source === serviceName);
 
-    if (!currentService) { throw getError('Error: Service value not found.'); }
+    if (!currentService) { throw getError(SERVICE_NOT_FOUND); }
 
     // 修复 SyntaxError，并合并默认值
     const serviceValue = { ...defaultGeminiValue, ...currentService }; 
     
     // 3. 参数检查和 URL/Prompt 准备
     // 检查 Auth Token (使用 key)
-    if (!serviceValue.key) { throw getError('Error: Auth Token (key) is required.'); }
+    const key = serviceValue.keyId ? await getSecret(serviceValue.keyId) : '';
+
+    if (!key) { throw getError(AUTH_TOKEN_REQUIRED); }
     
     // URL 直接使用配置中的完整 URL (包含 Account ID)
     const url = serviceValue.url;
     
-    // Prompt 策略（适配 Cloudflare LLM 翻译）
-    const prompt = `Translate the following text into ${langCodeI18n['zh-CN'][to]}: "${text}"`;
+    // Prompt 策略（适配 Cloudflare LLM 翻译），input 只有一段文本，各条消息按顺序拼接
+    const prompt = buildPromptMessages({
+        template: serviceValue.prompt || defaultGeminiValue.prompt,
+        text,
+        from,
+        to,
+        promptLanguage: serviceValue.promptLanguage,
+        context,
+        glossary: extra?.glossary
+    }).map(message => message.content).join('\n\n');
 
     // 4. 请求 Body 结构 (Cloudflare AI)
-    // 结构为：{ model: "...", input: "..." }
+    // 结构为：{ model: "...", input: "...", stream: boolean }
     const fetchJSON = { 
         model: serviceValue.model, // Cloudflare 模型名称
-        input: prompt             
+        input: prompt,
+        temperature: serviceValue.temperature,
+        stream: !!extra?.onProgress // 有 onProgress 时请求流式 (SSE) 输出
     };
 
     // 5. 调用第三方服务 API
-    const res = await fetchTPS(url, {
+    const res = await fetchTPSStream(url, {
         method: 'POST',
         headers: {
             'Content-Type': 'application/json',
-            // 认证 Header: 使用 serviceValue.key 作为 Bearer Token
-            'Authorization': `Bearer ${serviceValue.key}` 
+            // 认证 Header: 使用凭据库中的 key 作为 Bearer Token
+            'Authorization': `Bearer ${key}` 
         },
         body: JSON.stringify(fetchJSON)
-    });
+    }, extra?.signal);
 
     try {
+        // 流式响应：逐段累加 response.output_text.delta
+        if (res.ok && res.headers.get('Content-Type')?.includes('text/event-stream')) {
+            let translation = '';
+            let usage: unknown;
+
+            await readEventStream(res, ({ data }) => {
+                if (data === '[DONE]') { return; }
+
+                const chunk = JSON.parse(data);
+
+                // 用量随 response.completed 事件返回
+                chunk.type === 'response.completed' && (usage = chunk.response?.usage);
+
+                if (chunk.type !== 'response.output_text.delta' || typeof chunk.delta !== 'string') { return; }
+
+                translation += chunk.delta;
+
+                extra?.onProgress?.({ text, from, to, result: translation.trim().split('\n') });
+            });
+
+            if (!translation) { throw getError(`Cloudflare AI response structure is invalid for translation.`); }
+
+            recordLLMUsage(serviceValue, getLLMUsage(usage, prompt, translation));
+
+            return {
+                text,
+                from,
+                to,
+                result: translation.trim().replace(/[。？！，：；“”]$/, '').split('\n')
+            };
+        }
+
         const result = await res.json();
         
         // 6. 响应处理和错误检查
@@ -61,7 +106,7 @@ export const translate: (params: TranslateParams) => Promise<TranslateResult> =
         if (!res.ok || result.success === false) {
             // 适配 Cloudflare 错误信息提取路径
             const errorDetails = (result.errors || result.messages || [{message: 'Unknown API Error'}])
-                                 .map(e => e.message).join('; ');
+                                 .map((e: { message: string }) => e.message).join('; ');
             throw getError(`Cloudflare AI API Error: ${errorDetails}`);
         }
 
@@ -75,6 +120,8 @@ export const translate: (params: TranslateParams) => Promise<TranslateResult> =
         }
         
         const translation: string = translationContainer.content[0].text; 
+
+        recordLLMUsage(serviceValue, getLLMUsage(result.usage, prompt, translation));
         
         // 可选：移除翻译文本末尾的标点符号，以获得更干净的结果 
         const cleanTranslation = translation.trim().replace(/[。？！，：；“”]$/, '');
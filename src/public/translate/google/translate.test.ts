@@ -0,0 +1,79 @@
+import { describe, expect, test } from '@jest/globals';
+import { translate } from './translate';
+import { mockServer } from '../../../test/mock-server';
+import { BAD_REQUEST, LANGUAGE_NOT_SOPPORTED, RESULT_ERROR } from '../error-codes';
+import sentence from '../../../test/fixtures/google/sentence.json';
+import word from '../../../test/fixtures/google/word.json';
+import toSecondPreferred from '../../../test/fixtures/google/to-second-preferred.json';
+import sameLanguage from '../../../test/fixtures/google/same-language.json';
+
+const TRANSLATE_URL = 'https://translate.googleapis.com/translate_a/single';
+
+const params = { text: 'Hello, world.\nThe weather is nice today.', from: '', to: '', preferredLanguage: 'zh-CN', secondPreferredLanguage: 'en' };
+
+describe('google translate', () => {
+    test('joins the sentences and splits them into lines', async () => {
+        const requests = mockServer([{ url: TRANSLATE_URL, reply: { body: sentence } }]);
+
+        const result = await translate(params);
+
+        expect(result).toMatchObject({
+            from: 'en',
+            to: 'zh-CN',
+            result: ['你好，世界。', '今天天气很好。'],
+            alignment: [{ text: 'Hello, world.', result: '你好，世界。' }, { text: 'The weather is nice today.', result: '今天天气很好。' }]
+        });
+        expect(result.phonetic).toBeUndefined();
+
+        const query = new URL(requests[0].url).searchParams;
+
+        expect(query.get('sl')).toBe('auto');
+        expect(query.get('tl')).toBe('zh-CN');
+        expect(query.get('tk')).toMatch(/^\d+\.\d+$/);
+    });
+
+    test('reads the dictionary, phonetic, related words and examples of a word', async () => {
+        mockServer([{ url: TRANSLATE_URL, reply: { body: word } }]);
+
+        const result = await translate({ ...params, text: 'run' });
+
+        expect(result).toMatchObject({
+            result: ['跑'],
+            dict: ['verb: 跑, 运行', 'noun: 跑步'],
+            phonetic: '[rən]',
+            related: ['running', 'runner'],
+            example: ['I <b>run</b> every morning.', 'The trains <b>run</b> on time.', 'She <b>ran</b> the company.']
+        });
+    });
+
+    test('requests again in the second preferred language when the text is in the preferred one', async () => {
+        const requests = mockServer([{ url: TRANSLATE_URL, reply: ({ url }) => ({ body: url.includes('tl=en') ? toSecondPreferred : sameLanguage }) }]);
+
+        const result = await translate({ ...params, text: '你好' });
+
+        expect(requests).toHaveLength(2);
+        expect(new URL(requests[1].url).searchParams.get('sl')).toBe('zh-CN');
+        expect(result).toMatchObject({ from: 'zh-CN', to: 'en', result: ['Hello'] });
+    });
+
+    test('keeps the target language that was asked for', async () => {
+        const requests = mockServer([{ url: TRANSLATE_URL, reply: { body: sameLanguage } }]);
+
+        const result = await translate({ ...params, text: '你好', to: 'zh-CN' });
+
+        expect(requests).toHaveLength(1);
+        expect(result).toMatchObject({ from: 'zh-CN', to: 'zh-CN', result: ['你好'] });
+    });
+
+    test('maps failures to error codes', async () => {
+        mockServer([{ url: TRANSLATE_URL, reply: { status: 429, body: 'Too Many Requests' } }]);
+        await expect(translate(params)).rejects.toMatchObject({ code: `${BAD_REQUEST} (http 429)` });
+
+        mockServer([{ url: TRANSLATE_URL, reply: { body: '<html>Sorry...</html>' } }]);
+        await expect(translate(params)).rejects.toMatchObject({ code: RESULT_ERROR });
+
+        const requests = mockServer([]);
+        await expect(translate({ ...params, to: 'xx' })).rejects.toMatchObject({ code: LANGUAGE_NOT_SOPPORTED });
+        expect(requests).toHaveLength(0);
+    });
+});
\ No newline at end of file
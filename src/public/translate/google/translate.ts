@@ -48,6 +48,7 @@ export const translate = async ({ text, from, to, preferredLanguage, secondPrefe
             from: data.src,
             to,
             result: (data.sentences as { trans: string; }[])?.reduce((t, c) => (`${t}${c.trans ?? ''}`), '').split('\n').filter(v => v.trim()),
+            alignment: (data.sentences as { orig?: string; trans?: string; }[])?.filter(v => typeof v.trans === 'string' && typeof v.orig === 'string' && v.orig.trim()).map(v => ({ text: v.orig!.trim(), result: v.trans!.trim() })),
             dict: data.dict?.reduce((t: string[], c: { pos: string; entry: { word: string ; }[] }) => (t.concat(c.pos + ': ' + c.entry.map(v => v.word).join(', '))), []),
             phonetic: data.sentences?.[1]?.src_translit && `[${data.sentences[1].src_translit}]`,
             related: data.related_words?.word,
@@ -0,0 +1,134 @@
+import { defaultLibreTranslateValue } from '../../../constants/thirdPartyServiceValues';
+import { TranslateResult } from '../../../types';
+import { ThirdPartyServiceValue } from '../../../types/thirdPartyValue';
+import scOptions from '../../sc-options';
+import { getSecret } from '../../credential-vault';
+import { LANGUAGE_NOT_SOPPORTED, RESULT_ERROR, SERVICE_NOT_FOUND } from '../error-codes';
+import { DetectParams, TranslateParams } from '../translate-types';
+import { determineFromAndTo, fetchTPS, getError } from '../utils';
+
+type LibreTranslateServiceValue = ThirdPartyServiceValue & { url: string; };
+
+export const getLibreTranslateServiceValue = async (source: string): Promise<LibreTranslateServiceValue> => {
+    const { enabledThirdPartyServices: services } = await scOptions.get(['enabledThirdPartyServices']);
+    const currentService = services.find(service => service.source === source);
+
+    if (!currentService) { throw getError(SERVICE_NOT_FOUND); }
+
+    return { ...defaultLibreTranslateValue, ...currentService };
+};
+
+// "/translate", "/detect" and "/languages" are siblings.
+const getEndpoint = (url: string, path: string) => new URL(path, url.replace(/\/translate\/?$/, '/')).href;
+
+const languagesCache = new Map<string, Promise<string[]>>();
+
+const getLanguages = (url: string) => {
+    const endpoint = getEndpoint(url, 'languages');
+
+    if (!languagesCache.has(endpoint)) {
+        const languages = fetchTPS(endpoint).then(res => res.json()).then((data: { code: string; }[]) => data.map(({ code }) => code));
+
+        // Try again next time rather than remembering a server that was not up yet.
+        languages.catch(() => languagesCache.delete(endpoint));
+
+        languagesCache.set(endpoint, languages);
+    }
+
+    return languagesCache.get(endpoint)!;
+};
+
+// Chinese is "zh" and "zt" before LibreTranslate 1.6 and "zh-Hans" and "zh-Hant" since.
+const languageCandidates: { [code: string]: string[]; } = {
+    'zh-CN': ['zh-Hans', 'zh'],
+    'zh-TW': ['zh-Hant', 'zt']
+};
+
+const fromLibreTranslateLanguageMap: { [code: string]: string; } = { 'zh': 'zh-CN', 'zh-Hans': 'zh-CN', 'zt': 'zh-TW', 'zh-Hant': 'zh-TW' };
+
+export const toLibreTranslateLanguage = async (code: string, url: string) => {
+    const candidates = languageCandidates[code] ?? [code, code.split('-')[0]];
+    const languages = await getLanguages(url).catch(() => null);
+
+    if (!languages) { return candidates[candidates.length - 1]; }
+
+    const language = candidates.find(candidate => languages.includes(candidate));
+
+    if (!language) { throw getError(LANGUAGE_NOT_SOPPORTED); }
+
+    return language;
+};
+
+export const fromLibreTranslateLanguage = (code: string) => fromLibreTranslateLanguageMap[code] ?? code;
+
+// "q" may be an array, the translations come back in the same order.
+export const requestLibreTranslate = async <T extends string | string[]>(serviceValue: LibreTranslateServiceValue, q: T, from: string, to: string) => {
+    const key = serviceValue.keyId ? await getSecret(serviceValue.keyId) : '';
+
+    const res = await fetchTPS(serviceValue.url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+            q,
+            source: from ? await toLibreTranslateLanguage(from, serviceValue.url) : 'auto',
+            target: await toLibreTranslateLanguage(to, serviceValue.url),
+            format: 'text',
+            api_key: key || undefined
+        })
+    }, 60000);
+
+    const result = await res.json().catch(() => { throw getError(RESULT_ERROR); });
+
+    if (!res.ok) { throw getError(`[Error Code] ${res.status} [Message] ${result.error}`); }
+
+    return result as { translatedText: T; detectedLanguage?: { language: string; } | { language: string; }[]; };
+};
+
+export const translate: (params: TranslateParams, serviceName: string) => Promise<TranslateResult> = async ({ text, from, to, preferredLanguage, secondPreferredLanguage }, serviceName) => {
+    const { from: nextFrom, to: nextTo } = await determineFromAndTo({ text, from, to, preferredLanguage, secondPreferredLanguage });
+
+    if (!nextTo) { throw getError('Error: Target language is required.'); }
+
+    const serviceValue = await getLibreTranslateServiceValue(serviceName);
+
+    try {
+        // The server detects the language itself better than a guess made here.
+        const { translatedText, detectedLanguage } = await requestLibreTranslate(serviceValue, text, from, nextTo);
+
+        if (typeof translatedText !== 'string') { throw getError(RESULT_ERROR); }
+
+        const detectedFrom = Array.isArray(detectedLanguage) ? detectedLanguage[0]?.language : detectedLanguage?.language;
+
+        return {
+            text,
+            from: detectedFrom ? fromLibreTranslateLanguage(detectedFrom) : nextFrom,
+            to: nextTo,
+            result: translatedText.split('\n')
+        };
+    }
+    catch (err) {
+        if ((err as ReturnType<typeof getError>).code) {
+            throw err;
+        }
+        else {
+            throw getError(RESULT_ERROR);
+        }
+    }
+};
+
+export const detect = async ({ text }: DetectParams, serviceName: string) => {
+    const serviceValue = await getLibreTranslateServiceValue(serviceName);
+    const key = serviceValue.keyId ? await getSecret(serviceValue.keyId) : '';
+
+    const res = await fetchTPS(getEndpoint(serviceValue.url, 'detect'), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ q: text, api_key: key || undefined })
+    });
+
+    const result = await res.json().catch(() => { throw getError(RESULT_ERROR); });
+
+    if (!res.ok || !Array.isArray(result) || !result[0]?.language) { throw getError(RESULT_ERROR); }
+
+    return fromLibreTranslateLanguage(result[0].language);
+};
\ No newline at end of file
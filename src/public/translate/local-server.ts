@@ -0,0 +1,88 @@
+import { langCodeI18n, LANG_EN } from '../../constants/langCode';
+import { serviceDefaultValueMap } from '../../constants/thirdPartyServiceValues';
+import { ThirdPartyServiceType, ThirdPartyServiceValue } from '../../types/thirdPartyValue';
+import { requestChatCompletion } from './openai-compatibility/chat';
+import { requestOllamaChat } from './ollama/translate';
+import { PromptMessage } from './prompt-template';
+import { DetectParams } from './translate-types';
+import { fetchTPS } from './utils';
+
+type LocalServer = {
+    ports: number[];
+    // Answers with JSON when the server is up.
+    probePath: string;
+    endpointPath: string;
+};
+
+const localServers: { [K in ThirdPartyServiceType]?: LocalServer; } = {
+    Ollama: { ports: [11434], probePath: '/api/tags', endpointPath: '/api/chat' },
+    LlamaCpp: { ports: [8080, 8081], probePath: '/v1/models', endpointPath: '/v1/chat/completions' },
+    LibreTranslate: { ports: [5000], probePath: '/languages', endpointPath: '/translate' }
+};
+
+// Tries the default ports of the server, resolves to the endpoint of the first one that answers or to an empty string.
+export const discoverLocalServer = async (type: ThirdPartyServiceType) => {
+    const server = localServers[type];
+
+    if (!server) { return ''; }
+
+    for (const host of ['localhost', '127.0.0.1']) {
+        for (const port of server.ports) {
+            const origin = `http://${host}:${port}`;
+
+            try {
+                const res = await fetchTPS(`${origin}${server.probePath}`, undefined, 2000);
+
+                if (res.ok && await res.json()) { return `${origin}${server.endpointPath}`; }
+            }
+            catch {}
+        }
+    }
+
+    return '';
+};
+
+// Models the server has, llama.cpp lists the one it was started with.
+export const listLocalModels = async (type: ThirdPartyServiceType, url: string, key = ''): Promise<string[]> => {
+    const endpoint = url || serviceDefaultValueMap.get(type)?.url || '';
+    const headers: HeadersInit = key ? { 'Authorization': `Bearer ${key}` } : {};
+
+    if (type === 'Ollama') {
+        const res = await fetchTPS(new URL('/api/tags', endpoint).href, { headers }, 5000);
+        const data = await res.json();
+
+        return Array.isArray(data?.models) ? data.models.map((model: { name: string; }) => model.name) : [];
+    }
+
+    if (type === 'LlamaCpp') {
+        const res = await fetchTPS(endpoint.replace(/\/chat\/completions\/?$/, '/models'), { headers }, 5000);
+        const data = await res.json();
+
+        return Array.isArray(data?.data) ? data.data.map((model: { id: string; }) => model.id) : [];
+    }
+
+    return [];
+};
+
+const detectPrompt = [
+    'Identify the language of the text the user sends.',
+    'Reply with its ISO 639-1 code only, such as "en" or "ja", and "zh-CN" or "zh-TW" for Simplified or Traditional Chinese.'
+].join(' ');
+
+// Local models know languages well enough, a wrong or chatty answer falls back to the browser's own detection.
+export const detectByChat = async ({ text }: DetectParams, serviceValue: ThirdPartyServiceValue & { url: string; }) => {
+    const messages: PromptMessage[] = [
+        { role: 'system', content: detectPrompt },
+        { role: 'user', content: text.substring(0, 500) }
+    ];
+
+    const content = serviceValue.type === 'Ollama' ? await requestOllamaChat(serviceValue, messages) : await requestChatCompletion(serviceValue, messages);
+
+    const code = content.trim().replace(/^["'`]|["'`.]$/g, '').replace(/^zh$/i, 'zh-CN');
+
+    if (code && code in langCodeI18n[LANG_EN]) { return code; }
+
+    const detection = await chrome.i18n.detectLanguage(text);
+
+    return detection.languages[0]?.language ?? '';
+};
\ No newline at end of file
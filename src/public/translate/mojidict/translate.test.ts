@@ -0,0 +1,39 @@
+import { describe, expect, test } from '@jest/globals';
+import { translate } from './translate';
+import { mockServer, Route } from '../../../test/mock-server';
+import { BAD_REQUEST, NO_RESULT, RESULT_ERROR } from '../error-codes';
+import search from '../../../test/fixtures/mojidict/search.json';
+import searchEmpty from '../../../test/fixtures/mojidict/search-empty.json';
+import searchError from '../../../test/fixtures/mojidict/search-error.json';
+
+const getRoute = (reply: Route['reply']): Route => ({ method: 'POST', url: 'https://api.mojidict.com/parse/functions/union-api', reply });
+
+const params = { text: '走る', from: '', to: '', preferredLanguage: 'zh-CN', secondPreferredLanguage: 'en' };
+
+describe('mojidict translate', () => {
+    test('reads the word, its excerpt and hiragana from the first search result', async () => {
+        const requests = mockServer([getRoute({ body: search })]);
+
+        const result = await translate(params);
+
+        expect(result).toEqual({
+            text: '走る',
+            from: '',
+            to: 'ja',
+            result: ['走る'],
+            dict: ['[自动·五段] 跑，奔跑。（足を速く動かして移動する。）', '[平假名] はしる']
+        });
+        expect(JSON.parse(requests[0].body).functions[0]).toEqual({ name: 'search-all', params: { text: '走る', types: [102, 106, 103] } });
+    });
+
+    test('maps failures to error codes', async () => {
+        mockServer([getRoute({ body: searchEmpty })]);
+        await expect(translate(params)).rejects.toMatchObject({ code: NO_RESULT });
+
+        mockServer([getRoute({ body: searchError })]);
+        await expect(translate(params)).rejects.toMatchObject({ code: RESULT_ERROR });
+
+        mockServer([getRoute({ status: 502, body: '' })]);
+        await expect(translate(params)).rejects.toMatchObject({ code: `${BAD_REQUEST} (http 502)` });
+    });
+});
\ No newline at end of file
@@ -0,0 +1,128 @@
+import { defaultOllamaValue } from '../../../constants/thirdPartyServiceValues';
+import { TranslateResult } from '../../../types';
+import { ThirdPartyServiceValue } from '../../../types/thirdPartyValue';
+import { getMessage } from '../../i18n';
+import { buildPromptMessages, PromptMessage } from '../prompt-template';
+import { dictionaryPrompt, dictionaryResponseFormat, isDictionaryText, parseDictionaryResult } from '../openai-compatibility/dictionary';
+import scOptions from '../../sc-options';
+import { getSecret } from '../../credential-vault';
+import { getLLMUsage, recordLLMUsage } from '../../llm-usage';
+import { RESULT_ERROR, SERVICE_NOT_FOUND } from '../error-codes';
+import { TranslateExtraParams, TranslateParams } from '../translate-types';
+import { determineFromAndTo, fetchTPSStream, getError, readJSONLines } from '../utils';
+
+type OllamaChatOptions = {
+    // A JSON schema, or "json" for any JSON object.
+    format?: object | 'json';
+    signal?: AbortSignal;
+    onDelta?: (content: string) => void;
+};
+
+export const getOllamaServiceValue = async (source: string) => {
+    const { enabledThirdPartyServices: services } = await scOptions.get(['enabledThirdPartyServices']);
+    const currentService = services.find(service => service.source === source);
+
+    if (!currentService) { throw getError(SERVICE_NOT_FOUND); }
+
+    return { ...defaultOllamaValue, ...currentService };
+};
+
+// "/api/chat" always streams here, a model being loaded may take longer than the connection timeout before answering.
+export const requestOllamaChat = async (serviceValue: ThirdPartyServiceValue & { url: string; }, messages: PromptMessage[], { format, signal, onDelta }: OllamaChatOptions = {}) => {
+    // Ollama itself has no keys, they are for proxies in front of it.
+    const key = serviceValue.keyId ? await getSecret(serviceValue.keyId) : '';
+
+    const res = await fetchTPSStream(serviceValue.url, {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            ...(key ? { 'Authorization': `Bearer ${key}` } : {})
+        },
+        body: JSON.stringify({
+            model: serviceValue.model,
+            messages,
+            stream: true,
+            format,
+            options: serviceValue.temperature === undefined ? undefined : { temperature: serviceValue.temperature }
+        })
+    }, signal);
+
+    if (!res.ok) {
+        const result = await res.json().catch(() => null);
+
+        // Requests from extensions are refused unless "OLLAMA_ORIGINS" allows them.
+        if (res.status === 403) { throw getError(getMessage('errorOllamaOrigins')); }
+
+        throw getError(`[Error Code] ${res.status} [Message] ${result?.error ?? res.statusText}`);
+    }
+
+    let content = '';
+    let usage: { prompt_tokens: number; completion_tokens: number; } | undefined;
+
+    await readJSONLines(res, (data) => {
+        if (data.error) { throw getError(`[Message] ${data.error}`); }
+
+        const delta = data.message?.content;
+
+        if (typeof delta === 'string' && delta) {
+            content += delta;
+
+            onDelta?.(content);
+        }
+
+        data.done && (usage = { prompt_tokens: data.prompt_eval_count, completion_tokens: data.eval_count });
+    });
+
+    recordLLMUsage(serviceValue, getLLMUsage(usage, messages.map(message => message.content).join('\n'), content));
+
+    return content;
+};
+
+export const translate: (params: TranslateParams, serviceName: string, extra?: TranslateExtraParams) => Promise<TranslateResult> = async ({ text, from, to, preferredLanguage, secondPreferredLanguage, context }, serviceName, extra) => {
+    const { from: nextFrom, to: nextTo } = await determineFromAndTo({ text, from, to, preferredLanguage, secondPreferredLanguage });
+    from = nextFrom;
+    to = nextTo;
+
+    if (!to) { throw getError('Error: Target language is required.'); }
+
+    const serviceValue = await getOllamaServiceValue(serviceName);
+
+    const wordMode = !!serviceValue.wordMode && isDictionaryText(text);
+
+    const messages = buildPromptMessages({
+        template: wordMode ? dictionaryPrompt : serviceValue.prompt || getMessage('commonPrompt'),
+        text,
+        from,
+        to,
+        promptLanguage: serviceValue.promptLanguage,
+        context,
+        glossary: extra?.glossary
+    });
+
+    try {
+        const translation = await requestOllamaChat(serviceValue, messages, {
+            format: wordMode ? dictionaryResponseFormat.json_schema.schema : undefined,
+            signal: extra?.signal,
+            onDelta: wordMode ? undefined : content => extra?.onProgress?.({ text, from: '', to, result: content.split('\n') })
+        });
+
+        if (wordMode) {
+            return parseDictionaryResult(translation, { text, from, to });
+        }
+
+        return {
+            text,
+            from: '',
+            to,
+            result: translation.split('\n')
+        };
+    }
+    catch (err) {
+        if ((err as ReturnType<typeof getError>).code) {
+            throw err;
+        }
+        else {
+            throw getError(RESULT_ERROR);
+        }
+    }
+};
\ No newline at end of file
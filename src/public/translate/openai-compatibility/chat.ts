@@ -0,0 +1,46 @@
+import { localServiceTypes } from '../../../constants/thirdPartyServiceValues';
+import { ThirdPartyServiceValue } from '../../../types/thirdPartyValue';
+import { getSecret } from '../../credential-vault';
+import { getLLMUsage, recordLLMUsage } from '../../llm-usage';
+import { PromptMessage } from '../prompt-template';
+import { fetchTPS, getError } from '../utils';
+import { KEY_REQUIRED } from '../error-codes';
+
+type ChatCompletionOptions = {
+    responseFormat?: object;
+    timeout?: number;
+};
+
+// Not streamed, for answers that are only of use as a whole such as a batch of paragraphs.
+export const requestChatCompletion = async (serviceValue: ThirdPartyServiceValue & { url: string; }, messages: PromptMessage[], { responseFormat, timeout = 60000 }: ChatCompletionOptions = {}) => {
+    const key = serviceValue.keyId ? await getSecret(serviceValue.keyId) : '';
+
+    if (!key && !localServiceTypes.includes(serviceValue.type)) { throw getError(KEY_REQUIRED); }
+
+    const res = await fetchTPS(serviceValue.url, {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            ...(key ? { 'Authorization': `Bearer ${key}` } : {})
+        },
+        body: JSON.stringify({
+            model: serviceValue.model || undefined,
+            messages,
+            response_format: responseFormat,
+            temperature: serviceValue.temperature
+        })
+    }, timeout);
+
+    const result = await res.json();
+
+    if (!res.ok) {
+        const error = Array.isArray(result) ? result[0].error : result.error;
+        throw getError(`[Error Code] ${error.code} [Message] ${error.message}`);
+    }
+
+    const content: string = result.choices[0].message.content;
+
+    recordLLMUsage(serviceValue, getLLMUsage(result.usage, messages.map(message => message.content).join('\n'), content));
+
+    return content;
+};
\ No newline at end of file
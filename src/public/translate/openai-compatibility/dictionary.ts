@@ -0,0 +1,95 @@
+import { TranslateResult } from '../../../types';
+import { isWordText } from '../prompt-template';
+
+// Short phrases such as "look up" or "in spite of" are looked up like words.
+export const isDictionaryText = (text: string) => {
+    const trimmedText = text.trim();
+
+    if (isWordText(trimmedText)) { return true; }
+
+    return trimmedText.length <= 30 && trimmedText.split(/\s+/).length <= 3 && !/[.!?。！？\n]/.test(trimmedText);
+};
+
+export const dictionaryPrompt = [
+    '[system]',
+    'You are a bilingual dictionary. Look up the word or phrase the user sends and write the meanings in {target}.',
+    '"translation" is its most common translation. "phonetic" is its IPA without slashes, or an empty string when there is none.',
+    '"dict" lists the meanings by part of speech, "partOfSpeech" is an abbreviation such as "n.", "v." or "adj.".',
+    '"examples" are up to 3 short sentences in the original language using it, "related" are up to 5 related words or phrases.',
+    '{#paragraph}It appears in: "{paragraph}". Put the meaning that fits there first.{/paragraph}',
+    '{glossary}',
+    '[user]',
+    '{text}'
+].join('\n');
+
+export const dictionaryResponseFormat = {
+    type: 'json_schema',
+    json_schema: {
+        name: 'dictionary_entry',
+        strict: true,
+        schema: {
+            type: 'object',
+            properties: {
+                translation: { type: 'string' },
+                phonetic: { type: 'string' },
+                dict: {
+                    type: 'array',
+                    items: {
+                        type: 'object',
+                        properties: {
+                            partOfSpeech: { type: 'string' },
+                            meanings: { type: 'array', items: { type: 'string' } }
+                        },
+                        required: ['partOfSpeech', 'meanings'],
+                        additionalProperties: false
+                    }
+                },
+                examples: { type: 'array', items: { type: 'string' } },
+                related: { type: 'array', items: { type: 'string' } }
+            },
+            required: ['translation', 'phonetic', 'dict', 'examples', 'related'],
+            additionalProperties: false
+        }
+    }
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object' && !Array.isArray(value);
+
+const toStrings = (value: unknown) => (Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string' && !!v.trim()) : []);
+
+// Models without structured output may still answer in prose or wrap the JSON in a code block, prose becomes the plain result.
+export const parseDictionaryResult = (content: string, params: Pick<TranslateResult, 'text' | 'from' | 'to'>): TranslateResult => {
+    let data: unknown = null;
+
+    try {
+        data = JSON.parse(content.replace(/^\s*```(json)?|```\s*$/g, ''));
+    }
+    catch {}
+
+    if (!isRecord(data) || typeof data.translation !== 'string') {
+        return { ...params, result: content.trim().split('\n') };
+    }
+
+    const result: TranslateResult = { ...params, result: [data.translation] };
+
+    const dict: string[] = Array.isArray(data.dict) ? data.dict.flatMap((entry: unknown) => {
+        if (!isRecord(entry)) { return []; }
+
+        const meanings = toStrings(entry.meanings);
+
+        if (meanings.length === 0) { return []; }
+
+        return typeof entry.partOfSpeech === 'string' && entry.partOfSpeech ? `${entry.partOfSpeech}: ${meanings.join(', ')}` : meanings.join(', ');
+    }) : [];
+
+    const phonetic = typeof data.phonetic === 'string' ? data.phonetic.trim().replace(/^[/[]|[/\]]$/g, '') : '';
+    const example = toStrings(data.examples).slice(0, 3);
+    const related = toStrings(data.related).slice(0, 5);
+
+    dict.length > 0 && (result.dict = dict);
+    phonetic && (result.phonetic = `/${phonetic}/`);
+    example.length > 0 && (result.example = example);
+    related.length > 0 && (result.related = related);
+
+    return result;
+};
\ No newline at end of file
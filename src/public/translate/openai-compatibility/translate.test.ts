@@ -0,0 +1,91 @@
+import { beforeEach, describe, expect, test } from '@jest/globals';
+import { translate } from './translate';
+import { mockServer, Route } from '../../../test/mock-server';
+import { resetStorage } from '../../../test/setup';
+import { ThirdPartyServiceValue } from '../../../types/thirdPartyValue';
+import { RESULT_ERROR } from '../error-codes';
+import completion from '../../../test/fixtures/openai/completion.json';
+import dictionary from '../../../test/fixtures/openai/dictionary.json';
+import streamChunks from '../../../test/fixtures/openai/stream-chunks.json';
+import error from '../../../test/fixtures/openai/error.json';
+import responseFormatError from '../../../test/fixtures/openai/response-format-error.json';
+
+const COMPLETIONS_URL = 'https://api.openai.com/v1/chat/completions';
+
+const service: ThirdPartyServiceValue = { source: 'openai-1', name: 'OpenAI', type: 'OpenAI', url: COMPLETIONS_URL, keyId: 'key-1' };
+
+const getRoute = (reply: Route['reply']): Route => ({ method: 'POST', url: COMPLETIONS_URL, reply });
+
+const setServices = (services: ThirdPartyServiceValue[]) => resetStorage({
+    enabledThirdPartyServices: services,
+    credentialVault: { salt: '', check: { iv: '', data: '' }, secrets: {}, plainSecrets: { 'key-1': { name: 'OpenAI API Key', value: 'sk-test' } } }
+});
+
+const params = { text: 'Hello, world.\nThe weather is nice today.', from: 'en', to: 'zh-CN', preferredLanguage: 'zh-CN', secondPreferredLanguage: 'en' };
+
+describe('openai compatible translate', () => {
+    beforeEach(() => {
+        setServices([service]);
+    });
+
+    test('reads the message of a completion', async () => {
+        const requests = mockServer([getRoute({ body: completion })]);
+
+        const result = await translate(params, 'openai-1');
+
+        expect(result).toEqual({ text: params.text, from: '', to: 'zh-CN', result: ['你好，世界。', '今天天气很好。'] });
+        expect(requests[0].headers.authorization).toBe('Bearer sk-test');
+        expect(JSON.parse(requests[0].body)).toMatchObject({ model: 'gpt-5', stream: false });
+    });
+
+    test('streams the translation to "onProgress"', async () => {
+        const chunks = [...streamChunks.map(chunk => `data: ${JSON.stringify(chunk)}\n\n`), 'data: [DONE]\n\n'];
+        const requests = mockServer([getRoute({ headers: { 'Content-Type': 'text/event-stream' }, chunks })]);
+        const progress: string[] = [];
+
+        const result = await translate({ ...params, text: 'Hello, world.' }, 'openai-1', { onProgress: ({ result }) => progress.push(result.join('\n')) });
+
+        expect(result.result).toEqual(['你好，世界。']);
+        expect(progress).toEqual(['你好，', '你好，世界。']);
+        expect(JSON.parse(requests[0].body)).toMatchObject({ stream: true, stream_options: { include_usage: true } });
+    });
+
+    test('looks words up as dictionary entries', async () => {
+        setServices([{ ...service, wordMode: true }]);
+
+        const requests = mockServer([getRoute({ body: dictionary })]);
+
+        const result = await translate({ ...params, text: 'run' }, 'openai-1');
+
+        expect(JSON.parse(requests[0].body).response_format).toMatchObject({ type: 'json_schema' });
+        expect(result).toMatchObject({ result: ['跑'], phonetic: '/rʌn/', dict: ['v.: 跑, 运行', 'n.: 跑步'], example: ['I run every morning.'], related: ['runner', 'running'] });
+    });
+
+    test('looks words up without "response_format" when the server rejects it', async () => {
+        setServices([{ ...service, wordMode: true }]);
+
+        const requests = mockServer([getRoute(({ body }) => (JSON.parse(body).response_format ? { status: 400, body: responseFormatError } : { body: dictionary }))]);
+
+        const result = await translate({ ...params, text: 'run' }, 'openai-1');
+
+        expect(requests).toHaveLength(2);
+        expect(JSON.parse(requests[1].body).response_format).toBeUndefined();
+        expect(result).toMatchObject({ result: ['跑'], dict: ['v.: 跑, 运行', 'n.: 跑步'] });
+    });
+
+    test('maps failures to error codes', async () => {
+        mockServer([getRoute({ status: 401, body: error })]);
+        await expect(translate(params, 'openai-1')).rejects.toMatchObject({ code: `[Error Code] invalid_api_key [Message] ${error.error.message}` });
+
+        mockServer([getRoute({ body: { choices: [] } })]);
+        await expect(translate(params, 'openai-1')).rejects.toMatchObject({ code: RESULT_ERROR });
+
+        mockServer([getRoute({ headers: { 'Content-Type': 'text/event-stream' }, chunks: ['data: [DONE]\n\n'] })]);
+        await expect(translate(params, 'openai-1', { onProgress: () => {} })).rejects.toMatchObject({ code: RESULT_ERROR });
+
+        await expect(translate(params, 'openai-2')).rejects.toMatchObject({ code: 'Error: Service value not found.' });
+
+        setServices([{ ...service, keyId: undefined }]);
+        await expect(translate(params, 'openai-1')).rejects.toMatchObject({ code: 'Error: Key is required.' });
+    });
+});
\ No newline at end of file
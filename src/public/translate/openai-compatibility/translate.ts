@@ -1,13 +1,16 @@
-import { langCodeI18n } from '../../../constants/langCode';
-import { defaultChatGPTValue } from '../../../constants/thirdPartyServiceValues';
+import { defaultChatGPTValue, localServiceTypes, serviceDefaultValueMap } from '../../../constants/thirdPartyServiceValues';
 import { TranslateResult } from '../../../types';
 import { getMessage } from '../../i18n';
+import { buildPromptMessages } from '../prompt-template';
+import { dictionaryPrompt, dictionaryResponseFormat, isDictionaryText, parseDictionaryResult } from './dictionary';
 import scOptions from '../../sc-options';
-import { RESULT_ERROR } from '../error-codes';
-import { TranslateParams } from '../translate-types';
-import { determineFromAndTo, fetchTPS, getError } from '../utils';
+import { getSecret } from '../../credential-vault';
+import { getLLMUsage, recordLLMUsage } from '../../llm-usage';
+import { KEY_REQUIRED, RESULT_ERROR, SERVICE_NOT_FOUND } from '../error-codes';
+import { TranslateExtraParams, TranslateParams } from '../translate-types';
+import { determineFromAndTo, fetchTPSStream, getError, readEventStream } from '../utils';
 
-export const translate: (params: TranslateParams, serviceName: string) => Promise<TranslateResult> = async ({ text, from, to, preferredLanguage, secondPreferredLanguage }, serviceName) => {
+export const translate: (params: TranslateParams, serviceName: string, extra?: TranslateExtraParams) => Promise<TranslateResult> = async ({ text, from, to, preferredLanguage, secondPreferredLanguage, context }, serviceName, extra) => {
     const { from: nextFrom, to: nextTo } = await determineFromAndTo({ text, from, to, preferredLanguage, secondPreferredLanguage });
     from = nextFrom;
     to = nextTo;
@@ -15,29 +18,101 @@ export const translate: (params: TranslateParams, serviceName: string) => Promis
     if (!to) { throw getError('Error: Target language is required.'); }
 
     const { enabledThirdPartyServices: services } = await scOptions.get(['enabledThirdPartyServices']);
-    const currentService = services.find(service => service.name === serviceName);
+    const currentService = services.find(service => service.source === serviceName);
 
-    if (!currentService) { throw getError('Error: Service value not found.'); }
+    if (!currentService) { throw getError(SERVICE_NOT_FOUND); }
 
-    const serviceValue = { ...defaultChatGPTValue, ...currentService };
+    const serviceValue = { ...defaultChatGPTValue, ...serviceDefaultValueMap.get(currentService.type), ...currentService };
 
-    if (!serviceValue.key) { throw getError('Error: Key is required.'); }
+    const local = localServiceTypes.includes(serviceValue.type);
+
+    const key = serviceValue.keyId ? await getSecret(serviceValue.keyId) : '';
+
+    if (!key && !local) { throw getError(KEY_REQUIRED); }
 
     const url = serviceValue.url;
-    const prompt = (serviceValue.prompt || getMessage('commonPrompt')).replace('{target}', langCodeI18n['zh-CN'][to]).replace('{text}', text);
 
-    const fetchJSON = { model: serviceValue.model, messages: [{ role: 'user', content: prompt  }] };
+    // Dictionary entries come as a whole JSON object, there is nothing worth showing while streaming.
+    const wordMode = !!serviceValue.wordMode && isDictionaryText(text);
+    const showProgress = !!extra?.onProgress && !wordMode;
+    // Local models may take longer than the connection timeout to answer, only a stream responds at once.
+    const stream = showProgress || local;
+
+    const messages = buildPromptMessages({
+        template: wordMode ? dictionaryPrompt : serviceValue.prompt || getMessage('commonPrompt'),
+        text,
+        from,
+        to,
+        promptLanguage: serviceValue.promptLanguage,
+        context,
+        glossary: extra?.glossary
+    });
 
-    const res = await fetchTPS(url, {
+    const fetchJSON = {
+        model: serviceValue.model || undefined,
+        messages,
+        stream,
+        // Without it a stream reports no usage, the tokens would have to be estimated.
+        stream_options: stream ? { include_usage: true } : undefined,
+        temperature: serviceValue.temperature
+    };
+
+    const fetchCompletion = (responseFormat?: typeof dictionaryResponseFormat) => fetchTPSStream(url, {
         method: 'POST',
         headers: {
             'Content-Type': 'application/json',
-            'Authorization': `Bearer ${serviceValue.key}`,
+            ...(key ? { 'Authorization': `Bearer ${key}` } : {})
         },
-        body: JSON.stringify(fetchJSON)
-    });
+        body: JSON.stringify({ ...fetchJSON, response_format: responseFormat })
+    }, extra?.signal);
+
+    let res = await fetchCompletion(wordMode ? dictionaryResponseFormat : undefined);
+
+    // Servers without structured output reject "response_format", the prompt asks for the same JSON anyway.
+    wordMode && res.status === 400 && (res = await fetchCompletion());
+
+    const prompt = messages.map(message => message.content).join('\n');
 
     try {
+        let translation = '';
+
+        if (res.ok && res.headers.get('Content-Type')?.includes('text/event-stream')) {
+            let usage: unknown;
+
+            await readEventStream(res, ({ data }) => {
+                if (data === '[DONE]') { return; }
+
+                const chunk = JSON.parse(data);
+
+                // The usage comes with the last chunk, whose "choices" is empty.
+                chunk.usage && (usage = chunk.usage);
+
+                const delta = chunk.choices?.[0]?.delta?.content;
+
+                if (typeof delta !== 'string' || !delta) { return; }
+
+                translation += delta;
+
+                showProgress && extra?.onProgress?.({ text, from: '', to, result: translation.split('\n') });
+            });
+
+            recordLLMUsage(serviceValue, getLLMUsage(usage, prompt, translation));
+
+            // A stream without any delta is no translation, it must not be shown or cached as one.
+            if (!translation) { throw getError(RESULT_ERROR); }
+
+            if (wordMode) {
+                return parseDictionaryResult(translation, { text, from, to });
+            }
+
+            return {
+                text,
+                from: '',
+                to,
+                result: translation.split('\n')
+            };
+        }
+
         const result = await res.json();
 
         if (!res.ok) {
@@ -45,7 +120,13 @@ export const translate: (params: TranslateParams, serviceName: string) => Promis
             throw getError(`[Error Code] ${error.code} [Message] ${error.message}`);
         }
 
-        const translation: string = result.choices[0].message.content;
+        translation = result.choices[0].message.content;
+
+        recordLLMUsage(serviceValue, getLLMUsage(result.usage, prompt, translation));
+
+        if (wordMode) {
+            return parseDictionaryResult(translation, { text, from, to });
+        }
 
         return {
             text,
@@ -0,0 +1,116 @@
+import { langCodeI18n, LANG_EN } from '../../constants/langCode';
+import { GlossaryEntry, getGlossaryPrompt } from '../glossary';
+import { TranslateContext } from './translate-types';
+
+export type PromptMessage = {
+    role: 'system' | 'user';
+    content: string;
+};
+
+type PromptVariables = {
+    text: string;
+    source: string;
+    target: string;
+    pageTitle: string;
+    host: string;
+    paragraph: string;
+    glossary: string;
+    word: boolean;
+    sentence: boolean;
+};
+
+export const promptVariableNames: (keyof PromptVariables)[] = ['text', 'source', 'target', 'pageTitle', 'host', 'paragraph', 'glossary', 'word', 'sentence'];
+
+// Languages the names of "{source}" and "{target}" can be written in.
+export const promptLanguages = [LANG_EN, 'ja', 'zh-CN'];
+
+// A single word-like segment, which is looked up rather than translated as a sentence.
+export const isWordText = (text: string) => {
+    const trimmedText = text.trim();
+
+    if (!trimmedText || /\s/.test(trimmedText)) { return false; }
+
+    const segments = [...new Intl.Segmenter(undefined, { granularity: 'word' }).segment(trimmedText)];
+
+    return segments.filter(segment => segment.isWordLike).length === 1;
+};
+
+const getLanguageName = (code: string, promptLanguage: string) => {
+    return code ? (langCodeI18n[promptLanguage] ?? langCodeI18n[LANG_EN])[code] ?? code : '';
+};
+
+// "{#name}...{/name}" is kept when the variable is not empty, "{^name}...{/name}" when it is, blocks can be nested.
+const renderBlocks = (template: string, variables: PromptVariables) => {
+    const blockRegExp = /\{([#^])(\w+)\}([\s\S]*?)\{\/\2\}/g;
+
+    let rendered = template;
+
+    for (let i = 0; i < 10 && blockRegExp.test(rendered); i++) {
+        rendered = rendered.replace(blockRegExp, (match, type: string, name: string, content: string) => {
+            if (!(name in variables)) { return match; }
+
+            return !!variables[name as keyof PromptVariables] === (type === '#') ? content : '';
+        });
+    }
+
+    return rendered;
+};
+
+// Values are substituted in a single pass, so braces in the text or the page title are never read as variables.
+const renderVariables = (template: string, variables: PromptVariables) => {
+    return template.replace(/\{(\w+)\}/g, (match, name: string) => {
+        const value = variables[name as keyof PromptVariables];
+
+        return typeof value === 'string' ? value : match;
+    });
+};
+
+type BuildPromptMessagesParams = {
+    template: string;
+    text: string;
+    from: string;
+    to: string;
+    promptLanguage?: string;
+    context?: TranslateContext;
+    glossary?: GlossaryEntry[];
+};
+
+// Lines of "[system]" and "[user]" split the template into messages, a template without them is a single user message.
+export const buildPromptMessages = ({ template, text, from, to, promptLanguage = LANG_EN, context, glossary = [] }: BuildPromptMessagesParams): PromptMessage[] => {
+    const word = isWordText(text);
+
+    const variables: PromptVariables = {
+        text,
+        source: getLanguageName(from, promptLanguage),
+        target: getLanguageName(to, promptLanguage),
+        pageTitle: context?.pageTitle ?? '',
+        host: context?.host ?? '',
+        paragraph: context?.paragraph ?? '',
+        glossary: getGlossaryPrompt(glossary),
+        word,
+        sentence: !word
+    };
+
+    const [head, ...parts] = renderBlocks(template, variables).split(/^[ \t]*\[(system|user)\][ \t]*$/m);
+
+    const messages: PromptMessage[] = [];
+
+    head.trim() && messages.push({ role: 'user', content: renderVariables(head.trim(), variables) });
+
+    for (let i = 0; i < parts.length; i += 2) {
+        const content = parts[i + 1].trim();
+
+        content && messages.push({ role: parts[i] as PromptMessage['role'], content: renderVariables(content, variables) });
+    }
+
+    if (!messages.some(message => message.role === 'user')) {
+        messages.push({ role: 'user', content: text });
+    }
+
+    // Templates that do not place the glossary themselves still get it.
+    if (variables.glossary && !template.includes('{glossary}')) {
+        messages.unshift({ role: 'system', content: variables.glossary });
+    }
+
+    return messages;
+};
\ No newline at end of file
@@ -1,3 +1,13 @@
+import { TranslateResult } from '../../types';
+import type { GlossaryEntry } from '../glossary';
+
+// Where the text was selected, LLM services put it into their prompts.
+export type TranslateContext = {
+    pageTitle: string;
+    host: string;
+    paragraph: string;
+};
+
 export type TranslateParams = {
     text: string;
     from: string;
@@ -5,6 +15,7 @@ export type TranslateParams = {
     preferredLanguage: string;
     secondPreferredLanguage: string;
     com?: boolean;
+    context?: TranslateContext;
 };
 
 export type AudioParams = {
@@ -16,4 +27,12 @@ export type AudioParams = {
 export type DetectParams = {
     text: string;
     com?: boolean;
-};
\ No newline at end of file
+};
+
+export type TranslateExtraParams = {
+    signal?: AbortSignal;
+    // Receive the partial result while the translation is still streaming.
+    onProgress?: (partialResult: TranslateResult) => void;
+    // Injected into the prompt of LLM services, other services get the terms protected in "request.ts".
+    glossary?: GlossaryEntry[];
+};
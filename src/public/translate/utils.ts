@@ -1,5 +1,6 @@
 import { getMessage } from '../i18n';
-import { CONNECTION_TIMED_OUT, BAD_REQUEST } from './error-codes';
+import { CREDENTIALS_LOCKED, LLM_BUDGET_EXCEEDED, SOURCE_ERROR } from '../../constants/errorCodes';
+import { CONNECTION_TIMED_OUT, BAD_REQUEST, LANGUAGE_NOT_SOPPORTED, NO_RESULT, SERVICE_NOT_FOUND, KEY_REQUIRED, AUTH_TOKEN_REQUIRED } from './error-codes';
 import { TranslateParams } from './translate-types';
 
 export const getQueryString = (params: { [key: string]: string | number | (string | number)[]; }) => {
@@ -36,6 +37,18 @@ export const getError = (code: string): Error & { code: string } => {
     return { ...error, code };
 };
 
+// A spent LLM budget or a source that is not set up, the source itself is fine but can not be asked.
+// Other sources are asked instead without the source being counted as failing.
+export const isLocalError = (code: string) => {
+    return [LLM_BUDGET_EXCEEDED, SOURCE_ERROR, SERVICE_NOT_FOUND, KEY_REQUIRED, AUTH_TOKEN_REQUIRED].includes(code);
+};
+
+// Errors of the service itself, other sources may still be able to answer.
+// A locked credential vault is not, the user is asked to unlock it instead.
+export const isRetryableError = (code: string) => {
+    return code !== LANGUAGE_NOT_SOPPORTED && code !== NO_RESULT && code !== CREDENTIALS_LOCKED && code !== 'ABORTED' && !code.startsWith('AbortError') && !isLocalError(code);
+};
+
 export const fetchData = async (url: string, init?: RequestInit) => {
     const res = await fetch(url, { signal: AbortSignal.timeout(8000), ...init }).catch((err) => {
         if (err.name === 'TimeoutError') {
@@ -50,8 +63,8 @@ export const fetchData = async (url: string, init?: RequestInit) => {
     return res;
 };
 
-export const fetchTPS = async (url: string, init?: RequestInit) => {
-    const res = await fetch(url, { signal: AbortSignal.timeout(8000), ...init }).catch((err) => {
+export const fetchTPS = async (url: string, init?: RequestInit, timeout = 8000) => {
+    const res = await fetch(url, { signal: AbortSignal.timeout(timeout), ...init }).catch((err) => {
         if (err.name === 'TimeoutError') {
             throw getError(`${getMessage('errorCode_' + CONNECTION_TIMED_OUT)}(${new URL(url).host})`);
         }
@@ -62,35 +75,116 @@ export const fetchTPS = async (url: string, init?: RequestInit) => {
     return res;
 };
 
-export const fetchStream = async (url: string, init?: RequestInit) => {
-    const res = await fetchData(url, init);
+export const fetchTPSStream = async (url: string, init: RequestInit, signal?: AbortSignal) => {
+    const controller = new AbortController();
 
-    const reader = res.body?.getReader();
+    // Only the connection is limited to 8s, the stream itself might take much longer.
+    const timeout = setTimeout(() => controller.abort(new DOMException('', 'TimeoutError')), 8000);
 
-    if (!reader) { throw getError('ERROR: NOT_STREAM'); }
+    signal?.addEventListener('abort', () => controller.abort(signal.reason));
+
+    const res = await fetch(url, { ...init, signal: controller.signal }).catch((err) => {
+        if (err.name === 'TimeoutError') {
+            throw getError(`${getMessage('errorCode_' + CONNECTION_TIMED_OUT)}(${new URL(url).host})`);
+        }
+
+        throw getError(`${err.name}: ${err.message}`);
+    }).finally(() => clearTimeout(timeout));
 
-    const rs =  new ReadableStream({
-        start: (controller) => {
-            const push = async () => {
-                const { done, value } = await reader.read();
+    return res;
+};
 
-                if (done) {
-                    controller.close();
-                    return;
-                }
+export type EventStreamEvent = {
+    event: string;
+    data: string;
+};
+
+export const readEventStream = async (res: Response, onEvent: (event: EventStreamEvent) => void) => {
+    const reader = res.body?.pipeThrough(new TextDecoderStream()).getReader();
+
+    if (!reader) { throw getError('ERROR: NOT_STREAM'); }
 
-                controller.enqueue(value);
+    let buffer = '';
 
-                push();
+    const dispatchEvent = (block: string) => {
+        let event = 'message';
+        const data: string[] = [];
+
+        block.split('\n').forEach((line) => {
+            if (line.startsWith('event:')) {
+                event = line.substring(6).trim();
+            }
+            else if (line.startsWith('data:')) {
+                data.push(line.substring(5).replace(/^ /, ''));
             }
+        });
+
+        data.length > 0 && onEvent({ event, data: data.join('\n') });
+    };
+
+    while (true) {
+        const { done, value } = await reader.read().catch((err) => {
+            throw getError(`${err.name}: ${err.message}`);
+        });
+
+        if (done) { break; }
+
+        buffer += value.replace(/\r\n?/g, '\n');
 
-            push();
+        let index = buffer.indexOf('\n\n');
+
+        while (index !== -1) {
+            dispatchEvent(buffer.substring(0, index));
+
+            buffer = buffer.substring(index + 2);
+            index = buffer.indexOf('\n\n');
         }
-    });
+    }
+
+    buffer.trim() && dispatchEvent(buffer);
+};
+
+// Ollama streams one JSON object a line instead of server-sent events.
+export const readJSONLines = async (res: Response, onLine: (data: any) => void) => {
+    const reader = res.body?.pipeThrough(new TextDecoderStream()).getReader();
+
+    if (!reader) { throw getError('ERROR: NOT_STREAM'); }
+
+    let buffer = '';
+
+    while (true) {
+        const { done, value } = await reader.read().catch((err) => {
+            throw getError(`${err.name}: ${err.message}`);
+        });
+
+        if (done) { break; }
+
+        buffer += value;
 
-    const result = await new Response(rs, { headers: { 'Content-Type': 'text/html' } }).text();
+        let index = buffer.indexOf('\n');
 
-    const re = result.split('\n\n').filter(v => v.indexOf('event: message\ndata: ') === 0).map(v => JSON.parse(v.replace('event: message\ndata: ', '')));
+        while (index !== -1) {
+            const line = buffer.substring(0, index).trim();
+
+            line && onLine(JSON.parse(line));
+
+            buffer = buffer.substring(index + 1);
+            index = buffer.indexOf('\n');
+        }
+    }
+
+    buffer.trim() && onLine(JSON.parse(buffer));
+};
+
+export const fetchStream = async (url: string, init?: RequestInit) => {
+    const res = await fetchData(url, init);
+
+    // Each service has its own chunk shape, the caller narrows them.
+    const re: unknown[] = [];
+
+    await readEventStream(res, ({ event, data }) => {
+        event === 'message' && re.push(JSON.parse(data));
+    });
 
     return re;
 };
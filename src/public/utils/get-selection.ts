@@ -1,7 +1,40 @@
+import type { TranslateContext } from '../translate/translate-types';
+
 export const getSelectedText = () => {
     let text = window.getSelection()?.toString() ?? '';
 
     text = text.trimStart().trimEnd();
 
     return text;
+};
+
+const paragraphSelector = 'p, li, dd, dt, td, th, blockquote, pre, h1, h2, h3, h4, h5, h6, figcaption, div';
+
+let lastSelection = { text: '', paragraph: '' };
+
+// Keep the block around the selection, it tells LLM services what an ambiguous word means there.
+export const recordSelectionParagraph = (text: string) => {
+    const selection = window.getSelection();
+
+    let paragraph = '';
+
+    if (selection && selection.rangeCount > 0) {
+        const node = selection.getRangeAt(0).commonAncestorContainer;
+        const element = node.nodeType === Node.ELEMENT_NODE ? node as Element : node.parentElement;
+
+        paragraph = (element?.closest(paragraphSelector) ?? element)?.textContent?.replace(/\s+/g, ' ').trim().substring(0, 1000) ?? '';
+    }
+
+    lastSelection = { text, paragraph: paragraph === text ? '' : paragraph };
+};
+
+export const getTranslateContext = (text: string): TranslateContext | undefined => {
+    // Popup and separate window have no page to tell about.
+    if (chrome.runtime.getURL('') === `${window.origin}/`) { return; }
+
+    return {
+        pageTitle: document.title,
+        host: window.location.host,
+        paragraph: lastSelection.text === text ? lastSelection.paragraph : ''
+    };
 };
\ No newline at end of file
@@ -89,7 +89,7 @@ export const calculatePosition = (element: HTMLElement, { x, y }: Position, marg
 };
 
 export const debounce = (cb: () => void, time: number) => {
-    let timeout: number | undefined;
+    let timeout: ReturnType<typeof setTimeout> | undefined;
     return () => {
         timeout && clearTimeout(timeout);
         timeout = setTimeout(cb, time);
@@ -1,11 +1,24 @@
 import { isAllStringInArray } from '../../translate/custom/check-result';
 
-/**
- * 【已失效】 checkResultFromCustomWebpageTranslatSource
- * * 注意：该函数已被修改为不执行任何校验，以绕过错误。
- * 建议在调试完成后，恢复或修复原始校验逻辑。
- */
 export const checkResultFromCustomWebpageTranslatSource = (result: any) => {
-    // 校验逻辑已被移除，该函数现在是空操作（No-op）
-    return;
-};
+    // required key "result"
+    if (!('result' in result)) {
+        throw new Error('Error: "result" is required in response data.');
+    }
+
+    if (!Array.isArray(result.result)) {
+        throw new Error('Error: the type of "result" must be "Array".');
+    }
+
+    result.result.forEach((item: any) => {
+        // required key "translations"
+        if (!item || !Array.isArray(item.translations) || !isAllStringInArray(item.translations)) {
+            throw new Error('Error: the type of "translations" must be "string[]".');
+        }
+
+        // check optional "comparisons"
+        if ('comparisons' in item && (!Array.isArray(item.comparisons) || !isAllStringInArray(item.comparisons))) {
+            throw new Error('Error: the type of "comparisons" must be "string[]".');
+        }
+    });
+};
\ No newline at end of file
@@ -0,0 +1,134 @@
+import scFile from '../sc-file';
+import { createZip } from '../zip';
+import { getTranslatedParagraphs, getTranslatingLanguage, getWayOfFontsDisplaying, translateAllParagraphs, TranslatedParagraph } from '.';
+
+export type ExportFormat = 'html' | 'epub';
+
+// Escaped for XML, so the same markup works in HTML and in EPUB's XHTML.
+const escapeXML = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const style = `body { max-width: 800px; margin: 0 auto; padding: 16px; font-family: sans-serif; line-height: 1.6; }
+header { border-bottom: 1px solid #ddd; margin-bottom: 16px; }
+.sc-source { font-size: 14px; word-break: break-all; }
+.sc-paragraph { margin: 1em 0; }
+.sc-paragraph > * { margin: 0; }
+.sc-translation { color: #555; }
+pre { white-space: pre-wrap; }`;
+
+// 0: original text only, 1: original text and translation, 2: translation only
+const getBodyContent = (paragraphs: TranslatedParagraph[], displayMode: number, language: string) => {
+    return paragraphs.map(({ tagName, original, translation }) => {
+        const originalElement = `<${tagName}>${escapeXML(original)}</${tagName}>`;
+        const translationElement = translation ? `<${tagName} class="sc-translation" lang="${escapeXML(language)}">${escapeXML(translation)}</${tagName}>` : '';
+
+        if (displayMode === 0 || !translationElement) {
+            return originalElement;
+        }
+        else if (displayMode === 2) {
+            return translationElement;
+        }
+        else {
+            return `<div class="sc-paragraph">${originalElement}${translationElement}</div>`;
+        }
+    }).join('\n');
+};
+
+const getDocument = (title: string, url: string, body: string, xhtml: boolean) => {
+    return `${xhtml ? '<?xml version="1.0" encoding="utf-8"?>\n' : ''}<!DOCTYPE html>
+<html${xhtml ? ' xmlns="http://www.w3.org/1999/xhtml"' : ''}>
+<head>
+<meta charset="utf-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1" />
+<title>${escapeXML(title)}</title>
+<style>${style}</style>
+</head>
+<body>
+<header>
+<h1>${escapeXML(title)}</h1>
+<p class="sc-source"><a href="${escapeXML(url)}">${escapeXML(url)}</a></p>
+</header>
+<main>
+${body}
+</main>
+</body>
+</html>`;
+};
+
+const getEPUBEntries = (title: string, url: string, body: string, language: string) => {
+    const modified = new Date().toISOString().replace(/\.\d+Z$/, 'Z');
+
+    return [{
+        // Must be the first entry and stored without compression.
+        name: 'mimetype',
+        content: 'application/epub+zip'
+    }, {
+        name: 'META-INF/container.xml',
+        content: `<?xml version="1.0" encoding="utf-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+<rootfiles>
+<rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml" />
+</rootfiles>
+</container>`
+    }, {
+        name: 'OEBPS/content.opf',
+        content: `<?xml version="1.0" encoding="utf-8"?>
+<package version="3.0" unique-identifier="uid" xmlns="http://www.idpf.org/2007/opf">
+<metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+<dc:identifier id="uid">urn:uuid:${crypto.randomUUID()}</dc:identifier>
+<dc:title>${escapeXML(title)}</dc:title>
+<dc:language>${escapeXML(language || 'en')}</dc:language>
+<dc:source>${escapeXML(url)}</dc:source>
+<meta property="dcterms:modified">${modified}</meta>
+</metadata>
+<manifest>
+<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav" />
+<item id="content" href="content.xhtml" media-type="application/xhtml+xml" />
+</manifest>
+<spine>
+<itemref idref="content" />
+</spine>
+</package>`
+    }, {
+        name: 'OEBPS/nav.xhtml',
+        content: `<?xml version="1.0" encoding="utf-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops">
+<head>
+<title>${escapeXML(title)}</title>
+</head>
+<body>
+<nav epub:type="toc">
+<ol>
+<li><a href="content.xhtml">${escapeXML(title)}</a></li>
+</ol>
+</nav>
+</body>
+</html>`
+    }, {
+        name: 'OEBPS/content.xhtml',
+        content: getDocument(title, url, body, true)
+    }];
+};
+
+// Nothing is exported if page translation has been closed before all paragraphs are translated,
+// or if some of them failed, "errorCount" tells how many to retry.
+export const exportTranslatedPage = async (format: ExportFormat) => {
+    const { completed, errorCount } = await translateAllParagraphs();
+
+    if (!completed || errorCount > 0) { return { exported: false, errorCount }; }
+
+    const title = document.title.trim() || location.host;
+    const url = location.href;
+    const language = getTranslatingLanguage();
+    const body = getBodyContent(getTranslatedParagraphs(), getWayOfFontsDisplaying(), language);
+    const fileName = title.replace(/[\\/:*?"<>|\s]+/g, '_').substring(0, 80);
+
+    if (format === 'epub') {
+        scFile.saveFile(createZip(getEPUBEntries(title, url, body, language), 'application/epub+zip'), fileName, 'epub');
+    }
+    else {
+        scFile.saveText(getDocument(title, url, body, false), fileName, 'html', 'text/html');
+    }
+
+    return { exported: true, errorCount: 0 };
+};
\ No newline at end of file
@@ -0,0 +1,84 @@
+import { SCTS_FRAME_COMMAND, SCTS_FRAME_WEBPAGE_TRANSLATE, SCTS_GET_FRAME_TRANSLATION_STATE } from '../../constants/chromeSendMessageTypes';
+import { ChromeTabsMessage, GetFrameTranslationStateResponse, sendGetFrameTranslationState, WebpageTranslateResponse } from '../send';
+import {
+    closeWebPageTranslating,
+    errorRetry,
+    FrameCommand,
+    FrameTranslationState,
+    getFrameTranslationState,
+    startWebPageTranslating,
+    switchWayOfFontsDisplaying,
+    translateFrameParagraphs
+} from '.';
+import { switchSubtitleDisplayMode } from './subtitles';
+
+const isTopFrame = window.top === window;
+
+// "frameElement" is null in frames of another origin than their parent, frames of the same origin are walked by their parent.
+const isTranslatedFrame = !isTopFrame && window.frameElement === null;
+
+const startInFrame = ({ wayOfFontsDisplaying, subtitleDisplayMode, ...state }: FrameTranslationState) => {
+    if (!document.body) { return; }
+
+    closeWebPageTranslating();
+
+    startWebPageTranslating({
+        element: document.body,
+        ...state,
+        translateIframeContent: true,
+        specifySelectors: { includeSelectors: '', excludeSelectors: '' },
+        inChildFrame: true
+    });
+
+    switchWayOfFontsDisplaying(wayOfFontsDisplaying);
+    switchSubtitleDisplayMode(subtitleDisplayMode);
+};
+
+const onFrameCommand = (command: FrameCommand) => {
+    switch (command.action) {
+        case 'start':
+            startInFrame(command.state);
+            break;
+        case 'switch':
+            switchWayOfFontsDisplaying(command.wayOfFontsDisplaying);
+            switchSubtitleDisplayMode(command.subtitleDisplayMode);
+            break;
+        case 'retry':
+            errorRetry();
+            break;
+        case 'close':
+            closeWebPageTranslating();
+            break;
+        default: break;
+    }
+};
+
+type FrameSendResponse = (response: WebpageTranslateResponse | GetFrameTranslationStateResponse) => void;
+
+// The top frame answers the requests of child frames, child frames follow the commands of the top frame.
+export const initFrameTranslating = () => {
+    if (!isTopFrame && !isTranslatedFrame) { return; }
+
+    chrome.runtime.onMessage.addListener((message: ChromeTabsMessage | string | null | undefined, sender, sendResponse: FrameSendResponse) => {
+        if (!message || typeof message !== 'object') { return; }
+
+        if (isTopFrame && message.type === SCTS_FRAME_WEBPAGE_TRANSLATE) {
+            const { inViewPort, ...params } = message.payload;
+
+            translateFrameParagraphs(params, inViewPort)
+                .then(results => sendResponse({ results }))
+                .catch(reason => sendResponse({ code: reason.code ?? reason.message ?? 'Error: Unknown Error.' }));
+
+            return true;
+        }
+        else if (isTopFrame && message.type === SCTS_GET_FRAME_TRANSLATION_STATE) {
+            sendResponse(getFrameTranslationState());
+        }
+        else if (isTranslatedFrame && message.type === SCTS_FRAME_COMMAND) {
+            onFrameCommand(message.payload);
+        }
+    });
+
+    // Frames loaded after the top frame has started.
+    isTranslatedFrame && sendGetFrameTranslationState().then(state => state && !('code' in state) && startInFrame(state));
+};
\ No newline at end of file
@@ -0,0 +1,36 @@
+/**
+ * @jest-environment ./src/test/jsdom-environment.js
+ */
+import { describe, expect, test } from '@jest/globals';
+import { translate } from './translate';
+import { mockServer, Route } from '../../../test/mock-server';
+import { BAD_REQUEST, RESULT_ERROR } from '../../translate/error-codes';
+import translateHtml from '../../../test/fixtures/webpage-google/translate-html.json';
+
+const getRoute = (reply: Route['reply']): Route => ({ method: 'POST', url: 'https://translate-pa.googleapis.com/v1/translateHtml', reply });
+
+const keys = ['Hello, world.', '<a i=0>Hello, </a><a i=1>big</a><a i=2> world</a>.', 'Fish &amp; chips'];
+const params = { keys, paragraphs: [['Hello, world.'], ['Hello, ', 'big', ' world.'], ['Fish & chips']], targetLanguage: 'zh-CN' };
+
+describe('google web page translate', () => {
+    test('splits the translations by the anchors of the segments', async () => {
+        const requests = mockServer([getRoute({ body: translateHtml })]);
+
+        const result = await translate(params, 'google.com');
+
+        expect(JSON.parse(requests[0].body)).toEqual([[keys, 'auto', 'zh-CN'], 'te_lib']);
+        expect(result).toEqual([
+            { detectedLanguage: undefined, translations: ['你好，世界。'], comparisons: ['你好，世界。'] },
+            { detectedLanguage: undefined, translations: ['你好，', '大', '世界。'], comparisons: ['你好，', '大', '世界。'] },
+            { detectedLanguage: undefined, translations: ['鱼 & 薯条'], comparisons: ['鱼 & 薯条'] }
+        ]);
+    });
+
+    test('maps failures to error codes', async () => {
+        mockServer([getRoute({ status: 403, body: '' })]);
+        await expect(translate(params, 'google.com')).rejects.toMatchObject({ code: `${BAD_REQUEST} (http 403)` });
+
+        mockServer([getRoute({ body: [{ error: 'Invalid request' }] })]);
+        await expect(translate(params, 'google.com')).rejects.toMatchObject({ code: RESULT_ERROR });
+    });
+});
\ No newline at end of file
@@ -0,0 +1,105 @@
+/**
+ * @jest-environment ./src/test/jsdom-environment.js
+ */
+import { afterEach, describe, expect, test } from '@jest/globals';
+import { closeWebPageTranslating, getTranslatedParagraphs, startWebPageTranslating, translateAllParagraphs, WebpageTranslateParams } from '.';
+import { translate as customWebTranslate } from './custom/translate';
+import { defaultCustomWebpageSourceDefinition } from '../translate/custom/definition';
+import * as types from '../../constants/chromeSendMessageTypes';
+import { mockServer } from '../../test/mock-server';
+import { resetStorage, setMessageHandler } from '../../test/setup';
+import paragraphs from '../../test/fixtures/custom-webpage/paragraphs.json';
+
+const SOURCE_URL = 'https://translate.example.com/api/page';
+
+const html = '<p>Hello, <b>big</b> world.</p><p>This is plain text.</p>';
+
+// jsdom has no default style sheet, paragraphs are told apart by "display".
+const style = '<style>b { display: inline; }</style>';
+
+// Custom sources are requested by the background, which is what the handler stands in for.
+// Every test has a source of its own, translations are cached per source for as long as the module lives.
+const setUpCustomSource = (source: string) => {
+    resetStorage({ customWebpageTranslateSourceList: [{ name: 'Example', url: SOURCE_URL, source, definition: defaultCustomWebpageSourceDefinition }] });
+
+    const sentParams: WebpageTranslateParams[] = [];
+
+    setMessageHandler(async ({ type, payload }) => {
+        switch (type) {
+            case types.SCTS_WEBPAGE_TRANSLATE: {
+                const { source, ...params } = payload;
+
+                sentParams.push(params);
+
+                return await customWebTranslate(params, source).then(results => ({ results }), reason => ({ code: reason.code }));
+            }
+            case types.SCTS_GET_GLOSSARY:
+            case types.SCTS_GET_SOURCE_HEALTH:
+                return [];
+            default:
+                return null;
+        }
+    });
+
+    return sentParams;
+};
+
+const start = (source: string) => startWebPageTranslating({
+    element: document.body,
+    translateSource: source,
+    targetLanguage: 'zh-CN',
+    enhancement: { o_Hovering: false, oAndT_Underline: false, oAndT_NonDiscrete: false, oAndT_paragraphWrap: false, oAndT_hideSameLanguage: false, t_Hovering: false, t_hoveringWithKeyPressing: false },
+    translateDynamicContent: false,
+    translateIframeContent: false,
+    customization: { color: 'currentcolor', underlineColor: 'rgba(144,236,233,1)', underlineStyle: 'solid' },
+    enableCache: false,
+    specifySelectors: { includeSelectors: '', excludeSelectors: '' }
+});
+
+describe('web page translate', () => {
+    afterEach(() => {
+        closeWebPageTranslating();
+    });
+
+    test('sends the text nodes of a paragraph as segments and puts each translation after its own node', async () => {
+        document.head.innerHTML = style;
+        document.body.innerHTML = html;
+
+        const sentParams = setUpCustomSource('custom-page');
+        const requests = mockServer([{ method: 'POST', url: SOURCE_URL, reply: { body: paragraphs } }]);
+
+        start('custom-page');
+
+        expect(await translateAllParagraphs()).toEqual({ completed: true, errorCount: 0 });
+
+        expect(sentParams[0]).toMatchObject({
+            keys: ['Hello, <b />big<b /> world.', 'This is plain text.'],
+            paragraphs: [['Hello, ', 'big', ' world.'], ['This is plain text.']],
+            targetLanguage: 'zh-CN'
+        });
+        expect(JSON.parse(requests[0].body)).toEqual({ paragraphs: sentParams[0].paragraphs, targetLanguage: 'zh-CN' });
+
+        expect(document.querySelector('b')?.lastChild?.textContent).toBe('大');
+        expect(getTranslatedParagraphs()).toEqual([
+            { tagName: 'p', original: 'Hello, big world.', translation: '你好，大世界。' },
+            { tagName: 'p', original: 'This is plain text.', translation: '这是普通文本。' }
+        ]);
+
+        closeWebPageTranslating();
+
+        expect(document.body.innerHTML).toBe(html);
+    });
+
+    test('counts the paragraphs which failed', async () => {
+        document.head.innerHTML = style;
+        document.body.innerHTML = '<p>Hello, <b>big</b> world.</p><p>Another paragraph.</p>';
+
+        setUpCustomSource('custom-page-failing');
+        mockServer([{ method: 'POST', url: SOURCE_URL, reply: { body: { result: [{ translations: ['另一段。'] }] } } }]);
+
+        start('custom-page-failing');
+
+        expect(await translateAllParagraphs()).toEqual({ completed: true, errorCount: 2 });
+        expect(getTranslatedParagraphs().every(({ translation }) => translation === undefined)).toBe(true);
+    });
+});
\ No newline at end of file
@@ -3,22 +3,49 @@ import { ComparisonCustomization, DisplayModeEnhancement } from '../../types';
 import { getMessage } from '../i18n';
 import { translate as googleWebTranslate } from './google/translate';
 import { translate as microsoftWebTranslate } from './microsoft/translate';
-import { translate as customWebTranslate } from './custom/translate';
-import { getError } from '../translate/utils';
-import { sendGetPageTranslationCache, sendSetPageTranslationCache } from '../send';
+import { getError, isLocalError, isRetryableError } from '../translate/utils';
+import { sendFrameCommand, sendFrameWebpageTranslate, sendGetGlossary, sendGetPageTranslationCache, sendGetSourceHealth, sendReportSourceHealth, sendSetPageTranslationCache, sendWebpageTranslate } from '../send';
+import { isWebpageTranslateService } from '../../constants/thirdPartyServiceValues';
+import scOptions from '../sc-options';
+import { GlossaryEntry, protectTerms } from '../glossary';
+import { createRequestScheduler, RequestProgress, SourceRateLimit } from './scheduler';
+import { closeSubtitleTranslating, getSubtitleDisplayMode, retrySubtitles, startSubtitleTranslating, SubtitleTranslateFn, switchSubtitleDisplayMode } from './subtitles';
 
 export type WebpageTranslateResult = {
     translations: string[];
     comparisons?: string[];
     detectedLanguage?: string;
 };
-type WebpageTranslateParams = {
+export type WebpageTranslateParams = {
     paragraphs: string[][];
     keys: string[];
     targetLanguage: string;
+    glossary?: GlossaryEntry[];
 };
 export type WebpageTranslateFn = (params: WebpageTranslateParams, source: string) => Promise<WebpageTranslateResult[]>;
 
+// What child frames take over from the top frame.
+export type FrameTranslationState = {
+    translateSource: string;
+    targetLanguage: string;
+    enhancement: DisplayModeEnhancement;
+    customization: ComparisonCustomization;
+    translateDynamicContent: boolean;
+    enableCache: boolean;
+    wayOfFontsDisplaying: number;
+    subtitleDisplayMode: number;
+};
+export type FrameCommand = {
+    action: 'start';
+    state: FrameTranslationState;
+} | {
+    action: 'switch';
+    wayOfFontsDisplaying: number;
+    subtitleDisplayMode: number;
+} | {
+    action: 'close' | 'retry';
+};
+
 type ScWebpageTranslationElement = HTMLElement & { _ScWebpageTranslationKey?: number; };
 type ItemFonts = [ScWebpageTranslationElement, ScWebpageTranslationElement | null, ScWebpageTranslationElement];
 
@@ -61,14 +88,13 @@ let resultCacheSource = '';
 let startFlag = 0;
 let closeFlag = 1;
 
-let requestingNum = 0;
+let requestScheduler = createRequestScheduler({});
 
 let source = '';
 let language = '';
+let fallbackSourceList: string[] = [];
 
 let errorCallback: ((errorReason: string) => void) | undefined;
-let requestStartCallback: (() => void) | undefined;
-let requestFinishCallback: (() => void) | undefined;
 
 let displayModeEnhancement: DisplayModeEnhancement = {
     o_Hovering: false,
@@ -88,6 +114,8 @@ let comparisonCustomization: ComparisonCustomization = {
 
 let enablePageTranslationCache = false;
 
+let glossaryEntries: Promise<GlossaryEntry[]> = Promise.resolve([]);
+
 let pageTranslateItemMap: { [key: number]: PageTranslateItemEnity; } = {};
 let itemMapIndex = 0;
 
@@ -114,6 +142,9 @@ let translateDynamicContent = false;
 
 let translateIframeContent = false;
 
+// Frames of other origins than their parent are started by the top frame, which sends their requests.
+let isChildFrame = false;
+
 let observeRootSet: Set<HTMLElement> = new Set();
 
 const observer = new MutationObserver((records) => {
@@ -377,6 +408,7 @@ const getAllParagraph = (element: HTMLElement) => {
         codeTexts = [];
     };
 
+    // Frames of other origins are translated by the content script running in them.
     if (element.nodeName === 'IFRAME' && translateIframeContent) {
         try {
             if (new URL((element as HTMLIFrameElement).src).host !== location.host) {
@@ -641,9 +673,11 @@ export const startWebPageTranslating = ({
     customization,
     enableCache,
     specifySelectors,
+    fallbackSources = [],
+    rateLimits = {},
+    inChildFrame = false,
     onError,
-    onRequestStart,
-    onRequestFinish
+    onProgress
 }: {
     element: HTMLElement;
     translateSource: string;
@@ -654,9 +688,11 @@ export const startWebPageTranslating = ({
     customization: ComparisonCustomization;
     enableCache: boolean;
     specifySelectors: { includeSelectors: string; excludeSelectors: string; };
+    fallbackSources?: string[];
+    rateLimits?: { [source: string]: Partial<SourceRateLimit>; };
+    inChildFrame?: boolean;
     onError?: (errorReason: string) => void;
-    onRequestStart?: () => void;
-    onRequestFinish?: () => void;
+    onProgress?: (progress: RequestProgress) => void;
 }) => {
     if (startFlag === closeFlag) { return false; }
 
@@ -676,12 +712,14 @@ export const startWebPageTranslating = ({
 
     translateIframeContent = translateIC;
 
+    isChildFrame = inChildFrame;
+
     errorCallback = onError;
-    requestStartCallback = onRequestStart;
-    requestFinishCallback = onRequestFinish;
+    requestScheduler = createRequestScheduler(rateLimits, onProgress);
 
     source = translateSource;
     language = targetLanguage;
+    fallbackSourceList = fallbackSources.filter(v => v !== translateSource);
     if (language !== resultCacheLanguage || source !== resultCacheSource) {
         cacheMap = new Map();
         resultCacheLanguage = language;
@@ -694,6 +732,8 @@ export const startWebPageTranslating = ({
 
     enablePageTranslationCache = enableCache;
 
+    glossaryEntries = sendGetGlossary('', language).then(response => ('code' in response ? [] : response));
+
     const { includeSelectors, excludeSelectors } = specifySelectors;
     if (includeSelectors) {
         specifyConfig.includeMode = true;
@@ -723,6 +763,11 @@ export const startWebPageTranslating = ({
 
     translateInViewPortParagraphs();
 
+    startSubtitleTranslating({ element, translate: translateSubtitleTexts, customization, enhancement });
+
+    const frameTranslationState = getFrameTranslationState();
+    frameTranslationState && sendToChildFrames({ action: 'start', state: frameTranslationState });
+
     displayModeEnhancement.t_hoveringWithKeyPressing && startCtrlKeyPressingListener();
 
     observeRootSet.forEach(root => root.ownerDocument.defaultView?.addEventListener('scroll', onWindowScroll, true));
@@ -898,6 +943,12 @@ export const closeWebPageTranslating = () => {
 
     ++closeFlag;
 
+    requestScheduler.clear();
+
+    closeSubtitleTranslating();
+
+    sendToChildFrames({ action: 'close' });
+
     updatedList.forEach((item) => {
         item.fontsNodes.forEach(([originalFont, comparisonFont, translationFont]) => {
             originalFont.childNodes.forEach(childNode => originalFont.parentElement?.insertBefore(childNode, originalFont));
@@ -952,26 +1003,30 @@ const delay = (fn: () => void, ms: number) => {
     };
 };
 
+// Elements in iframes are offset by their frame, 500px around the viewport count as in it.
+const isInViewPort = (target: Element | Range, ownerDocument: Document) => {
+    let { top } = target.getBoundingClientRect();
+
+    const frameElement = ownerDocument.defaultView?.frameElement;
+    if (frameElement?.isConnected) {
+        top += frameElement.getBoundingClientRect().top;
+    }
+
+    return top >= -500 && top <= window.innerHeight + 500;
+};
+
+const isItemInViewPort = (item: PageTranslateItemEnity) => (!!item.textNodes[0]?.isConnected && isInViewPort(item.range, item.textNodes[0].ownerDocument));
+
 const translateInViewPortParagraphs = delay(() => {
     const nextTranslateList: PageTranslateItemEnity[] = [];
 
-    const minViewPort = -500;
-    const maxViewPort = window.innerHeight + 500;
-
     waitingList.forEach((item) => {
         if (!item.textNodes[0]?.isConnected) {
             waitingList.delete(item);
             return;
         }
 
-        let { top } = item.range.getBoundingClientRect();
-
-        const frameElement = item.textNodes[0].ownerDocument.defaultView?.frameElement;
-        if (frameElement?.isConnected) {
-            top += frameElement.getBoundingClientRect().top;
-        }
-
-        if (top >= minViewPort && top <= maxViewPort) {
+        if (isItemInViewPort(item)) {
             updatedList.add(item);
             waitingList.delete(item);
             nextTranslateList.push(item);
@@ -988,14 +1043,7 @@ const translateInViewPortParagraphs = delay(() => {
             return;
         }
 
-        let { top } = item.element.getBoundingClientRect();
-
-        const frameElement = item.element.ownerDocument.defaultView?.frameElement;
-        if (frameElement?.isConnected) {
-            top += frameElement.getBoundingClientRect().top;
-        }
-
-        if (top >= minViewPort && top <= maxViewPort) {
+        if (isInViewPort(item.element, item.element.ownerDocument)) {
             attributeUpdatedSet.add(item);
             attributeWaitingSet.delete(item);
             attributeList.push(item);
@@ -1139,11 +1187,11 @@ const microsoftWebTranslateKeyFormat: KeyFormat = (paragraph) => {
     return paragraph.length === 1 ? paragraph[0] : paragraph.reduce((t, v, i) => (`${t}<b${i}>${microsoftEscapeText(v)}</b${i}>`), '');
 };
 const customWebTranslateKeyFormat: KeyFormat = paragraph => paragraph.join('<b />');
-const getKeyFormatFn = () => {
-    if (source === GOOGLE_COM) {
+const getKeyFormatFn = (translateSource = source) => {
+    if (translateSource === GOOGLE_COM) {
         return googleWebTranslateKeyFormat;
     }
-    else if (source === MICROSOFT_COM) {
+    else if (translateSource === MICROSOFT_COM) {
         return microsoftWebTranslateKeyFormat;
     }
     else {
@@ -1151,13 +1199,24 @@ const getKeyFormatFn = () => {
     }
 };
 
+// Smaller batches keep LLMs from dropping or merging paragraphs.
+const getTranslateListOptions = () => {
+    if (isWebpageTranslateService(source, scOptions.getInit().enabledThirdPartyServices)) {
+        return { maxParagraphCount: 20, maxTextLength: 2048 };
+    }
+    else {
+        return { maxParagraphCount: 100, maxTextLength: 2048 };
+    }
+};
+
 const startProcessing = async (nextTranslateList: PageTranslateItemEnity[]) => {
-    const translateList = await getTranslateList(nextTranslateList, getKeyFormatFn());
+    const translateList = await getTranslateList(nextTranslateList, getKeyFormatFn(), getTranslateListOptions());
 
     if (translateList.length === 0) { return; }
 
     translateProcess({
         translateList,
+        isInViewPort: keys => keys.some(key => [...pendingMap.get(key) ?? []].some(isItemInViewPort)),
         beforeTranslate: keys => keys.forEach(key => pendingMap.get(key)?.forEach(item => item.status = 'loading')),
         onSuccess: (keys) => {
             keys.forEach((key) => {
@@ -1171,48 +1230,141 @@ const startProcessing = async (nextTranslateList: PageTranslateItemEnity[]) => {
     });
 };
 
-const translateProcess = ({ translateList, beforeTranslate, onSuccess, onError, onFinally }: {
+// Requests to third-party services are sent from background, which keeps the API key out of the page.
+// LLM services and custom sources are requested by the background.
+const backgroundWebTranslate: WebpageTranslateFn = async (params, source) => {
+    const response = await sendWebpageTranslate(params, source);
+
+    if ('code' in response) { throw getError(response.code); }
+
+    return response.results;
+};
+
+const getWebTranslateFn = (translateSource: string): WebpageTranslateFn => {
+    if (translateSource === GOOGLE_COM) {
+        return googleWebTranslate;
+    }
+    else if (translateSource === MICROSOFT_COM) {
+        return microsoftWebTranslate;
+    }
+    else {
+        return backgroundWebTranslate;
+    }
+};
+
+// LLM services get the glossary in their prompt, terms are protected with placeholders for the others.
+const translateWithGlossary = async (params: WebpageTranslateParams, translateSource: string): Promise<WebpageTranslateResult[]> => {
+    const translate = getWebTranslateFn(translateSource);
+
+    const entries = await glossaryEntries;
+
+    if (entries.length === 0 || isWebpageTranslateService(translateSource, scOptions.getInit().enabledThirdPartyServices)) {
+        return translate(params, translateSource);
+    }
+
+    const protections = params.paragraphs.map(paragraph => protectTerms(paragraph, entries));
+    const paragraphs = protections.map(({ texts }) => texts);
+
+    const result = await translate({ ...params, paragraphs, keys: paragraphs.map(getKeyFormatFn(translateSource)) }, translateSource);
+
+    return result.map((value, index) => {
+        const restore = protections[index]?.restore;
+
+        if (!restore) { return value; }
+
+        return {
+            ...value,
+            translations: value.translations.map(restore),
+            comparisons: value.comparisons?.map(restore)
+        };
+    });
+};
+
+// Sources in the fallback list are tried in order when a source fails with a retryable error, benched ones are skipped.
+const translateWithFallback = async (params: WebpageTranslateParams, isInViewPort: () => boolean) => {
+    let sources = [source];
+
+    if (fallbackSourceList.length > 0) {
+        const response = await sendGetSourceHealth();
+        const benchedSources = new Set('code' in response ? [] : response.filter(v => v.benchedUntil > Date.now()).map(v => v.source));
+        const availableSources = [source, ...fallbackSourceList].filter(v => !benchedSources.has(v));
+
+        sources = availableSources.length > 0 ? availableSources : sources;
+    }
+
+    let firstReason: any;
+
+    for (const translateSource of sources) {
+        try {
+            const keys = translateSource === source ? params.keys : params.paragraphs.map(getKeyFormatFn(translateSource));
+
+            const result = await requestScheduler.schedule(translateSource, () => translateWithGlossary({ ...params, keys }, translateSource), isInViewPort, keys.length);
+
+            sendReportSourceHealth(translateSource, '');
+
+            return { result, translateSource };
+        }
+        catch (reason: any) {
+            const code: string = reason.code ?? reason.message ?? 'Error: Unknown Error.';
+
+            if (isRetryableError(code)) {
+                sendReportSourceHealth(translateSource, code);
+            }
+            else if (!isLocalError(code) && translateSource === source) {
+                throw reason;
+            }
+
+            firstReason ??= reason;
+        }
+    }
+
+    throw firstReason;
+};
+
+// Child frames share the scheduler, the cache and the error state of the top frame, which sends their requests.
+const translateInTopFrame = async (params: WebpageTranslateParams, isInViewPort: () => boolean) => {
+    const response = await sendFrameWebpageTranslate(params, isInViewPort());
+
+    if ('code' in response) { throw getError(response.code); }
+
+    return { result: response.results, translateSource: source };
+};
+
+const cacheResult = (keys: string[], result: WebpageTranslateResult[], translateSource: string) => {
+    if (keys.length !== result.length) { throw getError(`Error: "result"'s length is not the same as "paragraphs"'s.`); }
+
+    // Keys are cached under the chosen source, results of fallback sources are kept for this page only.
+    // Results of child frames are saved by the top frame.
+    if (enablePageTranslationCache && translateSource === source && !isChildFrame) {
+        sendSetPageTranslationCache(keys.map((key, index) => ({ key, translation: result[index] })), source, '', language);
+    }
+
+    result.forEach((translation, index) => {
+        const key = keys[index];
+        cacheMap.set(key, translation);
+    });
+};
+
+const translateProcess = ({ translateList, isInViewPort, beforeTranslate, onSuccess, onError, onFinally }: {
     translateList: { keys: string[]; paragraphs: string[][]; }[];
+    isInViewPort: (keys: string[]) => boolean;
     beforeTranslate?: (keys: string[]) => void;
     onSuccess?: (keys: string[], result: WebpageTranslateResult[]) => void;
     onError?: (keys: string[], reason: any) => void;
     onFinally?: (keys: string[]) => void;
 }) => {
-    let translate: WebpageTranslateFn;
     let targetLanguage = language;
 
-    if (source === GOOGLE_COM) {
-        translate = googleWebTranslate;
-    }
-    else if (source === MICROSOFT_COM) {
-        translate = microsoftWebTranslate;
-    }
-    else {
-        translate = customWebTranslate;
-    }
-
     const tempCloseFlag = closeFlag;
 
-    translateList.forEach(({ paragraphs, keys }) => {
-        if (requestingNum === 0) {
-            requestStartCallback?.();
-        }
-        requestingNum++;
+    const translate = isChildFrame ? translateInTopFrame : translateWithFallback;
 
-        translate({ paragraphs, keys, targetLanguage }, source).then((result) => {
+    translateList.forEach(({ paragraphs, keys }) => {
+        translate({ paragraphs, keys, targetLanguage }, () => isInViewPort(keys)).then(({ result, translateSource }) => {
             // if not the same, means web page translate has been closed.
             if (tempCloseFlag !== closeFlag) { return; }
 
-            if (keys.length !== result.length) { throw getError(`Error: "result"'s length is not the same as "paragraphs"'s.`); }
-
-            if (enablePageTranslationCache) {
-                sendSetPageTranslationCache(keys.map((key, index) => ({ key, translation: result[index] })), source, '', language);
-            }
-
-            result.forEach((translation, index) => {
-                const key = keys[index];
-                cacheMap.set(key, translation);
-            });
+            cacheResult(keys, result, translateSource);
 
             onSuccess?.(keys, result);
         }).catch((reason) => {
@@ -1225,11 +1377,6 @@ const translateProcess = ({ translateList, beforeTranslate, onSuccess, onError,
             if (tempCloseFlag !== closeFlag) { return; }
 
             onFinally?.(keys);
-
-            requestingNum--;
-            if (requestingNum === 0) {
-                requestFinishCallback?.();
-            }
         });
 
         beforeTranslate?.(keys);
@@ -1293,6 +1440,7 @@ const translateAttribute = async (attributes: AttributeTranslation[]) => {
 
     translateProcess({
         translateList,
+        isInViewPort: keys => keys.some(key => !!attributePendingMap.get(key)?.some(({ element }) => element.isConnected && isInViewPort(element, element.ownerDocument))),
         beforeTranslate: keys => keys.forEach(key => attributePendingMap.get(key)?.forEach(item => item.status = 'loading')),
         onSuccess: (keys) => {
             keys.forEach((key) => {
@@ -1306,6 +1454,102 @@ const translateAttribute = async (attributes: AttributeTranslation[]) => {
     });
 };
 
+// Subtitles are translated like attributes, every cue text is a paragraph of its own and its key.
+const translateSubtitleTexts: SubtitleTranslateFn = async (texts, onTranslated, onError) => {
+    const handleTranslation = (text: string) => {
+        const result = cacheMap.get(text);
+
+        result && onTranslated(text, result.translations.join(''));
+
+        return !!result;
+    };
+
+    let nextTexts = texts.filter(text => !handleTranslation(text));
+
+    if (enablePageTranslationCache && nextTexts.length > 0) {
+        const result = await sendGetPageTranslationCache(nextTexts, source, '', language);
+
+        !('code' in result) && Object.entries(result).forEach(([key, translation]) => cacheMap.set(key, translation));
+
+        nextTexts = nextTexts.filter(text => !handleTranslation(text));
+    }
+
+    const { maxParagraphCount, maxTextLength } = getTranslateListOptions();
+
+    let translateList: Parameters<typeof translateProcess>[0]['translateList'] = [];
+    let keys: string[] = [];
+    let characterNum: number = 0;
+
+    nextTexts.forEach((text) => {
+        if (characterNum + text.length > maxTextLength || keys.length + 1 > maxParagraphCount) {
+            translateList.push({ keys, paragraphs: keys.map(v => [v]) });
+            keys = [];
+            characterNum = 0;
+        }
+
+        keys.push(text);
+        characterNum += text.length;
+    });
+
+    if (keys.length > 0) {
+        translateList.push({ keys, paragraphs: keys.map(v => [v]) });
+    }
+
+    // Cues are picked by playback time, they are as urgent as what is in the viewport.
+    translateProcess({
+        translateList,
+        isInViewPort: () => true,
+        onSuccess: keys => keys.forEach(handleTranslation),
+        onError: keys => onError(keys)
+    });
+};
+
+// Requests of child frames, sent the way the paragraphs of this frame are.
+export const translateFrameParagraphs = async (params: WebpageTranslateParams, inViewPort: boolean) => {
+    if (startFlag !== closeFlag) { throw getError('ABORTED'); }
+
+    if (params.keys.every(key => cacheMap.has(key))) {
+        return params.keys.map(key => cacheMap.get(key)!);
+    }
+
+    const tempCloseFlag = closeFlag;
+
+    try {
+        const { result, translateSource } = await translateWithFallback({ ...params, targetLanguage: language }, () => inViewPort);
+
+        if (tempCloseFlag !== closeFlag) { throw getError('ABORTED'); }
+
+        cacheResult(params.keys, result, translateSource);
+
+        return result;
+    }
+    catch (reason: any) {
+        tempCloseFlag === closeFlag && errorCallback?.(reason.code ?? reason.message ?? 'Error: Unknown Error.');
+
+        throw reason;
+    }
+};
+
+// Null unless this is the top frame translating with iframe content on.
+export const getFrameTranslationState = (): FrameTranslationState | null => {
+    if (isChildFrame || !translateIframeContent || startFlag !== closeFlag) { return null; }
+
+    return {
+        translateSource: source,
+        targetLanguage: language,
+        enhancement: displayModeEnhancement,
+        customization: comparisonCustomization,
+        translateDynamicContent,
+        enableCache: enablePageTranslationCache,
+        wayOfFontsDisplaying,
+        subtitleDisplayMode: getSubtitleDisplayMode()
+    };
+};
+
+const sendToChildFrames = (command: FrameCommand) => {
+    !isChildFrame && translateIframeContent && sendFrameCommand(command);
+};
+
 export const errorRetry = () => {
     const nextTranslateList = [...updatedList].filter(v => v.status === 'error');
 
@@ -1318,8 +1562,77 @@ export const errorRetry = () => {
     if (attributeList.length > 0) {
         translateAttribute(attributeList);
     }
+
+    retrySubtitles();
+
+    sendToChildFrames({ action: 'retry' });
+};
+
+// Paragraphs out of the viewport are still waiting, translate all of them and resolve once none is pending.
+// "errorCount" is of the paragraphs which still failed, "completed" is false if page translation has been closed meanwhile.
+export const translateAllParagraphs = async () => {
+    const tempCloseFlag = closeFlag;
+
+    const nextTranslateList = [...waitingList].concat([...updatedList].filter(v => v.status === 'error'));
+
+    nextTranslateList.forEach((item) => {
+        waitingList.delete(item);
+        updatedList.add(item);
+    });
+
+    await startProcessing(nextTranslateList);
+
+    return new Promise<{ completed: boolean; errorCount: number; }>((resolve) => {
+        const check = () => {
+            if (tempCloseFlag !== closeFlag) {
+                resolve({ completed: false, errorCount: 0 });
+                return;
+            }
+
+            const pendingItems = new Set([...pendingMap.values()].flatMap(items => [...items]));
+
+            if (nextTranslateList.some(item => pendingItems.has(item))) {
+                setTimeout(check, 300);
+                return;
+            }
+
+            resolve({ completed: true, errorCount: [...updatedList].filter(item => item.status === 'error' && item.textNodes[0]?.isConnected).length });
+        };
+
+        check();
+    });
+};
+
+export type TranslatedParagraph = {
+    tagName: string;
+    original: string;
+    translation?: string;
 };
 
+const exportedTagNames = ['h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'blockquote', 'pre'];
+
+export const getTranslatedParagraphs = (): TranslatedParagraph[] => {
+    return Object.values(pageTranslateItemMap).flatMap((item) => {
+        const element = item.textNodes[0]?.parentElement;
+
+        if (!element?.isConnected) { return []; }
+
+        const tagName = element.closest(exportedTagNames.join(','))?.tagName.toLowerCase() ?? 'p';
+
+        const sameLanguage = displayModeEnhancement.oAndT_hideSameLanguage && item.result?.detectedLanguage === language;
+
+        return {
+            tagName,
+            original: item.originalText.trim(),
+            translation: item.status === 'finished' && !sameLanguage ? item.translation?.trim() : undefined
+        };
+    });
+};
+
+export const getWayOfFontsDisplaying = () => wayOfFontsDisplaying;
+
+export const getTranslatingLanguage = () => language;
+
 const preprocessComparisons = (webpageTranslateResult: WebpageTranslateResult, translation: string) => {
     let comparisons = webpageTranslateResult.comparisons ?? webpageTranslateResult.translations;
 
@@ -1395,6 +1708,16 @@ export const switchWayOfFontsDisplaying = (way?: number) => {
     attributeUpdatedSet.forEach(({ element, attributeName, attributeText, translation }) => {
         translation && element.setAttribute(attributeName, wayOfFontsDisplaying === 0 ? attributeText : translation);
     });
+
+    startFlag === closeFlag && sendToChildFrames({ action: 'switch', wayOfFontsDisplaying, subtitleDisplayMode: getSubtitleDisplayMode() });
+};
+
+export const switchSubtitlesDisplaying = (mode?: number) => {
+    const subtitleDisplayMode = switchSubtitleDisplayMode(mode);
+
+    startFlag === closeFlag && sendToChildFrames({ action: 'switch', wayOfFontsDisplaying, subtitleDisplayMode });
+
+    return subtitleDisplayMode;
 };
 
 const dealWithFontsStyle = ([originalFont, comparisonFont, translationFont]: ItemFonts) => {
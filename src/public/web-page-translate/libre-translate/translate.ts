@@ -0,0 +1,25 @@
+import type { WebpageTranslateFn } from '..';
+import { RESULT_ERROR } from '../../translate/error-codes';
+import { getLibreTranslateServiceValue, requestLibreTranslate } from '../../translate/libre-translate/translate';
+import { getError } from '../../translate/utils';
+
+// This runs in background, use `sendWebpageTranslate` in content scripts.
+// Every segment is a "q" of one request, segments without letters are not sent at all.
+export const translate: WebpageTranslateFn = async ({ paragraphs, targetLanguage }, source) => {
+    const serviceValue = await getLibreTranslateServiceValue(source);
+
+    const texts = paragraphs.flat();
+    const sentTexts = texts.filter(text => /\p{L}/u.test(text));
+
+    const { translatedText } = sentTexts.length > 0 ? await requestLibreTranslate(serviceValue, sentTexts, '', targetLanguage) : { translatedText: [] };
+
+    if (!Array.isArray(translatedText) || translatedText.length !== sentTexts.length) { throw getError(RESULT_ERROR); }
+
+    let sentIndex = 0;
+
+    const translations = texts.map(text => (/\p{L}/u.test(text) ? translatedText[sentIndex++] : text));
+
+    let index = 0;
+
+    return paragraphs.map(paragraph => ({ translations: paragraph.map(() => translations[index++]) }));
+};
\ No newline at end of file
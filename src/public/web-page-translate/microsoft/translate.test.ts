@@ -0,0 +1,63 @@
+/**
+ * @jest-environment ./src/test/jsdom-environment.js
+ */
+import { describe, expect, test } from '@jest/globals';
+import { translate } from './translate';
+import { mockServer, Route } from '../../../test/mock-server';
+import { LANGUAGE_NOT_SOPPORTED } from '../../translate/error-codes';
+import translateResult from '../../../test/fixtures/webpage-microsoft/translate.json';
+import unauthorized from '../../../test/fixtures/webpage-microsoft/unauthorized.json';
+import tooManyRequests from '../../../test/fixtures/webpage-microsoft/too-many-requests.json';
+
+const authRoute: Route = { url: 'https://edge.microsoft.com/translate/auth', reply: { body: 'eyJhbGciOiJFUzI1NiJ9.test-token' } };
+
+const getRoute = (reply: Route['reply']): Route => ({ method: 'POST', url: 'https://api.cognitive.microsofttranslator.com/translate', reply });
+
+const keys = ['Hello, world.', '<b0>Hello, </b0><b1>big</b1><b2> world</b2>.', 'Fish &amp; chips'];
+const params = { keys, paragraphs: [['Hello, world.'], ['Hello, ', 'big', ' world.'], ['Fish & chips']], targetLanguage: 'zh-CN' };
+
+describe('microsoft web page translate', () => {
+    test('splits the translations by the tags of the segments', async () => {
+        const requests = mockServer([authRoute, getRoute({ body: translateResult })]);
+
+        const result = await translate(params, 'microsoft.com');
+
+        const translateRequest = requests.find(({ url }) => url.includes('/translate?'))!;
+
+        expect(new URL(translateRequest.url).searchParams.get('to')).toBe('zh-Hans');
+        expect(translateRequest.headers.authorization).toBe('Bearer eyJhbGciOiJFUzI1NiJ9.test-token');
+        expect(JSON.parse(translateRequest.body)).toEqual(keys.map(key => ({ Text: key })));
+        expect(result).toEqual([
+            { detectedLanguage: 'en', translations: ['你好，世界。'], comparisons: ['你好，世界。'] },
+            { detectedLanguage: 'en', translations: ['你好，', '大', '世界。'], comparisons: ['你好，', '大', '世界'] },
+            { detectedLanguage: 'zh-TW', translations: ['鱼 & 薯条'], comparisons: ['鱼 & 薯条'] }
+        ]);
+    });
+
+    test('authorizes again once the token is refused', async () => {
+        let refused = false;
+
+        const requests = mockServer([authRoute, getRoute(() => {
+            if (refused) { return { body: translateResult }; }
+
+            refused = true;
+
+            return { status: 401, body: unauthorized };
+        })]);
+
+        const result = await translate(params, 'microsoft.com');
+
+        expect(requests.slice(-3).map(({ url }) => new URL(url).pathname)).toEqual(['/translate', '/translate/auth', '/translate']);
+        expect(result).toHaveLength(3);
+    });
+
+    test('maps failures to error codes', async () => {
+        mockServer([authRoute, getRoute({ status: 429, body: tooManyRequests })]);
+        await expect(translate(params, 'microsoft.com')).rejects.toMatchObject({ code: 'Error: 429001' });
+
+        mockServer([{ ...authRoute, reply: { status: 500, body: '' } }, getRoute({ status: 401, body: unauthorized })]);
+        await expect(translate(params, 'microsoft.com')).rejects.toMatchObject({ code: 'Error: get authorization failed.' });
+
+        await expect(translate({ ...params, targetLanguage: 'xx' }, 'microsoft.com')).rejects.toMatchObject({ code: LANGUAGE_NOT_SOPPORTED });
+    });
+});
\ No newline at end of file
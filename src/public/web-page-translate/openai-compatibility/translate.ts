@@ -0,0 +1,122 @@
+import type { WebpageTranslateFn, WebpageTranslateResult } from '..';
+import { langCodeI18n, LANG_EN } from '../../../constants/langCode';
+import { defaultChatGPTValue, localServiceTypes, serviceDefaultValueMap } from '../../../constants/thirdPartyServiceValues';
+import scOptions from '../../sc-options';
+import { RESULT_ERROR, SERVICE_NOT_FOUND } from '../../translate/error-codes';
+import { getError } from '../../translate/utils';
+import { getGlossaryPrompt } from '../../glossary';
+import { ThirdPartyServiceValue } from '../../../types/thirdPartyValue';
+import { PromptMessage } from '../../translate/prompt-template';
+import { requestChatCompletion } from '../../translate/openai-compatibility/chat';
+import { requestOllamaChat } from '../../translate/ollama/translate';
+
+const SEGMENT_SEPARATOR = '<b />';
+
+const systemPrompt = [
+    'You are a translation engine for web pages.',
+    'The user sends a JSON array of paragraphs, translate every paragraph into {target}.',
+    'A paragraph may be split into segments by "<b />", keep exactly the same number of "<b />" in its translation and keep each segment\'s translation between the same separators.',
+    'Do not explain anything, reply with a JSON object only: {"translations": ["..."]}.',
+    'The "translations" array must have exactly the same number of items as the input array, in the same order.'
+].join(' ');
+
+type ServiceValue = ThirdPartyServiceValue & {
+    url: string;
+};
+
+// This runs in background, use `sendWebpageTranslate` in content scripts.
+// Ollama is asked through its own "/api/chat", other services through OpenAI's chat completions.
+export const translate: WebpageTranslateFn = async ({ paragraphs, targetLanguage, glossary }, source) => {
+    const { enabledThirdPartyServices: services } = await scOptions.get(['enabledThirdPartyServices']);
+    const currentService = services.find(service => service.source === source);
+
+    if (!currentService) { throw getError(SERVICE_NOT_FOUND); }
+
+    const serviceValue = { ...defaultChatGPTValue, ...serviceDefaultValueMap.get(currentService.type), ...currentService };
+
+    const target = langCodeI18n[LANG_EN][targetLanguage] ?? targetLanguage;
+
+    const prompt = [systemPrompt.replace('{target}', target), getGlossaryPrompt(glossary ?? [])].filter(Boolean).join('\n\n');
+
+    const texts = paragraphs.map(paragraph => paragraph.join(SEGMENT_SEPARATOR));
+
+    try {
+        // Models sometimes merge or split paragraphs, give the whole batch a second chance first.
+        const translations = await fetchTranslations(texts, prompt, serviceValue) ?? await fetchTranslations(texts, prompt, serviceValue);
+
+        const results: WebpageTranslateResult[] = [];
+
+        for (let i = 0; i < paragraphs.length; i++) {
+            const segmentCount = paragraphs[i].length;
+
+            let segments = toSegments(translations?.[i], segmentCount);
+
+            if (!segments) {
+                const translation = (await fetchTranslations([texts[i]], prompt, serviceValue))?.[0];
+
+                segments = toSegments(translation, segmentCount) ?? toLastSegment(translation, segmentCount);
+            }
+
+            results.push({ translations: segments });
+        }
+
+        return results;
+    }
+    catch (err) {
+        if ((err as ReturnType<typeof getError>).code) {
+            throw err;
+        }
+        else {
+            throw getError(RESULT_ERROR);
+        }
+    }
+};
+
+const fetchTranslations = async (texts: string[], prompt: string, serviceValue: ServiceValue) => {
+    const messages: PromptMessage[] = [
+        { role: 'system', content: prompt },
+        { role: 'user', content: JSON.stringify(texts) }
+    ];
+
+    // Local models are slow on CPUs, they get longer than the services in the cloud.
+    const content = serviceValue.type === 'Ollama'
+        ? await requestOllamaChat(serviceValue, messages, { format: 'json' })
+        : await requestChatCompletion(serviceValue, messages, { responseFormat: { type: 'json_object' }, timeout: localServiceTypes.includes(serviceValue.type) ? 300000 : 60000 });
+
+    const translations = parseTranslations(content);
+
+    return translations?.length === texts.length ? translations : null;
+};
+
+const parseTranslations = (content: string): unknown[] | null => {
+    try {
+        const data = JSON.parse(content.replace(/^\s*```(json)?|```\s*$/g, ''));
+
+        if (Array.isArray(data)) {
+            return data;
+        }
+
+        return Array.isArray(data?.translations) ? data.translations : null;
+    }
+    catch {
+        return null;
+    }
+};
+
+const toSegments = (translation: unknown, segmentCount: number) => {
+    if (typeof translation !== 'string') { return null; }
+
+    const segments = translation.split(/<b\s*\/?>/);
+
+    return segments.length === segmentCount ? segments : null;
+};
+
+// Give up the segment boundaries rather than misplacing them, the whole paragraph goes to the last segment.
+const toLastSegment = (translation: unknown, segmentCount: number) => {
+    if (typeof translation !== 'string') { throw getError(RESULT_ERROR); }
+
+    const segments: string[] = new Array(segmentCount).fill('');
+    segments[segmentCount - 1] = translation.replace(/<b\s*\/?>/g, ' ');
+
+    return segments;
+};
\ No newline at end of file
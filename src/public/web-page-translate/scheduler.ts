@@ -0,0 +1,192 @@
+import { GOOGLE_COM, MICROSOFT_COM } from '../../constants/translateSource';
+import { isWebpageTranslateService } from '../../constants/thirdPartyServiceValues';
+import scOptions from '../sc-options';
+import { getError } from '../translate/utils';
+
+export type SourceRateLimit = {
+    // Requests running at the same time.
+    concurrency: number;
+    // Tokens refilled per second, every request takes one.
+    requestsPerSecond: number;
+    // Capacity of the bucket, how many requests may be sent in a row.
+    burst: number;
+};
+
+export type RequestProgress = {
+    queued: number;
+    inFlight: number;
+    done: number;
+};
+
+export const getDefaultRateLimit = (source: string): SourceRateLimit => {
+    if (source === GOOGLE_COM) {
+        return { concurrency: 4, requestsPerSecond: 4, burst: 8 };
+    }
+    else if (source === MICROSOFT_COM) {
+        return { concurrency: 3, requestsPerSecond: 3, burst: 6 };
+    }
+    else if (isWebpageTranslateService(source, scOptions.getInit().enabledThirdPartyServices)) {
+        return { concurrency: 2, requestsPerSecond: 0.5, burst: 2 };
+    }
+    else {
+        return { concurrency: 4, requestsPerSecond: 4, burst: 8 };
+    }
+};
+
+// 429 and 5xx from "fetchData", 429xxx and 5xxxxx from Microsoft, and what LLM services say about their limits.
+export const isThrottledError = (code: string) => {
+    return /http (429|5\d\d)\)/.test(code) || /^Error: (429|5\d\d)\d{3}$/.test(code) || /rate.?limit|too many requests|overloaded/i.test(code);
+};
+
+const MAX_RETRIES = 4;
+const BASE_BACKOFF_TIME = 1000;
+const MAX_BACKOFF_TIME = 60000;
+
+type Task = {
+    run: () => Promise<unknown>;
+    isInViewPort: () => boolean;
+    size: number;
+    retries: number;
+    resolve: (value: any) => void;
+    reject: (reason: any) => void;
+};
+
+type SourceQueue = {
+    limit: SourceRateLimit;
+    tokens: number;
+    refilledAt: number;
+    inFlight: number;
+    backoffLevel: number;
+    backoffUntil: number;
+    tasks: Task[];
+    timeout: ReturnType<typeof setTimeout> | null;
+};
+
+export const createRequestScheduler = (rateLimits: { [source: string]: Partial<SourceRateLimit>; }, onProgress?: (progress: RequestProgress) => void) => {
+    const queues = new Map<string, SourceQueue>();
+
+    let cleared = false;
+
+    const progress: RequestProgress = { queued: 0, inFlight: 0, done: 0 };
+
+    const updateProgress = (change: Partial<RequestProgress>) => {
+        if (cleared) { return; }
+
+        progress.queued += change.queued ?? 0;
+        progress.inFlight += change.inFlight ?? 0;
+        progress.done += change.done ?? 0;
+
+        onProgress?.({ ...progress });
+    };
+
+    const getQueue = (source: string) => {
+        let queue = queues.get(source);
+
+        if (!queue) {
+            const limit = { ...getDefaultRateLimit(source), ...rateLimits[source] };
+
+            queue = { limit, tokens: limit.burst, refilledAt: Date.now(), inFlight: 0, backoffLevel: 0, backoffUntil: 0, tasks: [], timeout: null };
+
+            queues.set(source, queue);
+        }
+
+        return queue;
+    };
+
+    const pump = (queue: SourceQueue) => {
+        if (queue.timeout) {
+            clearTimeout(queue.timeout);
+            queue.timeout = null;
+        }
+
+        const now = Date.now();
+
+        const { concurrency, requestsPerSecond, burst } = queue.limit;
+
+        queue.tokens = Math.min(burst, queue.tokens + (now - queue.refilledAt) / 1000 * requestsPerSecond);
+        queue.refilledAt = now;
+
+        while (queue.tasks.length > 0 && queue.inFlight < concurrency) {
+            if (now < queue.backoffUntil) {
+                queue.timeout = setTimeout(() => pump(queue), queue.backoffUntil - now);
+                return;
+            }
+
+            if (queue.tokens < 1) {
+                queue.timeout = setTimeout(() => pump(queue), (1 - queue.tokens) / requestsPerSecond * 1000);
+                return;
+            }
+
+            // Paragraphs in the viewport first, the others keep their order.
+            const index = Math.max(queue.tasks.findIndex(task => task.isInViewPort()), 0);
+            const [task] = queue.tasks.splice(index, 1);
+
+            queue.tokens -= 1;
+            queue.inFlight += 1;
+            updateProgress({ queued: -task.size, inFlight: task.size });
+
+            task.run().then((value) => {
+                queue.backoffLevel = 0;
+
+                updateProgress({ inFlight: -task.size, done: task.size });
+
+                task.resolve(value);
+            }).catch((reason) => {
+                const code: string = reason?.code ?? reason?.message ?? '';
+
+                if (!cleared && isThrottledError(code) && task.retries < MAX_RETRIES) {
+                    queue.backoffUntil = Date.now() + Math.min(BASE_BACKOFF_TIME * 2 ** queue.backoffLevel, MAX_BACKOFF_TIME) * (1 + Math.random() * 0.5);
+                    queue.backoffLevel += 1;
+
+                    task.retries += 1;
+                    queue.tasks.unshift(task);
+
+                    updateProgress({ inFlight: -task.size, queued: task.size });
+
+                    return;
+                }
+
+                updateProgress({ inFlight: -task.size, done: task.size });
+
+                task.reject(reason);
+            }).finally(() => {
+                queue.inFlight -= 1;
+
+                !cleared && pump(queue);
+            });
+        }
+    };
+
+    return {
+        // "size" is the number of paragraphs, which is what the progress counts.
+        schedule: <T>(source: string, run: () => Promise<T>, isInViewPort: () => boolean, size: number) => {
+            return new Promise<T>((resolve, reject) => {
+                if (cleared) {
+                    reject(getError('ABORTED'));
+                    return;
+                }
+
+                const queue = getQueue(source);
+
+                queue.tasks.push({ run, isInViewPort, size, retries: 0, resolve, reject });
+
+                updateProgress({ queued: size });
+
+                pump(queue);
+            });
+        },
+        // Queued requests are rejected, requests in flight are left to their callers and no longer counted.
+        clear: () => {
+            cleared = true;
+
+            onProgress?.({ queued: 0, inFlight: 0, done: 0 });
+
+            queues.forEach((queue) => {
+                queue.timeout && clearTimeout(queue.timeout);
+                queue.tasks.forEach(task => task.reject(getError('ABORTED')));
+            });
+
+            queues.clear();
+        }
+    };
+};
\ No newline at end of file
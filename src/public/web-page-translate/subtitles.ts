@@ -0,0 +1,251 @@
+import { ComparisonCustomization, DisplayModeEnhancement } from '../../types';
+
+// Translates "texts", calling "onTranslated" for each of them once its translation is known, or "onError" for those that failed.
+export type SubtitleTranslateFn = (texts: string[], onTranslated: (text: string, translation: string) => void, onError: (texts: string[]) => void) => void;
+
+type CueState = {
+    // "cue.text" as the page gave it, with its WebVTT tags.
+    original: string;
+    translation?: string;
+    status: 'loading' | 'error' | 'finished';
+};
+
+// 0: original subtitles only
+// 1: original subtitles and translations
+// 2: translations only
+let subtitleDisplayMode = 1;
+
+// Cues starting within this many seconds are translated ahead of playback.
+const LOOKAHEAD_TIME = 60;
+
+const STYLE_ELEMENT_ID = 'sc-subtitle-style';
+const TRANSLATION_CLASS_NAME = 'sc-subtitle-translation';
+
+let translateSubtitles: SubtitleTranslateFn | null = null;
+
+let cueStates = new WeakMap<TextTrackCue, CueState>();
+let updatedCues = new Set<VTTCue>();
+let failedCues = new Set<VTTCue>();
+// Removes the listeners of each video and its text tracks on closing.
+let hookedVideos = new Map<HTMLVideoElement, () => void>();
+
+const escapeCueText = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const unescapeCueText = (text: string) => text.replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&nbsp;/g, ' ').replace(/&lrm;|&rlm;/g, '').replace(/&amp;/g, '&');
+
+// Voice, class and timestamp tags say nothing to translate.
+const getCaption = (cueText: string) => unescapeCueText(cueText.replace(/<[^>]*>/g, '')).trim();
+
+const isVTTCue = (cue: TextTrackCue): cue is VTTCue => typeof (cue as VTTCue).text === 'string';
+
+// Players like video.js and Plyr hide the track and draw "activeCues" themselves, where "::cue" does not apply.
+const isHiddenCue = (cue: VTTCue) => cue.track?.mode === 'hidden';
+
+const renderCue = (cue: VTTCue) => {
+    const state = cueStates.get(cue);
+
+    if (!state?.translation) { return; }
+
+    const translation = isHiddenCue(cue) ? escapeCueText(state.translation) : `<c.${TRANSLATION_CLASS_NAME}>${escapeCueText(state.translation)}</c>`;
+
+    switch (subtitleDisplayMode) {
+        case 0:
+            cue.text = state.original;
+            return;
+        case 1:
+            cue.text = `${state.original}\n${translation}`;
+            return;
+        default:
+            cue.text = translation;
+            return;
+    }
+};
+
+const isSubtitleTrack = (track: TextTrack) => (track.kind === 'subtitles' || track.kind === 'captions') && (track.mode === 'showing' || track.mode === 'hidden');
+
+// Those players draw again on "cuechange", cues already on screen get their new text that way.
+const redrawHiddenCues = (cues: Iterable<VTTCue>) => {
+    const tracks = new Set<TextTrack>();
+
+    for (const cue of cues) {
+        const track = cue.track;
+
+        track && isHiddenCue(cue) && track.activeCues && Array.from(track.activeCues).includes(cue) && tracks.add(track);
+    }
+
+    tracks.forEach(track => track.dispatchEvent(new Event('cuechange')));
+};
+
+// Cues on screen and those coming up soon, which have not been sent yet.
+const getUpcomingCues = (video: HTMLVideoElement) => {
+    const cues: VTTCue[] = [];
+
+    for (const track of video.textTracks) {
+        if (!isSubtitleTrack(track) || !track.cues) { continue; }
+
+        for (const cue of track.cues) {
+            if (!isVTTCue(cue) || cueStates.has(cue)) { continue; }
+
+            if (cue.endTime >= video.currentTime && cue.startTime <= video.currentTime + LOOKAHEAD_TIME) {
+                cues.push(cue);
+            }
+        }
+    }
+
+    return cues;
+};
+
+const translateUpcomingCues = (video: HTMLVideoElement) => {
+    if (!translateSubtitles) { return; }
+
+    const cues = getUpcomingCues(video);
+    const cuesByCaption = new Map<string, VTTCue[]>();
+
+    cues.forEach((cue) => {
+        const caption = getCaption(cue.text);
+
+        cueStates.set(cue, { original: cue.text, status: 'loading' });
+
+        caption && (cuesByCaption.get(caption)?.push(cue) ?? cuesByCaption.set(caption, [cue]));
+    });
+
+    if (cuesByCaption.size === 0) { return; }
+
+    translateSubtitles([...cuesByCaption.keys()], (caption, translation) => {
+        cuesByCaption.get(caption)?.forEach((cue) => {
+            const state = cueStates.get(cue);
+
+            if (!state) { return; }
+
+            state.translation = translation;
+            state.status = 'finished';
+
+            updatedCues.add(cue);
+
+            renderCue(cue);
+        });
+
+        redrawHiddenCues(cuesByCaption.get(caption) ?? []);
+    }, (captions) => {
+        captions.forEach(caption => cuesByCaption.get(caption)?.forEach((cue) => {
+            const state = cueStates.get(cue);
+
+            state && (state.status = 'error');
+
+            failedCues.add(cue);
+        }));
+    });
+};
+
+const onVideoTimeUpdate = (e: Event) => {
+    translateUpcomingCues(e.target as HTMLVideoElement);
+};
+
+const hookVideo = (video: HTMLVideoElement) => {
+    if (hookedVideos.has(video)) { return; }
+
+    // Cues becoming active before the next "timeupdate", e.g. right after seeking.
+    const onCueChange = () => translateUpcomingCues(video);
+
+    // Subtitles turned on later, or tracks added by the player.
+    const onTracksChange = () => {
+        // Adding the same listener again does nothing.
+        for (const track of video.textTracks) {
+            isSubtitleTrack(track) && track.addEventListener('cuechange', onCueChange);
+        }
+
+        translateUpcomingCues(video);
+    };
+
+    hookedVideos.set(video, () => {
+        video.removeEventListener('timeupdate', onVideoTimeUpdate);
+        video.textTracks.removeEventListener('change', onTracksChange);
+        video.textTracks.removeEventListener('addtrack', onTracksChange);
+
+        for (const track of video.textTracks) {
+            track.removeEventListener('cuechange', onCueChange);
+        }
+    });
+
+    // "timeupdate" fires a few times a second during playback and after seeking.
+    video.addEventListener('timeupdate', onVideoTimeUpdate);
+    video.textTracks.addEventListener('change', onTracksChange);
+    video.textTracks.addEventListener('addtrack', onTracksChange);
+
+    onTracksChange();
+};
+
+// Videos added after the start are hooked once they play, "play" does not bubble but can be captured.
+const onDocumentPlay = (e: Event) => {
+    e.target instanceof HTMLVideoElement && hookVideo(e.target);
+};
+
+const appendSubtitleStyle = (customization: ComparisonCustomization, enhancement: DisplayModeEnhancement) => {
+    const { color, underlineColor, underlineStyle } = customization;
+
+    const style = document.getElementById(STYLE_ELEMENT_ID) ?? document.createElement('style');
+    const underline = enhancement.oAndT_Underline ? ` text-decoration: underline ${underlineStyle} ${underlineColor};` : '';
+
+    style.id = STYLE_ELEMENT_ID;
+    style.textContent = `::cue(.${TRANSLATION_CLASS_NAME}) { color: ${color};${underline} }`;
+
+    !style.isConnected && document.head.appendChild(style);
+};
+
+export const startSubtitleTranslating = ({ element, translate, customization, enhancement }: {
+    element: HTMLElement;
+    translate: SubtitleTranslateFn;
+    customization: ComparisonCustomization;
+    enhancement: DisplayModeEnhancement;
+}) => {
+    translateSubtitles = translate;
+
+    appendSubtitleStyle(customization, enhancement);
+
+    element.querySelectorAll('video').forEach(hookVideo);
+
+    document.addEventListener('play', onDocumentPlay, true);
+};
+
+export const closeSubtitleTranslating = () => {
+    translateSubtitles = null;
+
+    document.removeEventListener('play', onDocumentPlay, true);
+
+    hookedVideos.forEach(unhook => unhook());
+
+    updatedCues.forEach((cue) => {
+        const state = cueStates.get(cue);
+
+        state && (cue.text = state.original);
+    });
+
+    redrawHiddenCues(updatedCues);
+
+    document.getElementById(STYLE_ELEMENT_ID)?.remove();
+
+    cueStates = new WeakMap();
+    updatedCues = new Set();
+    failedCues = new Set();
+    hookedVideos = new Map();
+};
+
+// Failed cues are sent again with the next batch.
+export const retrySubtitles = () => {
+    failedCues.forEach(cue => cueStates.delete(cue));
+    failedCues.clear();
+
+    hookedVideos.forEach((_, video) => translateUpcomingCues(video));
+};
+
+export const getSubtitleDisplayMode = () => subtitleDisplayMode;
+
+export const switchSubtitleDisplayMode = (mode?: number) => {
+    subtitleDisplayMode = mode === undefined ? (subtitleDisplayMode + 1) % 3 : Math.floor(mode) % 3;
+
+    updatedCues.forEach(renderCue);
+
+    redrawHiddenCues(updatedCues);
+
+    return subtitleDisplayMode;
+};
\ No newline at end of file
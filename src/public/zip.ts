@@ -0,0 +1,98 @@
+// A zip writer without compression, enough for packaging text files such as EPUB.
+export type ZipEntry = {
+    name: string;
+    content: string;
+};
+
+const crcTable = (() => {
+    const table = new Uint32Array(256);
+
+    for (let i = 0; i < 256; i++) {
+        let c = i;
+
+        for (let k = 0; k < 8; k++) {
+            c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+        }
+
+        table[i] = c >>> 0;
+    }
+
+    return table;
+})();
+
+const crc32 = (data: Uint8Array) => {
+    let crc = 0xFFFFFFFF;
+
+    data.forEach((byte) => {
+        crc = crcTable[(crc ^ byte) & 0xFF] ^ (crc >>> 8);
+    });
+
+    return (crc ^ 0xFFFFFFFF) >>> 0;
+};
+
+export const createZip = (entries: ZipEntry[], type = 'application/zip') => {
+    const encoder = new TextEncoder();
+
+    const date = new Date();
+    const dosTime = (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1);
+    const dosDate = ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate();
+
+    const localParts: Uint8Array[] = [];
+    const centralParts: Uint8Array[] = [];
+
+    let offset = 0;
+
+    entries.forEach(({ name, content }) => {
+        const nameBytes = encoder.encode(name);
+        const data = encoder.encode(content);
+        const crc = crc32(data);
+
+        const localHeader = new Uint8Array(30 + nameBytes.length);
+        const localView = new DataView(localHeader.buffer);
+        localView.setUint32(0, 0x04034B50, true);
+        localView.setUint16(4, 20, true);
+        // Bit 11, file names are encoded in UTF-8.
+        localView.setUint16(6, 0x0800, true);
+        localView.setUint16(8, 0, true);
+        localView.setUint16(10, dosTime, true);
+        localView.setUint16(12, dosDate, true);
+        localView.setUint32(14, crc, true);
+        localView.setUint32(18, data.length, true);
+        localView.setUint32(22, data.length, true);
+        localView.setUint16(26, nameBytes.length, true);
+        localHeader.set(nameBytes, 30);
+
+        const centralHeader = new Uint8Array(46 + nameBytes.length);
+        const centralView = new DataView(centralHeader.buffer);
+        centralView.setUint32(0, 0x02014B50, true);
+        centralView.setUint16(4, 20, true);
+        centralView.setUint16(6, 20, true);
+        centralView.setUint16(8, 0x0800, true);
+        centralView.setUint16(10, 0, true);
+        centralView.setUint16(12, dosTime, true);
+        centralView.setUint16(14, dosDate, true);
+        centralView.setUint32(16, crc, true);
+        centralView.setUint32(20, data.length, true);
+        centralView.setUint32(24, data.length, true);
+        centralView.setUint16(28, nameBytes.length, true);
+        centralView.setUint32(42, offset, true);
+        centralHeader.set(nameBytes, 46);
+
+        localParts.push(localHeader, data);
+        centralParts.push(centralHeader);
+
+        offset += localHeader.length + data.length;
+    });
+
+    const centralSize = centralParts.reduce((total, part) => (total + part.length), 0);
+
+    const end = new Uint8Array(22);
+    const endView = new DataView(end.buffer);
+    endView.setUint32(0, 0x06054B50, true);
+    endView.setUint16(8, entries.length, true);
+    endView.setUint16(10, entries.length, true);
+    endView.setUint32(12, centralSize, true);
+    endView.setUint32(16, offset, true);
+
+    return new Blob([...localParts, ...centralParts, end], { type });
+};
\ No newline at end of file
@@ -7,6 +7,7 @@ type PanelStatusState = {
     pinning: boolean;
     focusFlag: number;
     displayEditArea: boolean;
+    compareMode: boolean;
 };
 
 const initialState: PanelStatusState = {
@@ -14,7 +15,8 @@ const initialState: PanelStatusState = {
     position: { x: 5, y: 5 },
     pinning: false,
     focusFlag: 0,
-    displayEditArea: false
+    displayEditArea: false,
+    compareMode: false
 };
 
 export const panelStatusSlice = createSlice({
@@ -58,6 +60,9 @@ export const panelStatusSlice = createSlice({
         },
         toggleDisplayEditArea: (state) => {
             state.displayEditArea = !state.displayEditArea;
+        },
+        toggleCompareMode: (state) => {
+            state.compareMode = !state.compareMode;
         }
     }
 });
@@ -70,7 +75,8 @@ export const {
     closePanel,
     requestToHidePanel,
     setPanelPinning,
-    toggleDisplayEditArea
+    toggleDisplayEditArea,
+    toggleCompareMode
 } = panelStatusSlice.actions;
 
 export default panelStatusSlice.reducer;
\ No newline at end of file
@@ -1,9 +1,12 @@
 import { createAsyncThunk, createSlice, PayloadAction } from '@reduxjs/toolkit';
 import { TranslateResult, Translation } from '../../types';
 import { textPreprocessing } from '../../public/text-preprocessing';
-import { sendTranslate } from '../../public/send';
+import { sendTranslate, sendTranslateStream } from '../../public/send';
 import scBrowserAI from '../../public/sc-browser-ai';
 import { BROWSER_AI } from '../../constants/translateSource';
+import { getThirdPartyService } from '../../constants/thirdPartyServiceValues';
+import scOptions from '../../public/sc-options';
+import { getTranslateContext } from '../../public/utils/get-selection';
 
 type TranslationState = {
     text: string;
@@ -21,17 +24,25 @@ const initialState: TranslationState = {
     translations: []
 };
 
+// Abort functions of the open streams, keyed by source.
+const streamAbortMap = new Map<string, () => void>();
+
 export const fetchTranslationFromSource = createAsyncThunk<
     Awaited<ReturnType<typeof sendTranslate>> | void,
-    string,
+    { source: string; bypassCache?: boolean; },
     { state: { translation: TranslationState } }
->('translation/fetchTranslationFromSource', async (source, { getState, dispatch }) => {
+>('translation/fetchTranslationFromSource', async ({ source, bypassCache }, { getState, dispatch }) => {
     const { text, from, to, translateId } = getState().translation;
 
     const preprocessedText = textPreprocessing(text);
 
     if (!preprocessedText) { return; }
 
+    const context = getTranslateContext(text);
+
+    streamAbortMap.get(source)?.();
+    streamAbortMap.delete(source);
+
     dispatch(requestStart({ source }));
 
     let browserAIResponse: null | Awaited<ReturnType<typeof sendTranslate>> = null;
@@ -46,7 +57,28 @@ export const fetchTranslationFromSource = createAsyncThunk<
         });
     }
 
-    const response = browserAIResponse || await sendTranslate({ source, text: preprocessedText, from, to }, translateId);
+    let streamResponse: null | Awaited<ReturnType<typeof sendTranslate>> = null;
+    if (getThirdPartyService(source, scOptions.getInit().enabledThirdPartyServices)) {
+        const { response, abort } = sendTranslateStream({ source, text: preprocessedText, from, to, context, bypassCache }, translateId, (translation) => {
+            if (getState().translation.translateId !== translateId) {
+                abort();
+                return;
+            }
+
+            dispatch(requestProgress({ source, result: translation }));
+        });
+
+        streamAbortMap.set(source, abort);
+
+        streamResponse = await response;
+
+        // Superseded by another request of the same source.
+        if (streamAbortMap.get(source) !== abort) { return; }
+
+        streamAbortMap.delete(source);
+    }
+
+    const response = browserAIResponse || streamResponse || await sendTranslate({ source, text: preprocessedText, from, to, context, bypassCache }, translateId);
 
     const { translateId: currentTranslateId } = getState().translation;
 
@@ -86,6 +118,14 @@ export const translationSlice = createSlice({
                 return translation;
             });
         },
+        requestProgress: (state, { payload }: PayloadAction<{ source: string; result: TranslateResult; }>) => {
+            state.translations = state.translations.map((translation) => {
+                if (translation.source === payload.source && (translation.translateRequest.status === 'loading' || translation.translateRequest.status === 'streaming')) {
+                    translation.translateRequest = { status: 'streaming', result: payload.result };
+                }
+                return translation;
+            });
+        },
         requestFinish: (state, { payload }: PayloadAction<{ source: string; result: TranslateResult; }>) => {
             state.translations = state.translations.map((translation) => {
                 if (translation.source === payload.source) {
@@ -146,6 +186,7 @@ export const translationSlice = createSlice({
 export const {
     nextTranslaion,
     requestStart,
+    requestProgress,
     requestFinish,
     requestError,
     addSource,
@@ -0,0 +1,7 @@
+// The part of "https://www.bing.com/translator" that the params are read from.
+export default `<!DOCTYPE html><html lang="en"><head><title>Bing Microsoft Translator</title>
+<script type="text/javascript">//<![CDATA[
+_G={Region:"US",Lang:"en-US",ST:(typeof si_ST!=='undefined'?si_ST:new Date),Mkt:"en-US",RevIpCC:"us",RTL:false,Ver:"22",IG:"4A1C2E63B9F84C3D9A0E5F7B21D6C8E0",EventID:"6712ab3c9d8e4f0a",V:"web",P:"TRANSLATOR",DA:"CO4",CID:"0B5E3F6A2C1D4E8F",SUIH:"xyz",adc:"b_ad",EF:{cookss:1,bmcov:1},gpUrl:"\\/fd\\/ls\\/GLinkPing.aspx?"};
+var params_AbusePreventionHelper = [1729346400000,"Xk9f2LmQ7rT0aBcD3eF6gH1iJ4kL5mN8",3600000];
+//]]></script></head>
+<body><div id="tta_outGDCont" data-iid="translator.5028"></div><div id="rich_tta" data-iid="translator.5025"></div></body></html>`;
\ No newline at end of file
@@ -0,0 +1,13 @@
+const { TestEnvironment } = require('jest-environment-jsdom');
+const { withStandInServer } = require('./stand-in-server');
+
+// jsdom leaves out what the extension pages get from the browser besides the DOM, Node's own are used instead.
+class JSDOMEnvironment extends withStandInServer(TestEnvironment) {
+    constructor(...args) {
+        super(...args);
+
+        Object.assign(this.global, { fetch, Request, Response, Headers, ReadableStream, TextEncoder, TextDecoder, TextDecoderStream, AbortController, AbortSignal, structuredClone });
+    }
+}
+
+module.exports = JSDOMEnvironment;
\ No newline at end of file
@@ -0,0 +1,42 @@
+export type RecordedRequest = {
+    url: string;
+    method: string;
+    headers: { [name: string]: string; };
+    body: string;
+};
+
+type Reply = {
+    status?: number;
+    headers?: { [name: string]: string; };
+    // Objects are sent as JSON, strings as they are.
+    body?: unknown;
+    // Sent one after another in place of "body", for streamed responses.
+    chunks?: string[];
+};
+
+export type Route = {
+    method?: string;
+    // Matched against the URL without its query.
+    url: string;
+    reply: Reply | ((request: RecordedRequest) => Reply);
+};
+
+type StandInServer = {
+    serve: (routes: Route[], requests: RecordedRequest[]) => void;
+};
+
+declare const standInServer: StandInServer;
+
+// Has the stand-in server of the test environment answer with recorded responses, returns the requests it receives.
+export const mockServer = (routes: Route[]) => {
+    const requests: RecordedRequest[] = [];
+
+    standInServer.serve(routes, requests);
+
+    return requests;
+};
+
+export const getSearchParams = ({ url, body }: RecordedRequest) => ({
+    query: new URL(url).searchParams,
+    form: new URLSearchParams(body)
+});
\ No newline at end of file
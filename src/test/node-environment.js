@@ -0,0 +1,4 @@
+const { TestEnvironment } = require('jest-environment-node');
+const { withStandInServer } = require('./stand-in-server');
+
+module.exports = withStandInServer(TestEnvironment);
\ No newline at end of file
@@ -0,0 +1,91 @@
+import defaultOptions from '../constants/defaultOptions';
+import { DefaultOptions } from '../types';
+
+type StorageItems = { [key: string]: any; };
+type MessageHandler = (message: any) => unknown;
+
+const storageListeners: ((changes: { [key: string]: chrome.storage.StorageChange; }, areaName: string) => void)[] = [];
+
+let localItems: StorageItems = {};
+let sessionItems: StorageItems = {};
+let messageHandler: MessageHandler = () => null;
+
+const pick = (items: StorageItems, keys: string | string[] | null) => {
+    if (keys === null) { return structuredClone(items); }
+
+    return [keys].flat().reduce<StorageItems>((picked, key) => (key in items ? { ...picked, [key]: structuredClone(items[key]) } : picked), {});
+};
+
+const createStorageArea = (areaName: string, getItems: () => StorageItems) => ({
+    get: (keys: string | string[] | null, callback?: (items: StorageItems) => void) => {
+        const items = pick(getItems(), keys);
+
+        callback?.(items);
+
+        return Promise.resolve(items);
+    },
+    set: (items: StorageItems, callback?: () => void) => {
+        const changes = Object.keys(items).reduce<{ [key: string]: chrome.storage.StorageChange; }>((t, key) => ({ ...t, [key]: { oldValue: getItems()[key], newValue: items[key] } }), {});
+
+        Object.assign(getItems(), structuredClone(items));
+
+        storageListeners.forEach(listener => listener(changes, areaName));
+
+        callback?.();
+
+        return Promise.resolve();
+    },
+    remove: (keys: string | string[]) => {
+        [keys].flat().forEach(key => delete getItems()[key]);
+
+        return Promise.resolve();
+    }
+});
+
+// Only what the modules under test call, everything else is left undefined so a test fails loudly when it is reached.
+(globalThis as any).chrome = {
+    storage: {
+        local: createStorageArea('local', () => localItems),
+        session: createStorageArea('session', () => sessionItems),
+        onChanged: {
+            addListener: (listener: typeof storageListeners[number]) => storageListeners.push(listener)
+        }
+    },
+    i18n: {
+        getMessage: (messageName: string) => messageName,
+        detectLanguage: () => Promise.resolve({ isReliable: false, languages: [] })
+    },
+    runtime: {
+        lastError: undefined,
+        sendMessage: (message: any, callback?: (response: unknown) => void) => {
+            Promise.resolve(messageHandler(message)).then(response => callback?.(response));
+        }
+    }
+};
+
+// Node 20 has no "navigator", custom sources send its language.
+(globalThis as any).navigator ??= { language: 'en-US' };
+
+// jsdom has neither of them, the page translation only needs them to exist.
+if (typeof window !== 'undefined') {
+    (globalThis as any).IntersectionObserver ??= class {
+        observe() {}
+        unobserve() {}
+        disconnect() {}
+    };
+
+    Range.prototype.getBoundingClientRect ??= () => new DOMRect();
+}
+
+// Options of a fresh install, with "items" on top of them.
+export const resetStorage = (items: Partial<DefaultOptions> = {}) => {
+    localItems = structuredClone({ ...defaultOptions, ...items });
+    sessionItems = {};
+};
+
+// Answers "chrome.runtime.sendMessage" as the background would.
+export const setMessageHandler = (handler: MessageHandler) => {
+    messageHandler = handler;
+};
+
+resetStorage();
\ No newline at end of file
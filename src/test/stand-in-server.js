@@ -0,0 +1,117 @@
+const http = require('http');
+const net = require('net');
+const { Agent, getGlobalDispatcher, setGlobalDispatcher } = require('undici');
+
+const readBody = request => new Promise((resolve, reject) => {
+    let body = '';
+
+    request.setEncoding('utf8');
+    request.on('data', chunk => body += chunk);
+    request.on('end', () => resolve(body));
+    request.on('error', reject);
+});
+
+const writeReply = (response, { status = 200, headers = {}, body, chunks }) => {
+    const contentType = typeof body === 'string' || chunks ? 'text/plain' : 'application/json';
+
+    response.writeHead(status, { 'Content-Type': contentType, ...headers });
+
+    if (!chunks) {
+        response.end(typeof body === 'string' ? body : JSON.stringify(body));
+
+        return;
+    }
+
+    // Every chunk goes out on its own, the way a stream arrives from a service.
+    const writeChunk = (index) => {
+        if (index === chunks.length) {
+            response.end();
+
+            return;
+        }
+
+        response.write(chunks[index], () => setTimeout(() => writeChunk(index + 1), 5));
+    };
+
+    writeChunk(0);
+};
+
+// Answers the requests of a test file with recorded responses over HTTP on 127.0.0.1.
+// Every fetch is connected to it whatever host it names, TLS left out, so the "Host" header still tells the services apart.
+// Requests to anything else have their connection dropped, which fetch reports as a network error.
+const startStandInServer = async () => {
+    let routes = [];
+    let requests = [];
+
+    const createServer = protocol => http.createServer(async (request, response) => {
+        const recorded = {
+            url: `${protocol}//${request.headers.host}${request.url}`,
+            method: request.method,
+            headers: request.headers,
+            body: await readBody(request)
+        };
+
+        requests.push(recorded);
+
+        const route = routes.find(v => (v.method ?? 'GET').toUpperCase() === recorded.method && recorded.url.split('?')[0] === v.url);
+
+        if (!route) {
+            request.socket.destroy();
+
+            return;
+        }
+
+        try {
+            writeReply(response, typeof route.reply === 'function' ? await route.reply(recorded) : route.reply);
+        }
+        catch {
+            request.socket.destroy();
+        }
+    });
+
+    const servers = { 'http:': createServer('http:'), 'https:': createServer('https:') };
+
+    await Promise.all(Object.values(servers).map(server => new Promise(resolve => server.listen(0, '127.0.0.1', resolve))));
+
+    const previousDispatcher = getGlobalDispatcher();
+    const agent = new Agent({
+        connect: ({ protocol }, callback) => {
+            const socket = net.connect(servers[protocol].address().port, '127.0.0.1');
+
+            socket.once('connect', () => callback(null, socket));
+            socket.once('error', error => callback(error, null));
+        }
+    });
+
+    setGlobalDispatcher(agent);
+
+    return {
+        serve: (nextRoutes, nextRequests) => {
+            routes = nextRoutes;
+            requests = nextRequests;
+        },
+        close: async () => {
+            setGlobalDispatcher(previousDispatcher);
+
+            await agent.close();
+            await Promise.all(Object.values(servers).map(server => new Promise(resolve => server.close(resolve))));
+        }
+    };
+};
+
+// Runs the server for as long as the environment of a test file, the tests reach it through "standInServer".
+const withStandInServer = Environment => class extends Environment {
+    async setup() {
+        await super.setup();
+
+        this.standInServer = await startStandInServer();
+        this.global.standInServer = this.standInServer;
+    }
+
+    async teardown() {
+        await this.standInServer?.close();
+        await super.teardown();
+    }
+};
+
+module.exports = { withStandInServer };
\ No newline at end of file
@@ -1,6 +1,9 @@
 import { StyleVarsList } from "../constants/defaultStyleVars";
 import { SourceParams } from "../constants/sourceParams";
 import { EnabledThirdPartyServices } from "./thirdPartyValue";
+import { SourceRateLimit } from "../public/web-page-translate/scheduler";
+import { SerializableArray, SerializableObject } from "../public/sc-file";
+import { CredentialVault } from "../public/credential-vault";
 
 declare global {
     interface Window {
@@ -32,6 +35,12 @@ export type TranslateResult = {
     from: string;
     to: string;
     result: string[];
+    // Sentences of "text" with their translations, from sources that translate sentence by sentence.
+    alignment?: { text: string; result: string; }[];
+    // The source that actually answered, when the requested one failed.
+    fallbackSource?: string;
+    // The monthly LLM budget is used up, the request went through as the budget only warns.
+    budgetWarning?: boolean;
     dict?: string[];
     phonetic?: string;
     related?: string[];
@@ -46,6 +55,11 @@ export type TranslateRequestLoading = {
     status: 'loading';
 }
 
+export type TranslateRequestStreaming = {
+    status: 'streaming';
+    result: TranslateResult;
+}
+
 export type TranslateRequestFinished = {
     status: 'finished';
     result: TranslateResult;
@@ -56,7 +70,7 @@ export type TranslateRequestError = {
     errorCode: string;
 }
 
-export type TranslateRequest = TranslateRequestInit | TranslateRequestLoading | TranslateRequestFinished | TranslateRequestError;
+export type TranslateRequest = TranslateRequestInit | TranslateRequestLoading | TranslateRequestStreaming | TranslateRequestFinished | TranslateRequestError;
 
 export type Translation = {
     source: string;
@@ -87,10 +101,41 @@ export type TranslateButtonsTL = {
     third: string;
 };
 
+export type CustomSourceResponseMapping = {
+    result?: string;
+    from?: string;
+    to?: string;
+    dict?: string;
+    phonetic?: string;
+    related?: string;
+    example?: string;
+    translations?: string;
+    comparisons?: string;
+};
+
+export type CustomSourceCondition = {
+    path: string;
+    equals?: string | number | boolean | null;
+};
+
+export type CustomSourceDefinition = {
+    method?: string;
+    headers?: { [name: string]: string; };
+    body?: string | SerializableObject | SerializableArray;
+    textItem?: string | SerializableObject | SerializableArray;
+    response: CustomSourceResponseMapping;
+    success?: CustomSourceCondition[];
+    error?: string;
+    languageCodes?: { [code: string]: string; };
+};
+
 export type CustomTranslateSource = {
     name: string;
     url: string;
     source: string;
+    definition?: CustomSourceDefinition;
+    // Names used by "{secret:name}" and the ids of the secrets in the credential vault.
+    secrets?: { [name: string]: string; };
 };
 
 export type DisplayOfTranslation = {
@@ -102,6 +147,7 @@ export type DisplayOfTranslation = {
     phonetic_nonEnglish: boolean;
     maintainParagraphStructure: boolean;
     sourceLanguage: boolean;
+    bilingualSentences: boolean;
 };
 
 export type DisplayModeEnhancement = {
@@ -120,6 +166,13 @@ export type ComparisonCustomization = {
     underlineStyle: string;
 };
 
+// In US dollars per million tokens.
+export type LLMModelPrice = {
+    model: string;
+    input: number;
+    output: number;
+};
+
 export type DefaultOptions = {
     userLanguage: string;
     translateDirectly: boolean;
@@ -127,10 +180,14 @@ export type DefaultOptions = {
     translateHostList: string[];
     historyBlackListMode: boolean;
     historyHostList: string[];
+    // 0 means unlimited.
+    historyMaxEntries: number;
+    historyMaxDays: number;
     defaultAudioSource: string;
     translateWithKeyPress: boolean;
     useDotCn: boolean;
     multipleTranslateSourceList: string[];
+    translateFallbackSourceList: string[];
     multipleTranslateFrom: string;
     multipleTranslateTo: string;
     enablePdfViewer: boolean;
@@ -169,6 +226,9 @@ export type DefaultOptions = {
     customizeStyleText: string;
     translateButtons: string[];
     webPageTranslateSource: string;
+    webPageTranslateFallbackSourceList: string[];
+    webPageTranslateRateLimits: { [source: string]: Partial<SourceRateLimit>; };
+    credentialVault: CredentialVault;
     webPageTranslateTo: string;
     webPageTranslateDisplayMode: number;
     webPageTranslateDirectly: boolean;
@@ -188,10 +248,23 @@ export type DefaultOptions = {
     translateIframeContent: boolean;
     translateRedirectedSameDomainPage: boolean;
     enablePageTranslationCache: boolean;
+    pageTranslationCacheMaxEntries: number;
+    pageTranslationCacheMaxSize: number;
     autoPlayAudio: boolean;
     autoPlayAudioLangs: string[];
     highlightCollectedText: boolean;
     enabledThirdPartyServices: EnabledThirdPartyServices;
+    llmModelPrices: LLMModelPrice[];
+    // In US dollars, 0 means no budget.
+    llmMonthlyBudget: number;
+    llmBudgetAction: 'warn' | 'block';
+    typingTranslate: boolean;
+    // Typed right before the caret to translate the text box, three spaces by default.
+    typingTranslateTrigger: string;
+    typingTranslateSource: string;
+    typingTranslateTo: string;
+    // Target languages of sites, hosts are matched like those of the host lists.
+    typingTranslateHostLanguages: { [host: string]: string; };
 };
 
 // Only work in "src/entry/background/install.ts".
@@ -206,4 +279,4 @@ export type DeprecatedOptions = {
     defaultTranslateTo: string;
 };
 
-export type SyncOptions = Omit<DefaultOptions, 'sourceParamsCache'>;
\ No newline at end of file
+export type SyncOptions = Omit<DefaultOptions, 'sourceParamsCache' | 'credentialVault'>;
\ No newline at end of file
@@ -1,29 +1,32 @@
-export type TPSGeminiValue = {
-    name: 'Gemini'
-    url?: string;
-    model?: string;
-    prompt?: string;
-    key?: string;
-};
+// The API a service speaks, every instance of a type is requested the same way.
+// "Ollama", "LlamaCpp" and "LibreTranslate" are servers hosted by the user, usually on localhost.
+export type ThirdPartyServiceType = 'Gemini' | 'ChatGPT' | 'OpenAI' | 'Ollama' | 'LlamaCpp' | 'LibreTranslate';
 
-export type TPSChatGPTValue = {
-    name: 'ChatGPT'
+export type ThirdPartyServiceValue = {
+    // Unique id used as the translate source, services added before instances keep their type name here.
+    source: string;
+    name: string;
+    type: ThirdPartyServiceType;
     url?: string;
     model?: string;
     prompt?: string;
-    key?: string;
+    // Id of the API key in the credential vault.
+    keyId?: string;
+    temperature?: number;
+    favicon?: string;
+    // Language the names of "{source}" and "{target}" are written in.
+    promptLanguage?: string;
+    // Look up single words and short phrases as dictionary entries, needs structured output of OpenAI compatible APIs.
+    wordMode?: boolean;
 };
 
-export type TPSOpenAIValue = {
-    name: 'OpenAI'
+export type EnabledThirdPartyServices = ThirdPartyServiceValue[];
+
+// Before 5.10.0, each type could be added once and was named after it.
+export type DeprecatedThirdPartyServiceValue = {
+    name: ThirdPartyServiceType;
     url?: string;
     model?: string;
     prompt?: string;
     key?: string;
-};
-
-export type EnabledThirdPartyServices = (
-    TPSGeminiValue
-    | TPSChatGPTValue
-    | TPSOpenAIValue
-)[];
\ No newline at end of file
+};
\ No newline at end of file